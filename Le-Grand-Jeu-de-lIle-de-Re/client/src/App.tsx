@@ -1,4 +1,3 @@
-import { useState } from 'react';
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -9,29 +8,18 @@ import PlayerDashboard from "@/pages/player-dashboard";
 import TeamPage from "@/pages/team";
 import AdminPage from "@/pages/admin";
 import AuditPage from "@/pages/audit";
-import ChallengeBankPage from "@/pages/challenge-bank";
-import ParticipantManagementPage from "@/pages/participant-management";
-import AdminLogin from "@/pages/admin-login";
+import LeaderboardPage from "@/pages/leaderboard";
+import LoginPage from "@/pages/login";
 import NotFound from "@/pages/not-found";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
 
-// Mock user - in real app this would come from auth context
-const regularUser = {
-  id: "user-1",
-  displayName: "Pierre Dupont",
-  isAdmin: false,
-};
-
-const adminUser = {
-  id: "admin-1",
-  displayName: "Administrateur GJIR",
-  isAdmin: true,
-};
-
-function Router({ isAdmin }: { isAdmin: boolean }) {
+function Router() {
   return (
     <Switch>
       <Route path="/" component={PlayerDashboard} />
       <Route path="/team" component={TeamPage} />
+      <Route path="/leaderboard" component={LeaderboardPage} />
       <Route path="/admin" component={AdminPage} />
       <Route path="/audit" component={AuditPage} />
       <Route component={NotFound} />
@@ -39,25 +27,35 @@ function Router({ isAdmin }: { isAdmin: boolean }) {
   );
 }
 
-function App() {
-  const [isAdminLoggedIn, setIsAdminLoggedIn] = useState(false);
-  
-  // Show regular user in navigation - admin access is protected by password
-  const currentUser = {
-    id: "user-1",
-    displayName: "Pierre Dupont",
-    isAdmin: false,
-  };
+function AppShell() {
+  const { user, isLoading } = useAuth();
+  useRealtime(!!user);
+
+  if (isLoading) {
+    return <div className="p-6">Chargement...</div>;
+  }
+
+  if (!user) {
+    return <LoginPage />;
+  }
 
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation user={user} />
+      <main>
+        <Router />
+      </main>
+    </div>
+  );
+}
+
+function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <div className="min-h-screen bg-slate-50">
-          <Navigation user={currentUser} />
-          <main>
-            <Router isAdmin={isAdminLoggedIn} />
-          </main>
-        </div>
+        <AuthProvider>
+          <AppShell />
+        </AuthProvider>
         <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
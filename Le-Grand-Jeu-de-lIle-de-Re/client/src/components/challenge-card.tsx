@@ -5,6 +5,7 @@ import { Progress } from '@/components/ui/progress';
 import { 
   Star, 
   CheckCircle, 
+  Flag,
   Clock, 
   Pause, 
   Play, 
@@ -13,23 +14,29 @@ import {
   MapPin, 
   Info 
 } from 'lucide-react';
+import { useGameSettings } from '@/hooks/use-game-settings';
+import { usePhaseAllows } from '@/hooks/use-current-game';
 import type { Assignment, Challenge, User } from '@shared/schema';
 
 interface ChallengeCardProps {
   assignment: Assignment & { challenge: Challenge; targetUser?: User };
   onUploadProof: (assignmentId: string) => void;
   onStartChallenge: (assignmentId: string) => void;
+  onCompleteChallenge: (assignmentId: string) => void;
 }
 
-export function ChallengeCard({ assignment, onUploadProof, onStartChallenge }: ChallengeCardProps) {
+export function ChallengeCard({ assignment, onUploadProof, onStartChallenge, onCompleteChallenge }: ChallengeCardProps) {
   const { challenge, targetUser, status } = assignment;
+  const settings = useGameSettings();
+  const canStart = usePhaseAllows('update_assignment_status');
+  const canSubmit = usePhaseAllows('submit_proof');
 
   const getDifficultyBadge = () => {
     const configs = {
-      easy: { label: 'Facile • 1 pt', icon: <Star className="w-3 h-3" />, variant: 'default' as const, className: 'bg-green-100 text-green-800' },
-      medium: { label: 'Intermédiaire • 3 pts', icon: <><Star className="w-3 h-3" /><Star className="w-3 h-3" /></>, variant: 'default' as const, className: 'bg-blue-100 text-blue-800' },
-      hard: { label: 'Difficile • 5 pts', icon: <><Star className="w-3 h-3" /><Star className="w-3 h-3" /><Star className="w-3 h-3" /></>, variant: 'default' as const, className: 'bg-red-100 text-red-800' },
-      team: { label: 'Équipe • 3 pts/membre', icon: <Users className="w-3 h-3" />, variant: 'default' as const, className: 'bg-purple-100 text-purple-800' }
+      easy: { label: `Facile • ${settings.easyPoints} pt${settings.easyPoints > 1 ? 's' : ''}`, icon: <Star className="w-3 h-3" />, variant: 'default' as const, className: 'bg-green-100 text-green-800' },
+      medium: { label: `Intermédiaire • ${settings.mediumPoints} pts`, icon: <><Star className="w-3 h-3" /><Star className="w-3 h-3" /></>, variant: 'default' as const, className: 'bg-blue-100 text-blue-800' },
+      hard: { label: `Difficile • ${settings.hardPoints} pts`, icon: <><Star className="w-3 h-3" /><Star className="w-3 h-3" /><Star className="w-3 h-3" /></>, variant: 'default' as const, className: 'bg-red-100 text-red-800' },
+      team: { label: `Équipe • ${settings.teamPoints} pts/membre`, icon: <Users className="w-3 h-3" />, variant: 'default' as const, className: 'bg-purple-100 text-purple-800' }
     };
 
     const config = configs[challenge.difficulty];
@@ -116,7 +123,7 @@ export function ChallengeCard({ assignment, onUploadProof, onStartChallenge }: C
         )}
 
         <div className="flex space-x-2">
-          {status === 'not_started' && (
+          {canStart && status === 'not_started' && (
             <Button 
               onClick={() => onStartChallenge(assignment.id)}
               className="bg-primary text-white hover:bg-blue-600"
@@ -126,7 +133,17 @@ export function ChallengeCard({ assignment, onUploadProof, onStartChallenge }: C
             </Button>
           )}
           
-          {(status === 'in_progress' || status === 'completed') && (
+          {canStart && status === 'in_progress' && (
+            <Button 
+              variant="outline"
+              onClick={() => onCompleteChallenge(assignment.id)}
+            >
+              <Flag className="w-4 h-4 mr-2" />
+              J'ai terminé
+            </Button>
+          )}
+
+          {canSubmit && (status === 'in_progress' || status === 'completed') && (
             <Button 
               onClick={() => onUploadProof(assignment.id)}
               className="bg-primary text-white hover:bg-blue-600"
@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { Challenge, ChallengeVersion } from '@shared/schema';
+
+type VersionEntry = ChallengeVersion & { editorName: string | null };
+
+interface ChallengeHistoryDialogProps {
+  challenge: Challenge | null;
+  onClose: () => void;
+}
+
+// Every wording a challenge has had; assignments show the one they were drawn with
+export function ChallengeHistoryDialog({ challenge, onClose }: ChallengeHistoryDialogProps) {
+  const { data: versions = [], isLoading } = useQuery<VersionEntry[]>({
+    queryKey: ['/api/challenges', challenge?.id, 'versions'],
+    enabled: !!challenge,
+  });
+
+  return (
+    <Dialog open={!!challenge} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Historique du défi</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Chargement...</div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-3">
+            {versions.map(version => (
+              <div key={version.id} className="p-4 bg-gray-50 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <Badge variant="outline">
+                    Version {version.version}
+                    {version.version === challenge?.version && ' • actuelle'}
+                  </Badge>
+                  <span className="text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString('fr-FR')}
+                    {version.editorName && ` • ${version.editorName}`}
+                  </span>
+                </div>
+                <div className="font-medium text-gray-900">{version.title}</div>
+                <p className="text-sm text-gray-600">{version.description}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
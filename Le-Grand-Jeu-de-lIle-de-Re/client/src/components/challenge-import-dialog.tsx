@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Upload } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  ChallengeFileFormat,
+  ChallengeImportPlan,
+  ChallengeImportRequest,
+  ChallengeImportStatus,
+} from '@shared/challenge-import';
+
+const STATUS_CONFIGS: Record<ChallengeImportStatus, { label: string; className: string }> = {
+  new: { label: 'Nouveau', className: 'bg-green-100 text-green-800' },
+  changed: { label: 'Modifié', className: 'bg-blue-100 text-blue-800' },
+  duplicate: { label: 'Doublon', className: 'bg-gray-100 text-gray-700' },
+  invalid: { label: 'Invalide', className: 'bg-red-100 text-red-800' },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'titre',
+  description: 'description',
+  difficulty: 'difficulté',
+  needsTarget: 'cible',
+  isActive: 'archivage',
+  geofence: 'zone',
+};
+
+function formatOf(fileName: string): ChallengeFileFormat | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'csv':
+      return 'csv';
+    case 'json':
+      return 'json';
+    case 'yaml':
+    case 'yml':
+      return 'yaml';
+  }
+}
+
+// Upload a CSV, JSON or YAML file, check the preview, then import the valid rows
+export function ChallengeImportDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<ChallengeImportRequest | null>(null);
+  const [plan, setPlan] = useState<ChallengeImportPlan | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const showError = (error: Error) => {
+    toast({
+      title: 'Erreur',
+      description: parseApiError(error).message,
+      variant: 'destructive',
+    });
+  };
+
+  const preview = useMutation({
+    mutationFn: async (request: ChallengeImportRequest) => {
+      const res = await apiRequest('POST', '/api/challenges/import/preview', request);
+      return await res.json() as ChallengeImportPlan;
+    },
+    onSuccess: setPlan,
+    onError: showError,
+  });
+
+  const runImport = useMutation({
+    mutationFn: async (request: ChallengeImportRequest) => {
+      const res = await apiRequest('POST', '/api/challenges/import', request);
+      return await res.json() as ChallengeImportPlan;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Import terminé',
+        description: `${result.counts.new} défi(s) ajouté(s), ${result.counts.changed} modifié(s).`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/challenges'] });
+      close();
+    },
+    onError: showError,
+  });
+
+  const close = () => {
+    setIsOpen(false);
+    setFile(null);
+    setPlan(null);
+  };
+
+  const onFileSelected = async (selected: File | undefined) => {
+    setPlan(null);
+    setFile(null);
+    if (!selected) return;
+
+    const format = formatOf(selected.name);
+    if (!format) {
+      toast({
+        title: 'Format non pris en charge',
+        description: 'Choisissez un fichier .csv, .json ou .yaml.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const request = { format, content: await selected.text() };
+    setFile(request);
+    preview.mutate(request);
+  };
+
+  const importable = plan ? plan.counts.new + plan.counts.changed : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => (open ? setIsOpen(true) : close())}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Importer
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Importer des défis</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-sm text-gray-600">
+            Colonnes : <code>title</code>, <code>description</code>, <code>difficulty</code> (easy, medium, hard, team),
+            {' '}<code>needsTarget</code>, <code>isActive</code> et <code>geofence</code> (facultatives ; la zone en JSON dans un CSV,
+            une cellule vide la retire). Les défis existants sont reconnus à leur titre.
+          </div>
+          <Input
+            type="file"
+            accept=".csv,.json,.yaml,.yml"
+            onChange={(e) => onFileSelected(e.target.files?.[0])}
+          />
+
+          {preview.isPending && <div className="text-sm text-gray-500">Analyse du fichier...</div>}
+
+          {plan && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(STATUS_CONFIGS) as ChallengeImportStatus[]).map(status => (
+                  <Badge key={status} className={STATUS_CONFIGS[status].className}>
+                    {STATUS_CONFIGS[status].label} : {plan.counts[status]}
+                  </Badge>
+                ))}
+              </div>
+
+              <div className="max-h-80 overflow-y-auto divide-y border rounded-lg">
+                {plan.rows.map(row => (
+                  <div key={row.row} className="px-3 py-2 flex items-start space-x-3 text-sm">
+                    <span className="text-gray-400 w-10 flex-shrink-0">#{row.row}</span>
+                    <Badge className={`flex-shrink-0 ${STATUS_CONFIGS[row.status].className}`}>
+                      {STATUS_CONFIGS[row.status].label}
+                    </Badge>
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{row.challenge?.title ?? '—'}</div>
+                      {row.changes && row.changes.length > 0 && (
+                        <div className="text-gray-600">
+                          Change : {row.changes.map(field => FIELD_LABELS[field] ?? field).join(', ')}
+                        </div>
+                      )}
+                      {row.messages.map(message => (
+                        <div key={message} className={row.status === 'invalid' ? 'text-red-600' : 'text-gray-500'}>
+                          {message}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="flex space-x-3 pt-2">
+            <Button
+              className="flex-1 bg-primary text-white hover:bg-blue-600"
+              disabled={!file || importable === 0 || runImport.isPending}
+              onClick={() => file && runImport.mutate(file)}
+            >
+              {runImport.isPending ? 'Import...' : `Importer ${importable} défi${importable > 1 ? 's' : ''}`}
+            </Button>
+            <Button variant="outline" className="flex-1" onClick={close}>
+              Annuler
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { KeyRound } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { changePasswordSchema, type ChangePassword } from '@shared/schema';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+// The confirmation only guards against typos and never leaves the browser
+const passwordFormSchema = changePasswordSchema.and(z.object({ confirmPassword: z.string() }))
+  .refine(data => data.newPassword === data.confirmPassword, {
+    message: 'Les deux mots de passe ne correspondent pas',
+    path: ['confirmPassword'],
+  });
+
+type PasswordFormData = z.infer<typeof passwordFormSchema>;
+
+const EMPTY_FORM: PasswordFormData = { currentPassword: '', newPassword: '', confirmPassword: '' };
+
+// Lets players replace the password printed on their login card
+export function ChangePasswordDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<PasswordFormData>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const changePassword = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePassword) =>
+      apiRequest('POST', '/api/auth/password', { currentPassword, newPassword }),
+    onSuccess: () => {
+      toast({ title: 'Mot de passe modifié', description: 'Utilisez-le dès votre prochaine connexion.' });
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Erreur',
+        description: parseApiError(error).message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (open) form.reset(EMPTY_FORM);
+        setIsOpen(open);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Changer de mot de passe">
+          <KeyRound className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Changer de mot de passe</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => changePassword.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mot de passe actuel</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="current-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nouveau mot de passe</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirmation</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={changePassword.isPending}>
+                {changePassword.isPending ? 'Enregistrement...' : 'Enregistrer'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
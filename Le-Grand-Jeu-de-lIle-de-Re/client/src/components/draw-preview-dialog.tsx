@@ -0,0 +1,138 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dice6, Target, Users } from 'lucide-react';
+import type { DrawPreview } from '@shared/draw';
+
+interface DrawPreviewDialogProps {
+  preview: DrawPreview | null;
+  isCommitting: boolean;
+  onCommit: (preview: DrawPreview) => void;
+  onClose: () => void;
+}
+
+const difficultyLabels = {
+  easy: { label: 'Facile', className: 'bg-green-100 text-green-800' },
+  medium: { label: 'Intermédiaire', className: 'bg-blue-100 text-blue-800' },
+  hard: { label: 'Difficile', className: 'bg-red-100 text-red-800' },
+  team: { label: 'Équipe', className: 'bg-purple-100 text-purple-800' },
+};
+
+export function DrawPreviewDialog({ preview, isCommitting, onCommit, onClose }: DrawPreviewDialogProps) {
+  if (!preview) return null;
+  const { stats } = preview;
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Aperçu du tirage</DialogTitle>
+          <p className="text-xs text-gray-500 font-mono break-all">Seed : {preview.seedHash}</p>
+        </DialogHeader>
+
+        {/* Fairness statistics */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="text-center p-3 bg-primary/10 rounded-lg">
+            <div className="text-xl font-bold text-primary">{stats.participantCount}</div>
+            <div className="text-xs text-gray-600">Participants</div>
+          </div>
+          <div className="text-center p-3 bg-purple-50 rounded-lg">
+            <div className="text-xl font-bold text-purple-700">{stats.teamCount}</div>
+            <div className="text-xs text-gray-600">
+              Équipes ({Object.entries(stats.teamSizes).map(([size, count]) => `${count}×${size}`).join(', ') || '—'})
+            </div>
+          </div>
+          <div className="text-center p-3 bg-green-50 rounded-lg">
+            <div className="text-xl font-bold text-green-700">
+              {stats.challengesPerParticipant.min}–{stats.challengesPerParticipant.max}
+            </div>
+            <div className="text-xs text-gray-600">Défis par participant</div>
+          </div>
+          <div className="text-center p-3 bg-orange-50 rounded-lg">
+            <div className="text-xl font-bold text-orange-700">
+              {stats.timesTargeted.min}–{stats.timesTargeted.max}
+            </div>
+            <div className="text-xs text-gray-600">Fois ciblé</div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          {Object.entries(stats.challengeUsage).map(([difficulty, usage]) => {
+            const config = difficultyLabels[difficulty as keyof typeof difficultyLabels];
+            return (
+              <Badge key={difficulty} className={config.className}>
+                {config.label} : {usage.distinct} défis utilisés, max {usage.maxShared} par défi
+              </Badge>
+            );
+          })}
+        </div>
+
+        <ScrollArea className="h-80 pr-3">
+          <div className="space-y-4">
+            {preview.teams.map((team) => (
+              <div key={team.name} className="rounded-lg border border-gray-200 p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="font-semibold text-gray-900 flex items-center">
+                    <Users className="w-4 h-4 mr-2 text-purple-500" />
+                    {team.name}
+                  </div>
+                  <div className="text-xs text-gray-500">{team.identificationMissionTitle}</div>
+                </div>
+                <div className="text-xs text-purple-700 mb-2">
+                  Défi d'équipe : {team.teamChallengeTitle ?? 'Aucun'}
+                </div>
+                <div className="space-y-2">
+                  {team.members.map((member) => {
+                    const player = preview.players.find(p => p.userId === member.id);
+                    return (
+                      <div key={member.id} className="text-sm">
+                        <div className="flex items-center justify-between">
+                          <div className="font-medium text-gray-800">{member.displayName}</div>
+                          <div className="text-xs text-gray-500 flex items-center">
+                            <Target className="w-3 h-3 mr-1" />
+                            Ciblé {player?.timesTargeted ?? 0} fois
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {player?.challenges.map((challenge, index) => (
+                            <Badge
+                              key={`${challenge.challengeId}-${index}`}
+                              className={difficultyLabels[challenge.difficulty].className}
+                            >
+                              {challenge.title}
+                              {challenge.targetDisplayName && (
+                                <span className="ml-1 inline-flex items-center">
+                                  <Target className="w-3 h-3 mr-0.5" />
+                                  {challenge.targetDisplayName}
+                                </span>
+                              )}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex space-x-3 pt-2">
+          <Button
+            onClick={() => onCommit(preview)}
+            disabled={isCommitting}
+            className="flex-1 bg-amber-600 text-white hover:bg-amber-700"
+          >
+            <Dice6 className="w-4 h-4 mr-2" />
+            {isCommitting ? 'Génération...' : 'Valider ce tirage'}
+          </Button>
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Annuler
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarRange, Plus, Power, Archive } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrentGame } from '@/hooks/use-current-game';
+import { PHASE_LABELS } from '@shared/game-phase';
+import type { Game } from '@shared/schema';
+
+// Picks the edition the admin pages work on, and activates, archives or
+// creates editions. Players always see the active edition.
+export function EditionSwitcher() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [copyCurrent, setCopyCurrent] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: games = [] } = useQuery<Game[]>({
+    queryKey: ['/api/games'],
+  });
+
+  const current = useCurrentGame();
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Erreur',
+      description: parseApiError(error).message,
+      variant: 'destructive',
+    });
+  };
+
+  // Every admin query depends on the working edition
+  const refreshAll = () => queryClient.invalidateQueries();
+
+  const selectGame = useMutation({
+    mutationFn: async (gameId: string) => apiRequest('POST', `/api/games/${gameId}/select`),
+    onSuccess: refreshAll,
+    onError,
+  });
+
+  const activateGame = useMutation({
+    mutationFn: async (gameId: string) => apiRequest('POST', `/api/games/${gameId}/activate`),
+    onSuccess: () => {
+      toast({
+        title: 'Édition activée',
+        description: 'Les participants jouent désormais cette édition.',
+      });
+      refreshAll();
+    },
+    onError,
+  });
+
+  const archiveGame = useMutation({
+    mutationFn: async (gameId: string) => apiRequest('POST', `/api/games/${gameId}/archive`),
+    onSuccess: () => {
+      toast({
+        title: 'Édition archivée',
+        description: 'L\'édition reste consultable mais ne peut plus être activée.',
+      });
+      refreshAll();
+    },
+    onError,
+  });
+
+  const createGame = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/games', {
+        name,
+        copyFromGameId: copyCurrent ? current?.id : undefined,
+      });
+      return response.json() as Promise<Game>;
+    },
+    onSuccess: (game) => {
+      toast({
+        title: 'Édition créée',
+        description: `« ${game.name} » est prête à être préparée.`,
+      });
+      setIsCreateOpen(false);
+      setName('');
+      selectGame.mutate(game.id);
+    },
+    onError,
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 flex flex-wrap items-center gap-3">
+        <CalendarRange className="h-5 w-5 text-gray-500" />
+        <span className="text-sm font-medium text-gray-700">Édition</span>
+        <Select value={current?.id ?? ''} onValueChange={(gameId) => selectGame.mutate(gameId)}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Choisir une édition" />
+          </SelectTrigger>
+          <SelectContent>
+            {games.map(game => (
+              <SelectItem key={game.id} value={game.id}>
+                {game.name}{game.isActive ? ' (active)' : game.archivedAt ? ' (archivée)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {current?.isActive && <Badge className="bg-green-100 text-green-800">Active</Badge>}
+        {current && <Badge variant="outline">{PHASE_LABELS[current.phase]}</Badge>}
+        {current?.archivedAt && <Badge className="bg-gray-100 text-gray-800">Archivée</Badge>}
+
+        <div className="flex items-center gap-2 ml-auto">
+          {current && !current.isActive && !current.archivedAt && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => activateGame.mutate(current.id)} disabled={activateGame.isPending}>
+                <Power className="w-4 h-4 mr-2" />
+                Activer
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => archiveGame.mutate(current.id)} disabled={archiveGame.isPending}>
+                <Archive className="w-4 h-4 mr-2" />
+                Archiver
+              </Button>
+            </>
+          )}
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm">
+                <Plus className="w-4 h-4 mr-2" />
+                Nouvelle édition
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Nouvelle édition</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edition-name">Nom</Label>
+                  <Input
+                    id="edition-name"
+                    placeholder={`Grand Jeu ${new Date().getFullYear() + 1}`}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                {current && (
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="edition-copy">Reprendre les défis et règles de « {current.name} »</Label>
+                    <Switch id="edition-copy" checked={copyCurrent} onCheckedChange={setCopyCurrent} />
+                  </div>
+                )}
+                <Button
+                  className="w-full"
+                  disabled={!name.trim() || createGame.isPending}
+                  onClick={() => createGame.mutate()}
+                >
+                  {createGame.isPending ? 'Création...' : 'Créer'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
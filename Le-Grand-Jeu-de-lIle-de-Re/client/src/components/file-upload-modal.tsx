@@ -4,21 +4,34 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { CloudUpload, File, X } from 'lucide-react';
+import { CloudUpload, File, MapPin, X } from 'lucide-react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import type { FileUploadData } from '@/lib/types';
+import type { Geofence } from '@shared/geofence';
 
 interface FileUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
   assignmentId?: string;
   teamId?: string;
+  // With teamId: the proof is for the team challenge rather than the identification mission
+  teamChallenge?: boolean;
   userId: string;
+  // Zone of the challenge or mission: the player may then send their position as the proof
+  geofence?: Geofence | null;
 }
 
-export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId }: FileUploadModalProps) {
+// Where the browser thinks the player is, as precisely as it can tell
+function currentPosition(): Promise<GeolocationPosition> {
+  return new Promise((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(resolve, reject, { enableHighAccuracy: true, timeout: 20000 });
+  });
+}
+
+export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, teamChallenge, userId, geofence }: FileUploadModalProps) {
+  const [mode, setMode] = useState<'position' | 'file'>('position');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [description, setDescription] = useState('');
   const [includeLocation, setIncludeLocation] = useState(true);
@@ -35,10 +48,11 @@ export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId
       }
       
       const proofData = {
-        userId,
         assignmentId,
         teamId,
-        type: data.file?.type.startsWith('image/') ? 'photo' : 
+        teamChallenge,
+        type: !data.file && data.includeLocation ? 'geolocation' :
+              data.file?.type.startsWith('image/') ? 'photo' : 
               data.file?.type.startsWith('video/') ? 'video' :
               data.file?.type.startsWith('audio/') ? 'audio' : 'text',
         description: data.description,
@@ -56,12 +70,13 @@ export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId
       });
       queryClient.invalidateQueries({ queryKey: ['/api/assignments', userId] });
       queryClient.invalidateQueries({ queryKey: ['/api/team', userId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/proofs/team', teamId] });
       handleClose();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: 'Erreur',
-        description: 'Erreur lors de la soumission de la preuve.',
+        description: parseApiError(error).message,
         variant: 'destructive',
       });
     },
@@ -83,7 +98,34 @@ export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId
     }
   };
 
+  const sendsPosition = !!geofence && mode === 'position';
+
   const handleSubmit = async () => {
+    if (sendsPosition) {
+      // Checked against the zone by the server; no position, no proof
+      try {
+        const position = await currentPosition();
+        submitProof.mutate({
+          description,
+          includeLocation: true,
+          metadata: {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      } catch (error) {
+        console.warn('Could not get location:', error);
+        toast({
+          title: 'Position indisponible',
+          description: 'Autorisez la géolocalisation dans votre navigateur puis réessayez.',
+          variant: 'destructive',
+        });
+      }
+      return;
+    }
+
     if (!selectedFile) {
       toast({
         title: 'Erreur',
@@ -97,13 +139,12 @@ export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId
     
     if (includeLocation && navigator.geolocation) {
       try {
-        const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-          navigator.geolocation.getCurrentPosition(resolve, reject);
-        });
+        const position = await currentPosition();
         
         metadata = {
           latitude: position.coords.latitude,
           longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
           timestamp: new Date().toISOString(),
         };
       } catch (error) {
@@ -130,6 +171,7 @@ export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId
     setSelectedFile(null);
     setDescription('');
     setIncludeLocation(true);
+    setMode('position');
     onClose();
   };
 
@@ -141,6 +183,27 @@ export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId
         </DialogHeader>
         
         <div className="space-y-4">
+          {geofence && (
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant={mode === 'position' ? 'default' : 'outline'} onClick={() => setMode('position')}>
+                <MapPin className="w-4 h-4 mr-2" />
+                Ma position
+              </Button>
+              <Button variant={mode === 'file' ? 'default' : 'outline'} onClick={() => setMode('file')}>
+                <File className="w-4 h-4 mr-2" />
+                Un fichier
+              </Button>
+            </div>
+          )}
+
+          {sendsPosition ? (
+            <div className="bg-teal-50 rounded-lg p-4 text-sm text-teal-900">
+              <MapPin className="h-8 w-8 text-teal-600 mx-auto mb-2" />
+              Ce défi se réalise sur place : envoyez votre position depuis le lieu indiqué.
+              Elle sera comparée à la zone du défi avant validation.
+            </div>
+          ) : (
+          <>
           {/* File upload area */}
           <div
             className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-primary transition-colors cursor-pointer"
@@ -181,6 +244,8 @@ export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId
               Inclure la géolocalisation
             </Label>
           </div>
+          </>
+          )}
           
           {/* Description */}
           <div>
@@ -199,11 +264,11 @@ export function FileUploadModal({ isOpen, onClose, assignmentId, teamId, userId
           <div className="flex space-x-3">
             <Button 
               onClick={handleSubmit}
-              disabled={!selectedFile || submitProof.isPending}
+              disabled={(!selectedFile && !sendsPosition) || submitProof.isPending}
               className="flex-1 bg-primary text-white hover:bg-blue-600"
             >
-              <CloudUpload className="w-4 h-4 mr-2" />
-              {submitProof.isPending ? 'Envoi...' : 'Soumettre'}
+              {sendsPosition ? <MapPin className="w-4 h-4 mr-2" /> : <CloudUpload className="w-4 h-4 mr-2" />}
+              {submitProof.isPending ? 'Envoi...' : sendsPosition ? 'Envoyer ma position' : 'Soumettre'}
             </Button>
             <Button variant="outline" onClick={handleClose} className="flex-1">
               Annuler
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarClock, ArrowRight } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrentGame } from '@/hooks/use-current-game';
+import { PHASE_LABELS, PHASE_TRANSITIONS, type GamePhase } from '@shared/game-phase';
+
+const PHASE_BADGES: Record<GamePhase, string> = {
+  setup: 'bg-gray-100 text-gray-800',
+  draw_published: 'bg-blue-100 text-blue-800',
+  running: 'bg-green-100 text-green-800',
+  judging: 'bg-amber-100 text-amber-800',
+  closed: 'bg-slate-200 text-slate-800',
+};
+
+// "datetime-local" inputs work on local time without seconds
+const toLocalInput = (date: Date | string | null) => {
+  if (!date) return '';
+  const d = new Date(date);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+// Current phase of the edition, manual transitions and the start/end times
+// at which the server moves the game to running and judging on its own
+export function GamePhaseCard() {
+  const game = useCurrentGame();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+
+  useEffect(() => {
+    setStartsAt(toLocalInput(game?.startsAt ?? null));
+    setEndsAt(toLocalInput(game?.endsAt ?? null));
+  }, [game?.startsAt, game?.endsAt]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Erreur',
+      description: parseApiError(error).message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/games/current'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/games'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+  };
+
+  const changePhase = useMutation({
+    mutationFn: async (phase: GamePhase) => apiRequest('POST', `/api/games/${game!.id}/phase`, { phase }),
+    onSuccess,
+    onError,
+  });
+
+  const saveSchedule = useMutation({
+    mutationFn: async () => apiRequest('PUT', `/api/games/${game!.id}/schedule`, {
+      startsAt: startsAt ? new Date(startsAt).toISOString() : null,
+      endsAt: endsAt ? new Date(endsAt).toISOString() : null,
+    }),
+    onSuccess: () => {
+      toast({
+        title: 'Calendrier enregistré',
+        description: 'Les changements de phase se feront automatiquement.',
+      });
+      onSuccess();
+    },
+    onError,
+  });
+
+  if (!game) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5" />
+            <span>Déroulement du jeu</span>
+          </span>
+          <Badge className={PHASE_BADGES[game.phase]}>{PHASE_LABELS[game.phase]}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {PHASE_TRANSITIONS[game.phase].length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {PHASE_TRANSITIONS[game.phase].map(phase => (
+              <Button
+                key={phase}
+                variant="outline"
+                size="sm"
+                onClick={() => changePhase.mutate(phase)}
+                disabled={changePhase.isPending}
+              >
+                <ArrowRight className="w-4 h-4 mr-2" />
+                {PHASE_LABELS[phase]}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="game-starts-at">Début du jeu</Label>
+            <Input id="game-starts-at" type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="game-ends-at">Fin des soumissions</Label>
+            <Input id="game-ends-at" type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Une fois le tirage publié, le jeu démarre au début indiqué et passe en délibération à la fin.
+        </p>
+        <Button size="sm" onClick={() => saveSchedule.mutate()} disabled={saveSchedule.isPending}>
+          {saveSchedule.isPending ? 'Enregistrement...' : 'Enregistrer le calendrier'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { z } from 'zod';
+import { geofenceSchema, type Geofence } from '@shared/geofence';
+
+type ZoneKind = 'none' | Geofence['kind'];
+
+// Form field holding the editor's value: one message on the field rather than one per coordinate
+export const geofenceFieldSchema = z.unknown()
+  .refine(value => value == null || geofenceSchema.safeParse(value).success, 'Zone invalide : vérifiez les coordonnées et le rayon')
+  .transform(value => (value == null ? null : geofenceSchema.parse(value)));
+
+interface GeofenceEditorProps {
+  value: Geofence | null | undefined;
+  // Called with whatever the fields describe; the form schema rejects incomplete zones
+  onChange: (value: Geofence | null) => void;
+}
+
+const toNumber = (text: string) => (text.trim() === '' ? NaN : Number(text.replace(',', '.')));
+
+// "46.2446, -1.5617" per line
+const formatPoints = (fence: Geofence | null | undefined) =>
+  fence?.kind === 'polygon' ? fence.points.map(p => `${p.latitude}, ${p.longitude}`).join('\n') : '';
+
+function parsePoints(text: string) {
+  return text
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => {
+      const [latitude, longitude] = line.split(/[;,\s]+/).filter(Boolean).map(toNumber);
+      return { latitude, longitude };
+    });
+}
+
+// Zone of a location challenge: none, a point with a radius, or a polygon
+export function GeofenceEditor({ value, onChange }: GeofenceEditorProps) {
+  const [kind, setKind] = useState<ZoneKind>(value?.kind ?? 'none');
+  const [latitude, setLatitude] = useState(value?.kind === 'circle' ? String(value.latitude) : '');
+  const [longitude, setLongitude] = useState(value?.kind === 'circle' ? String(value.longitude) : '');
+  const [radius, setRadius] = useState(value?.kind === 'circle' ? String(value.radiusMeters) : '100');
+  const [points, setPoints] = useState(formatPoints(value));
+
+  const emit = (next: { kind?: ZoneKind; latitude?: string; longitude?: string; radius?: string; points?: string }) => {
+    const state = { kind, latitude, longitude, radius, points, ...next };
+    if (state.kind === 'none') {
+      onChange(null);
+    } else if (state.kind === 'circle') {
+      onChange({
+        kind: 'circle',
+        latitude: toNumber(state.latitude),
+        longitude: toNumber(state.longitude),
+        radiusMeters: toNumber(state.radius),
+      });
+    } else {
+      onChange({ kind: 'polygon', points: parsePoints(state.points) });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={kind}
+        onValueChange={(next: ZoneKind) => {
+          setKind(next);
+          emit({ kind: next });
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Aucune zone</SelectItem>
+          <SelectItem value="circle">Point et rayon</SelectItem>
+          <SelectItem value="polygon">Polygone</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {kind === 'circle' && (
+        <div className="grid grid-cols-3 gap-2">
+          <Input
+            placeholder="Latitude"
+            inputMode="decimal"
+            value={latitude}
+            onChange={(e) => {
+              setLatitude(e.target.value);
+              emit({ latitude: e.target.value });
+            }}
+          />
+          <Input
+            placeholder="Longitude"
+            inputMode="decimal"
+            value={longitude}
+            onChange={(e) => {
+              setLongitude(e.target.value);
+              emit({ longitude: e.target.value });
+            }}
+          />
+          <Input
+            placeholder="Rayon (m)"
+            inputMode="numeric"
+            value={radius}
+            onChange={(e) => {
+              setRadius(e.target.value);
+              emit({ radius: e.target.value });
+            }}
+          />
+        </div>
+      )}
+
+      {kind === 'polygon' && (
+        <Textarea
+          rows={4}
+          placeholder={'Un sommet par ligne : latitude, longitude\n46.2432, -1.5571'}
+          value={points}
+          onChange={(e) => {
+            setPoints(e.target.value);
+            emit({ points: e.target.value });
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,10 @@ import { useState } from 'react';
 import { Link, useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
-import { Menu, Gamepad2 } from 'lucide-react';
+import { Menu, Gamepad2, LogOut } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { NotificationBell } from '@/components/notification-bell';
+import { ChangePasswordDialog } from '@/components/change-password-dialog';
 
 interface NavigationProps {
   user: {
@@ -14,6 +17,7 @@ interface NavigationProps {
 export function Navigation({ user }: NavigationProps) {
   const [location] = useLocation();
   const [isOpen, setIsOpen] = useState(false);
+  const { logoutMutation } = useAuth();
 
   const getInitials = (name: string) => {
     return name
@@ -26,9 +30,10 @@ export function Navigation({ user }: NavigationProps) {
   const navItems = [
     { href: '/', label: 'Mon coffre', adminOnly: false },
     { href: '/team', label: 'Équipe', adminOnly: false },
-    { href: '/admin', label: 'Admin', adminOnly: false }, // Always visible but protected by password
-    { href: '/audit', label: 'Audit', adminOnly: false }, // Always visible but protected by password
-  ];
+    { href: '/leaderboard', label: 'Classement', adminOnly: false },
+    { href: '/admin', label: 'Admin', adminOnly: true },
+    { href: '/audit', label: 'Audit', adminOnly: false }, // Public so players can check the draw
+  ].filter(item => !item.adminOnly || user.isAdmin);
 
   const NavLink = ({ href, label, mobile = false }: { href: string; label: string; mobile?: boolean }) => {
     const isActive = location === href;
@@ -87,12 +92,23 @@ export function Navigation({ user }: NavigationProps) {
           </div>
           
           <div className="flex items-center space-x-3">
+            <NotificationBell />
             <span className="text-sm text-gray-600">{user.displayName}</span>
             <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center">
               <span className="text-white text-sm font-semibold">
                 {getInitials(user.displayName)}
               </span>
             </div>
+            <ChangePasswordDialog />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              title="Se déconnecter"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
           </div>
         </div>
       </div>
@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell, CheckCircle, XCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import type { Notification } from '@shared/schema';
+
+const NOTIFICATION_POLL_MS = 30_000;
+
+// Outcome of proof reviews and other messages for the logged-in player
+export function NotificationBell() {
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    refetchInterval: NOTIFICATION_POLL_MS,
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/notifications/read'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/notifications'] }),
+  });
+
+  const unread = notifications.filter(n => !n.readAt).length;
+
+  return (
+    <Popover onOpenChange={(open) => !open && unread > 0 && markAllRead.mutate()}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" title="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+              {unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b font-medium text-gray-900">Notifications</div>
+        {notifications.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-gray-500">Aucune notification</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map(notification => (
+              <div key={notification.id} className={`px-4 py-3 flex space-x-3 ${notification.readAt ? '' : 'bg-blue-50'}`}>
+                {notification.kind === 'proof_approved'
+                  ? <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />
+                  : <XCircle className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />}
+                <div className="text-sm">
+                  <div className="font-medium text-gray-900">{notification.title}</div>
+                  <div className="text-gray-600">{notification.message}</div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {new Date(notification.createdAt).toLocaleString('fr-FR')}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Printer, Upload } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { printLoginCards } from '@/lib/login-sheet';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  LoginCredential,
+  ParticipantImportPlan,
+  ParticipantImportStatus,
+} from '@shared/participant-import';
+
+const STATUS_CONFIGS: Record<ParticipantImportStatus, { label: string; className: string }> = {
+  new: { label: 'Nouveau compte', className: 'bg-green-100 text-green-800' },
+  enroll: { label: 'Compte existant', className: 'bg-blue-100 text-blue-800' },
+  duplicate: { label: 'Doublon', className: 'bg-gray-100 text-gray-700' },
+  invalid: { label: 'Invalide', className: 'bg-red-100 text-red-800' },
+};
+
+const CONSTRAINT_LABELS = {
+  together: 'ensemble',
+  apart: 'séparés',
+};
+
+// Upload a CSV of participants, check the preview, import, then print the login cards
+export function ParticipantImportDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [content, setContent] = useState<string | null>(null);
+  const [plan, setPlan] = useState<ParticipantImportPlan | null>(null);
+  const [credentials, setCredentials] = useState<LoginCredential[] | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const showError = (error: Error) => {
+    toast({
+      title: 'Erreur',
+      description: parseApiError(error).message,
+      variant: 'destructive',
+    });
+  };
+
+  const preview = useMutation({
+    mutationFn: async (fileContent: string) => {
+      const res = await apiRequest('POST', '/api/participants/import/preview', { content: fileContent });
+      return await res.json() as ParticipantImportPlan;
+    },
+    onSuccess: setPlan,
+    onError: showError,
+  });
+
+  const runImport = useMutation({
+    mutationFn: async (fileContent: string) => {
+      const res = await apiRequest('POST', '/api/participants/import', { content: fileContent });
+      return await res.json() as { plan: ParticipantImportPlan; credentials: LoginCredential[] };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Import terminé',
+        description: `${result.plan.counts.new} compte(s) créé(s), ${result.plan.counts.enroll} compte(s) existant(s) inscrit(s).`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/participants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/team-constraints'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/team-constraints/check'] });
+      setPlan(null);
+      setContent(null);
+      setCredentials(result.credentials);
+    },
+    onError: showError,
+  });
+
+  const close = () => {
+    setIsOpen(false);
+    setContent(null);
+    setPlan(null);
+    setCredentials(null);
+  };
+
+  const onFileSelected = async (selected: File | undefined) => {
+    setPlan(null);
+    setContent(null);
+    if (!selected) return;
+    const text = await selected.text();
+    setContent(text);
+    preview.mutate(text);
+  };
+
+  const print = () => {
+    try {
+      printLoginCards(credentials ?? []);
+    } catch (error) {
+      showError(error as Error);
+    }
+  };
+
+  const importable = plan ? plan.counts.new + plan.counts.enroll : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => (open ? setIsOpen(true) : close())}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Importer (CSV)
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Importer des participants</DialogTitle>
+        </DialogHeader>
+
+        {credentials ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {credentials.length} compte(s) créé(s). Imprimez les cartes de connexion maintenant :
+              les mots de passe ne seront plus affichés.
+            </p>
+            <div className="flex space-x-3">
+              <Button
+                className="flex-1 bg-primary text-white hover:bg-blue-600"
+                disabled={credentials.length === 0}
+                onClick={print}
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Imprimer les cartes
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={close}>
+                Fermer
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-gray-600">
+              Colonnes : <code>displayName</code>, puis facultatives <code>username</code> (déduit du nom sinon),
+              {' '}<code>email</code>, <code>phone</code>, <code>together</code> et <code>apart</code> (identifiants
+              des personnes à mettre dans la même équipe ou à séparer, séparés par des espaces).
+              Un identifiant existant inscrit le compte sans changer son mot de passe.
+            </div>
+            <Input type="file" accept=".csv" onChange={(e) => onFileSelected(e.target.files?.[0])} />
+
+            {preview.isPending && <div className="text-sm text-gray-500">Analyse du fichier...</div>}
+
+            {plan && (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(STATUS_CONFIGS) as ParticipantImportStatus[]).map(status => (
+                    <Badge key={status} className={STATUS_CONFIGS[status].className}>
+                      {STATUS_CONFIGS[status].label} : {plan.counts[status]}
+                    </Badge>
+                  ))}
+                  <Badge variant="outline">Contraintes : {plan.constraints.length}</Badge>
+                </div>
+
+                <div className="max-h-72 overflow-y-auto divide-y border rounded-lg">
+                  {plan.rows.map(row => (
+                    <div key={row.row} className="px-3 py-2 flex items-start space-x-3 text-sm">
+                      <span className="text-gray-400 w-10 flex-shrink-0">#{row.row}</span>
+                      <Badge className={`flex-shrink-0 ${STATUS_CONFIGS[row.status].className}`}>
+                        {STATUS_CONFIGS[row.status].label}
+                      </Badge>
+                      <div className="min-w-0">
+                        {row.participant ? (
+                          <div className="text-gray-900">
+                            <span className="font-medium">{row.participant.displayName}</span>
+                            <span className="text-gray-500 ml-2">@{row.participant.username}</span>
+                          </div>
+                        ) : (
+                          <div className="text-gray-900">—</div>
+                        )}
+                        {row.messages.map(message => (
+                          <div key={message} className={row.status === 'invalid' ? 'text-red-600' : 'text-gray-500'}>
+                            {message}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {plan.constraints.length > 0 && (
+                  <div className="text-sm text-gray-600">
+                    {plan.constraints.map(c => `${c.username} / ${c.otherUsername} : ${CONSTRAINT_LABELS[c.kind]}`).join(' • ')}
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex space-x-3 pt-2">
+              <Button
+                className="flex-1 bg-primary text-white hover:bg-blue-600"
+                disabled={!content || importable === 0 || runImport.isPending}
+                onClick={() => content && runImport.mutate(content)}
+              >
+                {runImport.isPending ? 'Import...' : `Importer ${importable} participant${importable > 1 ? 's' : ''}`}
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={close}>
+                Annuler
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import { Clock, Lock } from 'lucide-react';
+import { useCurrentGame } from '@/hooks/use-current-game';
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Tells players why they cannot play yet, or any more
+export function PhaseBanner() {
+  const game = useCurrentGame();
+  if (!game || game.phase === 'running') return null;
+
+  const message = {
+    setup: 'Le tirage n\'a pas encore eu lieu.',
+    draw_published: game.startsAt
+      ? `Le jeu commence le ${formatDate(game.startsAt)}.`
+      : 'Le tirage est publié, le jeu n\'a pas encore commencé.',
+    judging: 'Le jeu est terminé : les organisateurs examinent les preuves.',
+    closed: 'Le jeu est clos.',
+  }[game.phase];
+  const Icon = game.phase === 'judging' || game.phase === 'closed' ? Lock : Clock;
+
+  return (
+    <div className="flex items-center space-x-3 p-4 mb-6 bg-amber-50 rounded-lg border border-amber-200 text-sm text-amber-800">
+      <Icon className="h-5 w-5 flex-shrink-0" />
+      <span>{message}</span>
+    </div>
+  );
+}
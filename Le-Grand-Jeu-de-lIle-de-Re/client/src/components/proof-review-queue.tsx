@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, X, Inbox, MapPin, Camera, AlertTriangle } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { PendingProof } from '@/lib/types';
+import type { ProofReview } from '@shared/schema';
+
+const PROOF_TYPE_LABELS: Record<PendingProof['type'], string> = {
+  photo: 'Photo',
+  video: 'Vidéo',
+  audio: 'Audio',
+  text: 'Texte',
+  geolocation: 'Position',
+};
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`;
+
+// Shows the light renditions when the upload has been processed; videos and
+// recordings only download when played
+function ProofMedia({ proof }: { proof: PendingProof }) {
+  if (!proof.mediaUrl) return null;
+
+  const { preview, waveform } = proof.renditionUrls;
+  const details = [
+    proof.media?.durationSeconds !== undefined ? formatDuration(proof.media.durationSeconds) : null,
+    proof.media?.width && proof.media.height ? `${proof.media.width}×${proof.media.height}` : null,
+    proof.mediaStatus === 'pending' || proof.mediaStatus === 'processing' ? 'Aperçu en préparation…' : null,
+    proof.mediaStatus === 'failed' ? 'Aperçu indisponible' : null,
+  ].filter(Boolean);
+
+  let media;
+  switch (proof.type) {
+    case 'photo':
+      media = (
+        <a href={proof.mediaUrl} target="_blank" rel="noreferrer">
+          <img src={preview ?? proof.mediaUrl} alt={proof.fileName ?? 'Preuve'} className="max-h-64 rounded-lg border" />
+        </a>
+      );
+      break;
+    case 'video':
+      media = <video src={proof.mediaUrl} poster={preview} controls preload="none" className="max-h-64 rounded-lg border" />;
+      break;
+    case 'audio':
+      media = (
+        <div className="space-y-1">
+          {waveform && <img src={waveform} alt="Forme d'onde" className="w-full h-16 object-fill rounded border bg-white" />}
+          <audio src={proof.mediaUrl} controls preload="none" className="w-full" />
+        </div>
+      );
+      break;
+    default:
+      media = (
+        <a href={proof.mediaUrl} target="_blank" rel="noreferrer" className="text-sm text-primary underline">
+          {proof.fileName ?? 'Ouvrir le fichier'}
+        </a>
+      );
+  }
+
+  return (
+    <div className="space-y-1">
+      {media}
+      {details.length > 0 && <div className="text-xs text-gray-500">{details.join(' • ')}</div>}
+    </div>
+  );
+}
+
+function ProofReviewItem({ proof }: { proof: PendingProof }) {
+  const [comment, setComment] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const location = proof.metadata as { latitude?: number; longitude?: number } | null;
+
+  const review = useMutation({
+    mutationFn: async (decision: ProofReview['decision']) => {
+      return apiRequest('POST', `/api/proofs/${proof.id}/review`, {
+        decision,
+        comment: comment.trim() || undefined,
+      });
+    },
+    onSuccess: (_, decision) => {
+      toast({
+        title: decision === 'approved' ? 'Preuve acceptée' : 'Preuve refusée',
+        description: `${proof.submitterName} a été notifié.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/proofs/pending'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leaderboard'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Erreur',
+        description: parseApiError(error).message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="font-medium text-gray-900">{proof.submitterName}</div>
+          <div className="text-sm text-gray-600">
+            {proof.challengeTitle ?? (proof.teamName
+              ? `${proof.teamChallenge ? "Défi d'équipe" : 'Mission'} de l'équipe ${proof.teamName}`
+              : 'Preuve libre')}
+          </div>
+        </div>
+        <div className="text-right">
+          <Badge variant="outline">{PROOF_TYPE_LABELS[proof.type]}</Badge>
+          {proof.flags.some(flag => flag.severity === 'warning') && (
+            <Badge className="ml-1 bg-amber-100 text-amber-800">À vérifier</Badge>
+          )}
+          <div className="text-xs text-gray-500 mt-1">
+            {new Date(proof.submittedAt).toLocaleString('fr-FR')}
+          </div>
+        </div>
+      </div>
+
+      <ProofMedia proof={proof} />
+      {proof.capture && (proof.capture.takenAt || proof.capture.camera) && (
+        <div className="flex items-center space-x-1 text-xs text-gray-500">
+          <Camera className="w-3 h-3" />
+          <span>
+            {[
+              proof.capture.takenAt && `Prise le ${new Date(proof.capture.takenAt).toLocaleString('fr-FR')}`,
+              proof.capture.camera,
+            ].filter(Boolean).join(' • ')}
+          </span>
+        </div>
+      )}
+      {proof.flags.map(flag => (
+        <div
+          key={flag.code}
+          className={`flex items-start space-x-1 text-xs ${flag.severity === 'warning' ? 'text-amber-700' : 'text-gray-500'}`}
+        >
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>{flag.message}</span>
+        </div>
+      ))}
+      {proof.description && <p className="text-sm text-gray-700">{proof.description}</p>}
+      {location?.latitude !== undefined && location.longitude !== undefined && (
+        <div className="flex items-center space-x-1 text-xs text-gray-500">
+          <MapPin className="w-3 h-3" />
+          <span>{location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}</span>
+        </div>
+      )}
+      {proof.locationCheck && (
+        <div className={`flex items-center space-x-1 text-xs ${proof.locationCheck.inside ? 'text-green-700' : 'text-red-700'}`}>
+          <MapPin className="w-3 h-3" />
+          <span>
+            {proof.locationCheck.inside
+              ? 'Dans la zone du défi'
+              : `À ${formatDistance(proof.locationCheck.distanceMeters)} de la zone du défi`}
+            {proof.locationCheck.accuracyMeters !== undefined && ` (précision ${formatDistance(proof.locationCheck.accuracyMeters)})`}
+          </span>
+        </div>
+      )}
+
+      <Textarea
+        placeholder="Commentaire pour le joueur (obligatoire en cas de refus)"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        rows={2}
+      />
+      <div className="flex space-x-2">
+        <Button
+          size="sm"
+          className="bg-green-600 text-white hover:bg-green-700"
+          onClick={() => review.mutate('approved')}
+          disabled={review.isPending}
+        >
+          <Check className="w-4 h-4 mr-2" />
+          Accepter
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => review.mutate('rejected')}
+          disabled={review.isPending || !comment.trim()}
+        >
+          <X className="w-4 h-4 mr-2" />
+          Refuser
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Proofs waiting for an admin decision, oldest first
+export function ProofReviewQueue() {
+  const { data: pending = [] } = useQuery<PendingProof[]>({
+    queryKey: ['/api/proofs/pending'],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Inbox className="h-5 w-5" />
+            <span>Preuves à examiner</span>
+          </span>
+          <Badge className={pending.length > 0 ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'}>
+            {pending.length} en attente
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {pending.length === 0 ? (
+          <div className="text-center py-4 text-gray-500 text-sm">Aucune preuve en attente</div>
+        ) : (
+          <div className="space-y-4">
+            {pending.map(proof => (
+              <ProofReviewItem key={proof.id} proof={proof} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Target } from 'lucide-react';
+import type { TargetCount } from '@/lib/types';
+
+export function TargetBalanceCard() {
+  const { data: counts = [] } = useQuery<TargetCount[]>({
+    queryKey: ['/api/targets'],
+  });
+
+  const values = counts.map(c => c.timesTargeted);
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Target className="h-5 w-5" />
+            <span>Répartition des cibles</span>
+          </span>
+          {counts.length > 0 && (
+            <Badge className={max - min <= 1 ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}>
+              {min}–{max} fois ciblé
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {counts.length === 0 ? (
+          <div className="text-center py-4 text-gray-500 text-sm">Aucun participant</div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+            {counts.map((count) => (
+              <div key={count.userId} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                <span className="text-gray-900 truncate">{count.displayName}</span>
+                <span className="font-semibold text-gray-700 ml-2">{count.timesTargeted}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Link2, Unlink, Trash2, TriangleAlert, CheckCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { PublicUser, TeamConstraint } from '@shared/schema';
+import type { DrawIssue } from '@shared/draw-error';
+
+interface TeamConstraintsCardProps {
+  participants: PublicUser[];
+}
+
+export function TeamConstraintsCard({ participants }: TeamConstraintsCardProps) {
+  const [userId, setUserId] = useState('');
+  const [otherUserId, setOtherUserId] = useState('');
+  const [kind, setKind] = useState<'together' | 'apart'>('together');
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: constraints = [] } = useQuery<TeamConstraint[]>({
+    queryKey: ['/api/team-constraints'],
+  });
+
+  const { data: check } = useQuery<{ feasible: boolean; issues: DrawIssue[] }>({
+    queryKey: ['/api/team-constraints/check'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/team-constraints'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/team-constraints/check'] });
+  };
+
+  const addConstraint = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/team-constraints', {
+        userId,
+        otherUserId,
+        kind,
+        reason: reason || null,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Contrainte ajoutée',
+        description: kind === 'together' ? 'Ces participants seront dans la même équipe.' : 'Ces participants seront séparés.',
+      });
+      setUserId('');
+      setOtherUserId('');
+      setReason('');
+      invalidate();
+    },
+    onError: () => {
+      toast({
+        title: 'Erreur',
+        description: 'Erreur lors de l\'ajout de la contrainte.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteConstraint = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/team-constraints/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const nameOf = (id: string) => participants.find(p => p.id === id)?.displayName ?? id;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Link2 className="h-5 w-5" />
+          <span>Contraintes d'équipe</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {check && (
+          check.feasible ? (
+            <div className="flex items-center space-x-2 text-sm text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              <span>Les équipes peuvent être formées avec ces contraintes.</span>
+            </div>
+          ) : (
+            <div className="bg-amber-50 rounded-lg p-4 border border-amber-200 space-y-1">
+              {check.issues.map((issue, index) => (
+                <div key={index} className="flex items-start space-x-2 text-sm text-amber-800">
+                  <TriangleAlert className="h-4 w-4 mt-0.5" />
+                  <span>
+                    {issue.message}
+                    {issue.userIds && ` (${issue.userIds.map(nameOf).join(', ')})`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-2">
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger><SelectValue placeholder="Participant" /></SelectTrigger>
+            <SelectContent>
+              {participants.map(p => <SelectItem key={p.id} value={p.id}>{p.displayName}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={kind} onValueChange={(value) => setKind(value as 'together' | 'apart')}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="together">doit être avec</SelectItem>
+              <SelectItem value="apart">ne doit pas être avec</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={otherUserId} onValueChange={setOtherUserId}>
+            <SelectTrigger><SelectValue placeholder="Participant" /></SelectTrigger>
+            <SelectContent>
+              {participants.filter(p => p.id !== userId).map(p => (
+                <SelectItem key={p.id} value={p.id}>{p.displayName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Raison (couple, fratrie...)"
+          />
+          <Button
+            onClick={() => addConstraint.mutate()}
+            disabled={!userId || !otherUserId || addConstraint.isPending}
+            className="bg-primary text-white hover:bg-blue-600"
+          >
+            Ajouter
+          </Button>
+        </div>
+
+        {constraints.length === 0 ? (
+          <div className="text-center py-4 text-gray-500 text-sm">Aucune contrainte d'équipe</div>
+        ) : (
+          <div className="space-y-2">
+            {constraints.map((constraint) => (
+              <div key={constraint.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center space-x-3 text-sm">
+                  {constraint.kind === 'together' ? (
+                    <Badge className="bg-green-100 text-green-800"><Link2 className="w-3 h-3 mr-1" />Ensemble</Badge>
+                  ) : (
+                    <Badge className="bg-red-100 text-red-800"><Unlink className="w-3 h-3 mr-1" />Séparés</Badge>
+                  )}
+                  <span className="font-medium text-gray-900">
+                    {nameOf(constraint.userId)} & {nameOf(constraint.otherUserId)}
+                  </span>
+                  {constraint.reason && <span className="text-gray-500">({constraint.reason})</span>}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteConstraint.mutate(constraint.id)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
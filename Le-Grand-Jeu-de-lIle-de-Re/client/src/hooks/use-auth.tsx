@@ -0,0 +1,74 @@
+import { createContext, useContext, type ReactNode } from 'react';
+import { useQuery, useMutation, type UseMutationResult } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { PublicUser } from '@shared/schema';
+
+interface LoginData {
+  username: string;
+  password: string;
+}
+
+interface AuthContextType {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest('POST', '/api/auth/login', credentials);
+      return await res.json();
+    },
+    onSuccess: (loggedInUser: PublicUser) => {
+      queryClient.setQueryData(['/api/auth/me'], loggedInUser);
+      toast({
+        title: 'Connexion réussie',
+        description: `Bienvenue ${loggedInUser.displayName} !`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Erreur de connexion',
+        description: 'Identifiant ou mot de passe incorrect.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(['/api/auth/me'], null);
+    },
+  });
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, loginMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
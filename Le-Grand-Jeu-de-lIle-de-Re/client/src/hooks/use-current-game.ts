@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { phaseAllows, type PhaseAction } from '@shared/game-phase';
+import type { Game } from '@shared/schema';
+
+// Edition the user is looking at: the active one for players, the selected one for admins
+export function useCurrentGame(): Game | undefined {
+  const { data } = useQuery<Game>({
+    queryKey: ['/api/games/current'],
+  });
+  return data;
+}
+
+// Whether the current phase allows the action; false until the game is loaded
+export function usePhaseAllows(action: PhaseAction): boolean {
+  const game = useCurrentGame();
+  return !!game && phaseAllows(game.phase, action);
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { DEFAULT_GAME_RULES, type GameRules } from '@shared/game-rules';
+import type { GameSettings } from '@shared/schema';
+
+// Rules of the game from /api/settings; defaults until they are loaded
+export function useGameSettings(): GameRules {
+  const { data } = useQuery<GameSettings>({
+    queryKey: ['/api/settings'],
+  });
+  return data ?? DEFAULT_GAME_RULES;
+}
@@ -0,0 +1,82 @@
+import { useEffect } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { REALTIME_PATH, type RealtimeEvent } from '@shared/realtime';
+
+const RECONNECT_MIN_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+// Queries whose data an event makes stale
+const STALE_QUERIES: Record<RealtimeEvent['type'], string[]> = {
+  draw_generated: [
+    '/api/assignments',
+    '/api/team',
+    '/api/targets',
+    '/api/seed/current',
+    '/api/seed/commitment',
+    '/api/leaderboard',
+    '/api/games/current',
+    '/api/audit',
+  ],
+  phase_changed: ['/api/games/current', '/api/games', '/api/audit'],
+  proof_submitted: ['/api/proofs/pending', '/api/proofs/team'],
+  proof_processed: ['/api/proofs/pending'],
+  proof_reviewed: ['/api/proofs/pending', '/api/proofs/team', '/api/notifications', '/api/assignments', '/api/audit'],
+  team_revealed: ['/api/team', '/api/leaderboard'],
+  team_challenge_validated: ['/api/team', '/api/proofs/team', '/api/leaderboard'],
+  leaderboard_changed: ['/api/leaderboard'],
+  assignment_updated: ['/api/assignments'],
+};
+
+function applyEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  for (const key of STALE_QUERIES[event.type] ?? []) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+}
+
+// Keeps a WebSocket open while logged in and refreshes the queries each
+// pushed event touches; reconnects with backoff when the connection drops.
+export function useRealtime(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = RECONNECT_MIN_MS;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+      socket = new WebSocket(`${protocol}://${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        // Anything may have changed while disconnected
+        if (retryDelay > RECONNECT_MIN_MS) queryClient.invalidateQueries();
+        retryDelay = RECONNECT_MIN_MS;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          applyEvent(queryClient, JSON.parse(message.data) as RealtimeEvent);
+        } catch {
+          // Ignore malformed messages
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [enabled, queryClient]);
+}
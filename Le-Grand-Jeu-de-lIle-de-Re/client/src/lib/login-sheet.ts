@@ -0,0 +1,50 @@
+import { qrCodeSvg } from './qr-code';
+import type { LoginCredential } from '@shared/participant-import';
+
+// Link encoded in a card's QR code: the login page reads the fragment, which
+// browsers never send to the server, and fills in the form
+export function loginLink(credential: Pick<LoginCredential, 'username' | 'password'>): string {
+  const fragment = new URLSearchParams({ username: credential.username, password: credential.password });
+  return `${window.location.origin}/#${fragment.toString()}`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const SHEET_STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0; padding: 8mm; }
+  .cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 4mm; }
+  .card { border: 1px dashed #999; border-radius: 3mm; padding: 4mm; text-align: center; break-inside: avoid; }
+  .game { font-size: 9pt; color: #555; }
+  .name { font-size: 13pt; font-weight: 600; margin: 2mm 0; }
+  .field { font-size: 10pt; margin: 1mm 0; }
+  code { font-size: 11pt; background: #f1f1f1; padding: 0 1mm; border-radius: 1mm; }
+  .hint { font-size: 8pt; color: #777; }
+  @page { size: A4; margin: 0; }
+`;
+
+// Opens a printable page of login cards, three per row
+export function printLoginCards(credentials: LoginCredential[]) {
+  const cards = credentials.map(credential => `
+    <div class="card">
+      <div class="game">Grand Jeu de l'Île de Ré</div>
+      <div class="name">${escapeHtml(credential.displayName)}</div>
+      ${qrCodeSvg(loginLink(credential), 140)}
+      <div class="field">Identifiant : <code>${escapeHtml(credential.username)}</code></div>
+      <div class="field">Mot de passe : <code>${escapeHtml(credential.password)}</code></div>
+      <div class="hint">Scannez le code pour vous connecter</div>
+    </div>`).join('');
+
+  const sheet = window.open('', '_blank');
+  if (!sheet) {
+    throw new Error("Autorisez l'ouverture de fenêtres pour imprimer les cartes");
+  }
+  sheet.document.write(`<!doctype html>
+<html lang="fr">
+<head><meta charset="utf-8"><title>Cartes de connexion</title><style>${SHEET_STYLE}</style></head>
+<body><div class="cards">${cards}</div></body>
+</html>`);
+  sheet.document.close();
+  sheet.focus();
+  sheet.print();
+}
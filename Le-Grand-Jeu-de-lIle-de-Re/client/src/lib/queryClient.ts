@@ -7,6 +7,18 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors read "<status>: <body>"; pull the API's message and details back out
+export function parseApiError(error: Error): { status?: number; message: string; details?: unknown } {
+  const match = error.message.match(/^(\d{3}): ([\s\S]*)$/);
+  if (!match) return { message: error.message };
+  try {
+    const body = JSON.parse(match[2]);
+    return { status: Number(match[1]), message: body.message ?? match[2], details: body.details };
+  } catch {
+    return { status: Number(match[1]), message: match[2] };
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -1,3 +1,7 @@
+import type { Challenge, IdentificationMission, Proof, PublicUser, Team, TeamMember } from '@shared/schema';
+import type { MediaRenditionName } from '@shared/proof-media';
+import type { ProofFlag } from '@shared/proof-checks';
+
 export interface ChallengeStats {
   completed: number;
   total: number;
@@ -18,10 +22,24 @@ export interface FileUploadData {
   metadata?: {
     latitude?: number;
     longitude?: number;
+    // Radius in meters the browser is confident about
+    accuracy?: number;
     timestamp?: string;
   };
 }
 
+// A player's team; the mission's place and time window are the current ones
+export interface TeamDetails extends Team {
+  members: (TeamMember & { user: PublicUser })[];
+  identificationMission: IdentificationMission | null;
+  teamChallenge: Challenge | null;
+}
+
+// A mission in the admin list, with the teams the current draw sent there
+export interface IdentificationMissionWithTeams extends IdentificationMission {
+  teamCount: number;
+}
+
 export interface SystemStats {
   totalParticipants: number;
   teamsFormed: number;
@@ -32,3 +50,32 @@ export interface SystemStats {
   hardChallenges: number;
   teamChallenges: number;
 }
+
+export interface SeedCommitment {
+  seedHash: string;
+  generatedAt: string;
+}
+
+export interface SeedSummary extends SeedCommitment {
+  participantCount: number;
+  drawnAt: string | null;
+  revealedAt: string | null;
+}
+
+export interface TargetCount {
+  userId: string;
+  displayName: string;
+  timesTargeted: number;
+}
+
+// A proof waiting in the moderation queue
+export interface PendingProof extends Proof {
+  submitterName: string;
+  challengeTitle: string | null;
+  teamName: string | null;
+  mediaUrl: string | null;
+  // Thumbnail, preview and waveform URLs, once the upload is processed
+  renditionUrls: Partial<Record<MediaRenditionName, string>>;
+  // Doubts about when or where a photo was taken
+  flags: ProofFlag[];
+}
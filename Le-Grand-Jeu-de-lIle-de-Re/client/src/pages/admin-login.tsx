@@ -1,84 +0,0 @@
-import { useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Shield, Lock } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast';
-
-interface AdminLoginProps {
-  onLogin: () => void;
-}
-
-export default function AdminLogin({ onLogin }: AdminLoginProps) {
-  const [password, setPassword] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const { toast } = useToast();
-
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsLoading(true);
-
-    // Simple password check
-    if (password === 'cacahuète') {
-      toast({
-        title: 'Connexion réussie',
-        description: 'Bienvenue dans le panel d\'administration GJIR.',
-      });
-      onLogin();
-    } else {
-      toast({
-        title: 'Erreur de connexion',
-        description: 'Mot de passe incorrect.',
-        variant: 'destructive',
-      });
-    }
-    
-    setIsLoading(false);
-    setPassword('');
-  };
-
-  return (
-    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
-      <Card className="w-full max-w-md">
-        <CardHeader className="text-center">
-          <div className="w-16 h-16 bg-primary rounded-full flex items-center justify-center mx-auto mb-4">
-            <Shield className="h-8 w-8 text-white" />
-          </div>
-          <CardTitle className="text-2xl font-bold text-gray-900">
-            Administration GJIR
-          </CardTitle>
-          <p className="text-gray-600">Accès sécurisé au panel d'administration</p>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleLogin} className="space-y-4">
-            <div>
-              <Label htmlFor="password" className="text-sm font-medium text-gray-700">
-                Mot de passe administrateur
-              </Label>
-              <div className="relative mt-1">
-                <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                <Input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Entrez le mot de passe"
-                  className="pl-10"
-                  required
-                />
-              </div>
-            </div>
-            <Button 
-              type="submit" 
-              disabled={isLoading || !password}
-              className="w-full bg-primary text-white hover:bg-blue-600"
-            >
-              {isLoading ? 'Connexion...' : 'Se connecter'}
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
-    </div>
-  );
-}
\ No newline at end of file
@@ -4,90 +4,186 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
-  Dice6, 
-  Check, 
   AlertTriangle, 
   Shield, 
   Circle,
   Users,
-  Database
+  Database,
+  Lock,
+  Eye,
+  Search,
+  Settings,
+  MapPin
 } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import AdminLogin from './admin-login';
+import { useAuth } from '@/hooks/use-auth';
 import ParticipantManagementPage from './participant-management';
 import ChallengeBankPage from './challenge-bank';
-import type { SystemStats } from '@/lib/types';
-import type { AssignmentSeed, AuditLogEntry } from '@shared/schema';
+import IdentificationMissionsPage from './identification-missions';
+import GameSettingsPage from './game-settings';
+import { DrawPreviewDialog } from '@/components/draw-preview-dialog';
+import { TargetBalanceCard } from '@/components/target-balance-card';
+import { EditionSwitcher } from '@/components/edition-switcher';
+import { GamePhaseCard } from '@/components/game-phase-card';
+import { ProofReviewQueue } from '@/components/proof-review-queue';
+import { useCurrentGame } from '@/hooks/use-current-game';
+import { phaseAllows, regenerationNeedsOverride } from '@shared/game-phase';
+import type { DrawPreview } from '@shared/draw';
+import type { DrawIssue } from '@shared/draw-error';
+import { DEFAULT_CHALLENGE_REUSE, type ChallengeReuseRules } from '@shared/challenge-selection';
+import type { SystemStats, SeedCommitment, SeedSummary } from '@/lib/types';
+import type { AuditLogEntry } from '@shared/schema';
 
-// Mock admin ID - in real app this would come from auth
-const ADMIN_USER_ID = "admin-1";
+const isDrawIssue = (value: unknown): value is DrawIssue =>
+  typeof value === 'object' && value !== null && typeof (value as DrawIssue).message === 'string';
+
+// A refused draw lists every issue (shortages, constraints) in its details
+function describeDrawError(error: Error): string {
+  const { message, details } = parseApiError(error);
+  const issues = Array.isArray(details) ? details.filter(isDrawIssue) : [];
+  return issues.length > 0 ? issues.map(issue => issue.message).join(' • ') : message;
+}
 
 export default function AdminPage() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { user } = useAuth();
+  const isAuthenticated = !!user?.isAdmin;
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [preview, setPreview] = useState<DrawPreview | null>(null);
+  const [challengeReuse, setChallengeReuse] = useState<ChallengeReuseRules>(DEFAULT_CHALLENGE_REUSE);
+  const [overrideReason, setOverrideReason] = useState('');
+  const game = useCurrentGame();
+  // Once the game runs, a regeneration must be justified (logged as regenerate_assignments)
+  const needsOverride = !!game && regenerationNeedsOverride(game.phase);
+  const canRevealSeed = !!game && phaseAllows(game.phase, 'reveal_seed');
 
   // All hooks must be called before any conditional returns
-  const { data: currentSeed } = useQuery<AssignmentSeed>({
+  const { data: currentSeed } = useQuery<SeedSummary>({
     queryKey: ['/api/seed/current'],
     enabled: isAuthenticated,
   });
 
+  const { data: commitment } = useQuery<SeedCommitment | null>({
+    queryKey: ['/api/seed/commitment'],
+    queryFn: async () => {
+      const res = await fetch('/api/seed/commitment', { credentials: 'include' });
+      return res.status === 404 ? null : await res.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  const commitSeed = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/seed/commit');
+      return await res.json();
+    },
+    onSuccess: (data: SeedCommitment) => {
+      toast({
+        title: 'Empreinte publiée',
+        description: `Hash ${data.seedHash.substring(0, 16)}... communiqué avant le tirage.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/seed/commitment'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Erreur',
+        description: parseApiError(error).message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revealSeed = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/seed/reveal');
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Seed révélé',
+        description: 'Les joueurs peuvent désormais recalculer le tirage depuis la page Audit.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/seed/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Erreur',
+        description: parseApiError(error).message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const { data: auditEntries = [] } = useQuery<AuditLogEntry[]>({
     queryKey: ['/api/audit'],
     enabled: isAuthenticated,
   });
 
-  const generateAssignments = useMutation({
+  const previewAssignments = useMutation({
     mutationFn: async () => {
-      return apiRequest('POST', '/api/assignments/generate', {
-        adminId: ADMIN_USER_ID
+      const res = await apiRequest('POST', '/api/assignments/preview', { challengeReuse });
+      return await res.json();
+    },
+    onSuccess: (data: DrawPreview) => setPreview(data),
+    onError: (error: Error) => {
+      toast({
+        title: 'Tirage impossible',
+        description: describeDrawError(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Commits exactly the previewed draw: same seed, same participants and challenges
+  const generateAssignments = useMutation({
+    mutationFn: async (fromPreview: DrawPreview) => {
+      const res = await apiRequest('POST', '/api/assignments/generate', {
+        seedHash: fromPreview.seedHash,
+        inputFingerprint: fromPreview.inputFingerprint,
+        challengeReuse,
       });
+      return await res.json();
     },
     onSuccess: (data: any) => {
+      setPreview(null);
       toast({
         title: 'Assignations générées',
         description: `${data.participantCount} participants ont reçu leurs défis.`,
       });
       // Invalidate all assignment-related queries
       queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/targets'] });
       queryClient.invalidateQueries({ queryKey: ['/api/seed/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/seed/commitment'] });
       queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
       // Force refresh of all assignment queries
       queryClient.refetchQueries({ queryKey: ['/api/assignments'] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: 'Erreur',
-        description: 'Erreur lors de la génération des assignations.',
+        description: describeDrawError(error),
         variant: 'destructive',
       });
     },
   });
 
-  const validateTeamMissions = useMutation({
-    mutationFn: async () => {
-      // This would normally validate pending team missions
-      return Promise.resolve({ validated: 5 });
-    },
-    onSuccess: (data: any) => {
-      toast({
-        title: 'Missions validées',
-        description: `${data.validated} missions d'équipe ont été validées.`,
-      });
-    },
-  });
-
   const emergencyRegenerate = useMutation({
     mutationFn: async () => {
       return apiRequest('POST', '/api/assignments/generate', {
-        adminId: ADMIN_USER_ID
+        challengeReuse,
+        override: needsOverride ? { reason: overrideReason } : undefined,
       });
     },
     onSuccess: () => {
+      setOverrideReason('');
       toast({
         title: 'Régénération d\'urgence',
         description: 'Toutes les assignations ont été régénérées.',
@@ -98,11 +194,26 @@ export default function AdminPage() {
       // Also force refetch of assignments
       queryClient.refetchQueries({ queryKey: ['/api/assignments'] });
     },
+    onError: (error: Error) => {
+      toast({
+        title: 'Erreur',
+        description: describeDrawError(error),
+        variant: 'destructive',
+      });
+    },
   });
 
   // Conditional return after all hooks are defined
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={() => setIsAuthenticated(true)} />;
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="text-center">
+          <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Accès réservé</h2>
+          <p className="text-gray-600">Cette page est réservée aux administrateurs du GJIR.</p>
+        </div>
+      </div>
+    );
   }
 
   // Mock stats - in real app this would come from API
@@ -128,8 +239,10 @@ export default function AdminPage() {
         <p className="text-gray-600">Gestion complète du système de défis</p>
       </div>
 
+      <EditionSwitcher />
+
       <Tabs defaultValue="dashboard" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="dashboard" className="flex items-center space-x-2">
             <Shield className="w-4 h-4" />
             <span>Tableau de bord</span>
@@ -142,63 +255,156 @@ export default function AdminPage() {
             <Database className="w-4 h-4" />
             <span>Banque de défis</span>
           </TabsTrigger>
+          <TabsTrigger value="missions" className="flex items-center space-x-2">
+            <MapPin className="w-4 h-4" />
+            <span>Missions</span>
+          </TabsTrigger>
+          <TabsTrigger value="settings" className="flex items-center space-x-2">
+            <Settings className="w-4 h-4" />
+            <span>Règles du jeu</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="dashboard" className="space-y-6">
           {/* Admin Actions */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            <div className="lg:col-span-2">
+            <div className="lg:col-span-2 space-y-6">
+              <GamePhaseCard />
+
               <Card>
                 <CardHeader>
                   <CardTitle>Actions administratives</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="flex items-center justify-between p-4 bg-amber-50 rounded-lg border border-amber-200">
+                  <div className="flex items-center justify-between p-4 bg-slate-50 rounded-lg border border-slate-200">
                     <div>
-                      <h4 className="font-medium text-amber-900">Génération des assignations</h4>
-                      <p className="text-sm text-amber-700">Attribuer aléatoirement les défis à tous les participants</p>
+                      <h4 className="font-medium text-slate-900">Publication de l'empreinte</h4>
+                      <p className="text-sm text-slate-700">
+                        {commitment
+                          ? `Empreinte en attente : ${commitment.seedHash.substring(0, 16)}...`
+                          : 'Publier le hash du seed avant le tirage'}
+                      </p>
                     </div>
                     <Button 
-                      onClick={() => generateAssignments.mutate()}
-                      disabled={generateAssignments.isPending}
-                      className="bg-amber-600 text-white hover:bg-amber-700"
+                      onClick={() => commitSeed.mutate()}
+                      disabled={commitSeed.isPending || !!commitment}
+                      variant="outline"
                     >
-                      <Dice6 className="w-4 h-4 mr-2" />
-                      {generateAssignments.isPending ? 'Génération...' : 'Générer'}
+                      <Lock className="w-4 h-4 mr-2" />
+                      {commitSeed.isPending ? 'Publication...' : 'Publier'}
                     </Button>
                   </div>
-                  
-                  <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg border border-blue-200">
-                    <div>
-                      <h4 className="font-medium text-blue-900">Validation missions équipe</h4>
-                      <p className="text-sm text-blue-700">Valider les preuves de missions d'identification</p>
+
+                  <div className="p-4 bg-amber-50 rounded-lg border border-amber-200 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-medium text-amber-900">Génération des assignations</h4>
+                        <p className="text-sm text-amber-700">Prévisualiser le tirage puis l'attribuer à tous les participants</p>
+                      </div>
+                      <Button 
+                        onClick={() => previewAssignments.mutate()}
+                        disabled={previewAssignments.isPending || !commitment}
+                        className="bg-amber-600 text-white hover:bg-amber-700"
+                      >
+                        <Search className="w-4 h-4 mr-2" />
+                        {previewAssignments.isPending ? 'Calcul...' : 'Aperçu'}
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 text-sm">
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="allow-reuse"
+                          checked={challengeReuse.allowReuse}
+                          onCheckedChange={(allowReuse) => setChallengeReuse({ ...challengeReuse, allowReuse })}
+                        />
+                        <Label htmlFor="allow-reuse" className="text-amber-900">
+                          Partager un défi entre plusieurs joueurs
+                        </Label>
+                      </div>
+                      {challengeReuse.allowReuse && (
+                        <>
+                          <div className="flex items-center space-x-2">
+                            <Label htmlFor="max-players" className="text-amber-900">Joueurs max par défi</Label>
+                            <Input
+                              id="max-players"
+                              type="number"
+                              min={1}
+                              className="w-20 h-8"
+                              placeholder="∞"
+                              value={challengeReuse.maxPlayersPerChallenge ?? ''}
+                              onChange={(e) => setChallengeReuse({
+                                ...challengeReuse,
+                                maxPlayersPerChallenge: e.target.value ? Number(e.target.value) : null,
+                              })}
+                            />
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Label htmlFor="max-teams" className="text-amber-900">Équipes max par défi</Label>
+                            <Input
+                              id="max-teams"
+                              type="number"
+                              min={1}
+                              className="w-20 h-8"
+                              placeholder="∞"
+                              value={challengeReuse.maxTeamsPerChallenge ?? ''}
+                              onChange={(e) => setChallengeReuse({
+                                ...challengeReuse,
+                                maxTeamsPerChallenge: e.target.value ? Number(e.target.value) : null,
+                              })}
+                            />
+                          </div>
+                        </>
+                      )}
                     </div>
-                    <Button 
-                      onClick={() => validateTeamMissions.mutate()}
-                      disabled={validateTeamMissions.isPending}
-                      className="bg-blue-600 text-white hover:bg-blue-700"
-                    >
-                      <Check className="w-4 h-4 mr-2" />
-                      {validateTeamMissions.isPending ? 'Validation...' : 'Valider'}
-                    </Button>
                   </div>
                   
                   <div className="flex items-center justify-between p-4 bg-red-50 rounded-lg border border-red-200">
                     <div>
                       <h4 className="font-medium text-red-900">Régénération d'urgence</h4>
                       <p className="text-sm text-red-700">⚠️ Régénérer toutes les assignations (action journalisée)</p>
+                      {needsOverride && (
+                        <p className="text-xs text-red-700">Les preuves déjà envoyées seront archivées et ne pourront plus être validées.</p>
+                      )}
+                      {needsOverride && (
+                        <Input
+                          className="mt-2 h-8 bg-white"
+                          placeholder="Motif de la régénération (obligatoire en cours de jeu)"
+                          value={overrideReason}
+                          onChange={(e) => setOverrideReason(e.target.value)}
+                        />
+                      )}
                     </div>
                     <Button 
                       onClick={() => emergencyRegenerate.mutate()}
-                      disabled={emergencyRegenerate.isPending}
+                      disabled={emergencyRegenerate.isPending || !commitment || (needsOverride && !overrideReason.trim())}
                       variant="destructive"
                     >
                       <AlertTriangle className="w-4 h-4 mr-2" />
                       {emergencyRegenerate.isPending ? 'Régénération...' : 'Régénérer'}
                     </Button>
                   </div>
+
+                  <div className="flex items-center justify-between p-4 bg-green-50 rounded-lg border border-green-200">
+                    <div>
+                      <h4 className="font-medium text-green-900">Révélation du seed</h4>
+                      <p className="text-sm text-green-700">À la fin du jeu, publier le seed pour que chacun puisse recalculer le tirage</p>
+                      {!canRevealSeed && !currentSeed?.revealedAt && (
+                        <p className="text-xs text-green-700 mt-1">Possible en phase « Délibération » ou « Terminé » uniquement.</p>
+                      )}
+                    </div>
+                    <Button 
+                      onClick={() => revealSeed.mutate()}
+                      disabled={revealSeed.isPending || !currentSeed || !!currentSeed.revealedAt || !canRevealSeed}
+                      className="bg-green-600 text-white hover:bg-green-700"
+                    >
+                      <Eye className="w-4 h-4 mr-2" />
+                      {currentSeed?.revealedAt ? 'Révélé' : revealSeed.isPending ? 'Révélation...' : 'Révéler'}
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
+
+              <ProofReviewQueue />
             </div>
             
             <div>
@@ -242,7 +448,7 @@ export default function AdminPage() {
                     {currentSeed?.seedHash ? currentSeed.seedHash.substring(0, 16) + '...' : 'Non généré'}
                   </div>
                   <div className="text-xs text-gray-500">
-                    Dernière modification: {currentSeed?.createdAt ? new Date(currentSeed.createdAt).toLocaleString('fr-FR') : 'N/A'}
+                    Tirage effectué : {currentSeed?.drawnAt ? new Date(currentSeed.drawnAt).toLocaleString('fr-FR') : 'N/A'}
                   </div>
                 </div>
                 <Badge className="bg-green-100 text-green-800">
@@ -253,6 +459,8 @@ export default function AdminPage() {
             </CardContent>
           </Card>
 
+          <TargetBalanceCard />
+
           {/* Assignment Overview */}
           <Card>
             <CardHeader>
@@ -342,7 +550,22 @@ export default function AdminPage() {
         <TabsContent value="challenges">
           <ChallengeBankPage />
         </TabsContent>
+
+        <TabsContent value="missions">
+          <IdentificationMissionsPage />
+        </TabsContent>
+
+        <TabsContent value="settings">
+          <GameSettingsPage />
+        </TabsContent>
       </Tabs>
+
+      <DrawPreviewDialog
+        preview={preview}
+        isCommitting={generateAssignments.isPending}
+        onCommit={(p) => generateAssignments.mutate(p)}
+        onClose={() => setPreview(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -3,36 +3,65 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Shield, Download, CheckCircle } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
+import { Shield, Download, CheckCircle, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { AssignmentSeed, AuditLogEntry } from '@shared/schema';
+import { compareDraws, drawAssignments, type DrawComparison, type RevealedDraw } from '@shared/draw';
+import { sha256, toHex, utf8Bytes } from '@shared/sha256';
+import type { SeedCommitment, SeedSummary } from '@/lib/types';
+import type { AuditLogEntry } from '@shared/schema';
+
+interface VerificationReport {
+  hashMatches: boolean;
+  comparison: DrawComparison;
+}
 
 export default function AuditPage() {
   const { toast } = useToast();
+  const [report, setReport] = useState<VerificationReport | null>(null);
 
-  const { data: currentSeed } = useQuery<AssignmentSeed>({
+  const { data: currentSeed } = useQuery<SeedSummary>({
     queryKey: ['/api/seed/current'],
   });
 
+  const { data: commitment } = useQuery<SeedCommitment | null>({
+    queryKey: ['/api/seed/commitment'],
+    queryFn: async () => {
+      const res = await fetch('/api/seed/commitment', { credentials: 'include' });
+      return res.status === 404 ? null : await res.json();
+    },
+  });
+
+  const { data: revealed } = useQuery<RevealedDraw | null>({
+    queryKey: ['/api/seed/reveal'],
+    queryFn: async () => {
+      const res = await fetch('/api/seed/reveal', { credentials: 'include' });
+      return res.status === 404 ? null : await res.json();
+    },
+    enabled: !!currentSeed?.revealedAt,
+  });
+
   const { data: auditEntries = [] } = useQuery<AuditLogEntry[]>({
     queryKey: ['/api/audit'],
   });
 
+  // Recompute the whole draw in the browser from the revealed seed
   const verifySeed = useMutation({
-    mutationFn: async (seedHash: string) => {
-      return apiRequest('POST', '/api/seed/verify', { seedHash });
+    mutationFn: async (draw: RevealedDraw): Promise<VerificationReport> => {
+      const hashMatches = toHex(sha256(utf8Bytes(draw.seed))) === draw.seedHash;
+      const recomputed = drawAssignments(draw.seed, draw.input.participants, draw.input.challenges, draw.input, draw.input.missions);
+      return { hashMatches, comparison: compareDraws(recomputed, draw.result) };
     },
-    onSuccess: (data: any) => {
-      if (data.isValid) {
+    onSuccess: (result) => {
+      setReport(result);
+      if (result.hashMatches && result.comparison.matches) {
         toast({
           title: 'Vérification réussie',
-          description: 'L\'intégrité du seed a été vérifiée avec succès.',
+          description: 'Le tirage recalculé est identique aux assignations enregistrées.',
         });
       } else {
         toast({
           title: 'Erreur de vérification',
-          description: 'Le seed ne correspond pas aux enregistrements.',
+          description: 'Le tirage recalculé ne correspond pas aux enregistrements.',
           variant: 'destructive',
         });
       }
@@ -59,7 +88,7 @@ export default function AuditPage() {
     },
   });
 
-  const formatTimestamp = (timestamp: string) => {
+  const formatTimestamp = (timestamp: string | Date) => {
     return new Date(timestamp).toLocaleDateString('fr-FR', {
       day: '2-digit',
       month: '2-digit',
@@ -74,8 +103,23 @@ export default function AuditPage() {
     const configs = {
       generate_assignments: { label: 'Génération', className: 'bg-green-100 text-green-800' },
       validate_team_mission: { label: 'Validation', className: 'bg-purple-100 text-purple-800' },
+      validate_team_challenge: { label: "Défi d'équipe", className: 'bg-fuchsia-100 text-fuchsia-800' },
       regenerate_assignments: { label: 'Régénération', className: 'bg-red-100 text-red-800' },
       verify_seed: { label: 'Vérification', className: 'bg-blue-100 text-blue-800' },
+      commit_seed: { label: 'Empreinte', className: 'bg-slate-100 text-slate-800' },
+      reveal_seed: { label: 'Révélation', className: 'bg-amber-100 text-amber-800' },
+      update_settings: { label: 'Règles', className: 'bg-indigo-100 text-indigo-800' },
+      create_game: { label: 'Édition créée', className: 'bg-teal-100 text-teal-800' },
+      activate_game: { label: 'Activation', className: 'bg-green-100 text-green-800' },
+      archive_game: { label: 'Archivage', className: 'bg-gray-100 text-gray-800' },
+      change_phase: { label: 'Phase', className: 'bg-cyan-100 text-cyan-800' },
+      schedule_game: { label: 'Calendrier', className: 'bg-sky-100 text-sky-800' },
+      review_proof: { label: 'Preuve', className: 'bg-lime-100 text-lime-800' },
+      validate_assignment: { label: 'Défi validé', className: 'bg-emerald-100 text-emerald-800' },
+      change_assignment_status: { label: 'Statut', className: 'bg-orange-100 text-orange-800' },
+      import_participants: { label: 'Import participants', className: 'bg-violet-100 text-violet-800' },
+      reset_credentials: { label: 'Identifiants', className: 'bg-rose-100 text-rose-800' },
+      supersede_seed: { label: 'Empreinte abandonnée', className: 'bg-red-100 text-red-800' },
     };
 
     const config = configs[action as keyof typeof configs] || { label: action, className: 'bg-gray-100 text-gray-800' };
@@ -106,19 +150,27 @@ export default function AuditPage() {
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Seed original</label>
                   <div className="bg-gray-50 rounded-lg p-3 font-mono text-sm break-all">
-                    {currentSeed?.seed || 'Aucun seed actif'}
+                    {revealed?.seed || (currentSeed ? 'Révélé à la fin du jeu' : 'Aucun seed actif')}
                   </div>
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Hash SHA-256</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Hash SHA-256 publié</label>
                   <div className="bg-gray-50 rounded-lg p-3 font-mono text-sm break-all">
                     {currentSeed?.seedHash || 'N/A'}
                   </div>
                 </div>
+                {commitment && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Empreinte du prochain tirage</label>
+                    <div className="bg-gray-50 rounded-lg p-3 font-mono text-sm break-all">
+                      {commitment.seedHash}
+                    </div>
+                  </div>
+                )}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Généré le</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tirage effectué le</label>
                   <div className="text-sm text-gray-900">
-                    {currentSeed?.generatedAt ? formatTimestamp(currentSeed.generatedAt) : 'N/A'}
+                    {currentSeed?.drawnAt ? formatTimestamp(currentSeed.drawnAt) : 'N/A'}
                   </div>
                 </div>
               </div>
@@ -129,12 +181,12 @@ export default function AuditPage() {
                 <h4 className="font-semibold text-blue-900 mb-3">Vérification d'intégrité</h4>
                 <div className="space-y-3">
                   <Button 
-                    onClick={() => currentSeed && verifySeed.mutate(currentSeed.seedHash)}
-                    disabled={!currentSeed || verifySeed.isPending}
+                    onClick={() => revealed && verifySeed.mutate(revealed)}
+                    disabled={!revealed || verifySeed.isPending}
                     className="w-full bg-blue-600 text-white hover:bg-blue-700"
                   >
                     <Shield className="w-4 h-4 mr-2" />
-                    {verifySeed.isPending ? 'Vérification...' : 'Vérifier le seed actuel'}
+                    {verifySeed.isPending ? 'Recalcul...' : 'Recalculer le tirage'}
                   </Button>
                   <Button 
                     onClick={() => exportAuditLog.mutate()}
@@ -147,11 +199,35 @@ export default function AuditPage() {
                   </Button>
                 </div>
                 
-                <div className="mt-4 pt-4 border-t border-blue-200">
-                  <div className="flex items-center space-x-2 text-sm">
-                    <CheckCircle className="h-4 w-4 text-green-500" />
-                    <span className="text-green-700">Intégrité vérifiée</span>
-                  </div>
+                <div className="mt-4 pt-4 border-t border-blue-200 space-y-2 text-sm">
+                  {!report ? (
+                    <div className="text-blue-800">
+                      {revealed
+                        ? 'Le seed est révélé : recalculez le tirage dans votre navigateur.'
+                        : 'Notez le hash publié : le seed sera révélé à la fin du jeu.'}
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex items-center space-x-2">
+                        {report.hashMatches
+                          ? <CheckCircle className="h-4 w-4 text-green-500" />
+                          : <XCircle className="h-4 w-4 text-red-500" />}
+                        <span className={report.hashMatches ? 'text-green-700' : 'text-red-700'}>
+                          {report.hashMatches ? 'Le seed correspond au hash publié' : 'Le seed ne correspond pas au hash publié'}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {report.comparison.matches
+                          ? <CheckCircle className="h-4 w-4 text-green-500" />
+                          : <XCircle className="h-4 w-4 text-red-500" />}
+                        <span className={report.comparison.matches ? 'text-green-700' : 'text-red-700'}>
+                          {report.comparison.matches
+                            ? 'Équipes, défis et cibles identiques au tirage enregistré'
+                            : `${report.comparison.missingTeams.length + report.comparison.unexpectedTeams.length} écart(s) d'équipe, ${report.comparison.missingAssignments.length + report.comparison.unexpectedAssignments.length} écart(s) d'assignation`}
+                        </span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -193,7 +269,7 @@ export default function AuditPage() {
                         {getActionBadge(entry.action)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {entry.adminId}
+                        {entry.adminId ?? 'Automatique'}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                         {entry.details}
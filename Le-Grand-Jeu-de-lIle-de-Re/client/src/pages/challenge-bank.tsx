@@ -9,16 +9,27 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Switch } from '@/components/ui/switch';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { 
   Plus,
   Star,
   Users,
   Target,
   Edit,
-  Trash2
+  Trash2,
+  Archive,
+  ArchiveRestore,
+  History,
+  Download,
+  MapPin
 } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useGameSettings } from '@/hooks/use-game-settings';
+import { ChallengeHistoryDialog } from '@/components/challenge-history-dialog';
+import { ChallengeImportDialog } from '@/components/challenge-import-dialog';
+import { GeofenceEditor, geofenceFieldSchema } from '@/components/geofence-editor';
+import { challengePoints } from '@shared/game-rules';
 import { insertChallengeSchema, type Challenge } from '@shared/schema';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
@@ -27,14 +38,19 @@ import { z } from 'zod';
 
 const challengeFormSchema = insertChallengeSchema.extend({
   difficulty: z.enum(['easy', 'medium', 'hard', 'team']),
+  geofence: geofenceFieldSchema,
 });
 
 type ChallengeFormData = z.infer<typeof challengeFormSchema>;
 
 export default function ChallengeBankPage() {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  // Null when the dialog adds a new challenge
+  const [editingChallenge, setEditingChallenge] = useState<Challenge | null>(null);
+  const [historyChallenge, setHistoryChallenge] = useState<Challenge | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const settings = useGameSettings();
 
   const { data: challenges = [], isLoading } = useQuery<Challenge[]>({
     queryKey: ['/api/challenges'],
@@ -46,44 +62,97 @@ export default function ChallengeBankPage() {
       title: '',
       description: '',
       difficulty: 'easy',
-      points: 1,
+      points: settings.easyPoints,
       needsTarget: false,
       isActive: true,
+      geofence: null,
     },
   });
 
-  const addChallenge = useMutation({
+  const showError = (error: Error) => {
+    toast({
+      title: 'Erreur',
+      description: parseApiError(error).message,
+      variant: 'destructive',
+    });
+  };
+
+  const openAddModal = () => {
+    setEditingChallenge(null);
+    form.reset();
+    setIsAddModalOpen(true);
+  };
+
+  const openEditModal = (challenge: Challenge) => {
+    setEditingChallenge(challenge);
+    form.reset({
+      title: challenge.title,
+      description: challenge.description,
+      difficulty: challenge.difficulty,
+      points: challenge.points,
+      needsTarget: challenge.needsTarget,
+      isActive: challenge.isActive,
+      geofence: challenge.geofence,
+    });
+    setIsAddModalOpen(true);
+  };
+
+  const saveChallenge = useMutation({
     mutationFn: async (data: ChallengeFormData) => {
+      if (editingChallenge) {
+        const { title, description, difficulty, needsTarget, geofence } = data;
+        return apiRequest('PUT', `/api/challenges/${editingChallenge.id}`, { title, description, difficulty, needsTarget, geofence });
+      }
       return apiRequest('POST', '/api/challenges', data);
     },
     onSuccess: () => {
-      toast({
-        title: 'Défi ajouté',
-        description: 'Le nouveau défi a été ajouté à la banque.',
-      });
+      toast(editingChallenge
+        ? { title: 'Défi modifié', description: 'Les assignations déjà tirées gardent leur énoncé.' }
+        : { title: 'Défi ajouté', description: 'Le nouveau défi a été ajouté à la banque.' });
       queryClient.invalidateQueries({ queryKey: ['/api/challenges'] });
       setIsAddModalOpen(false);
+      setEditingChallenge(null);
       form.reset();
     },
-    onError: () => {
+    onError: showError,
+  });
+
+  const setArchived = useMutation({
+    mutationFn: async ({ challenge, archived }: { challenge: Challenge; archived: boolean }) => {
+      return apiRequest('POST', `/api/challenges/${challenge.id}/${archived ? 'archive' : 'restore'}`);
+    },
+    onSuccess: (_, { archived }) => {
       toast({
-        title: 'Erreur',
-        description: 'Erreur lors de l\'ajout du défi.',
-        variant: 'destructive',
+        title: archived ? 'Défi archivé' : 'Défi restauré',
+        description: archived
+          ? 'Il ne sera plus tiré ; les assignations existantes le conservent.'
+          : 'Il pourra de nouveau être tiré.',
       });
+      queryClient.invalidateQueries({ queryKey: ['/api/challenges'] });
     },
+    onError: showError,
+  });
+
+  const deleteChallenge = useMutation({
+    mutationFn: async (challenge: Challenge) => {
+      return apiRequest('DELETE', `/api/challenges/${challenge.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Défi supprimé' });
+      queryClient.invalidateQueries({ queryKey: ['/api/challenges'] });
+    },
+    onError: showError,
   });
 
   const onSubmit = (data: ChallengeFormData) => {
-    // Set points based on difficulty
-    const pointsMap = { easy: 1, medium: 3, hard: 5, team: 3 };
-    const formData = { ...data, points: pointsMap[data.difficulty] };
-    addChallenge.mutate(formData);
+    // Points come from the game settings for the difficulty
+    const formData = { ...data, points: challengePoints(settings, data.difficulty) };
+    saveChallenge.mutate(formData);
   };
 
   const getDifficultyBadge = (difficulty: string, points: number) => {
     const configs = {
-      easy: { label: `Facile • ${points} pt`, className: 'bg-green-100 text-green-800', icon: <Star className="w-3 h-3" /> },
+      easy: { label: `Facile • ${points} pt${points > 1 ? 's' : ''}`, className: 'bg-green-100 text-green-800', icon: <Star className="w-3 h-3" /> },
       medium: { label: `Intermédiaire • ${points} pts`, className: 'bg-blue-100 text-blue-800', icon: <><Star className="w-3 h-3" /><Star className="w-3 h-3" /></> },
       hard: { label: `Difficile • ${points} pts`, className: 'bg-red-100 text-red-800', icon: <><Star className="w-3 h-3" /><Star className="w-3 h-3" /><Star className="w-3 h-3" /></> },
       team: { label: `Équipe • ${points} pts/membre`, className: 'bg-purple-100 text-purple-800', icon: <Users className="w-3 h-3" /> }
@@ -98,13 +167,78 @@ export default function ChallengeBankPage() {
     );
   };
 
+  const activeChallenges = challenges.filter(c => c.isActive);
+  const archivedChallenges = challenges.filter(c => !c.isActive);
+
   const groupedChallenges = {
-    easy: challenges.filter(c => c.difficulty === 'easy'),
-    medium: challenges.filter(c => c.difficulty === 'medium'),
-    hard: challenges.filter(c => c.difficulty === 'hard'),
-    team: challenges.filter(c => c.difficulty === 'team'),
+    easy: activeChallenges.filter(c => c.difficulty === 'easy'),
+    medium: activeChallenges.filter(c => c.difficulty === 'medium'),
+    hard: activeChallenges.filter(c => c.difficulty === 'hard'),
+    team: activeChallenges.filter(c => c.difficulty === 'team'),
   };
 
+  const renderChallenge = (challenge: Challenge) => (
+    <Card key={challenge.id} className={`hover:shadow-md transition-shadow ${challenge.isActive ? '' : 'opacity-75'}`}>
+      <CardContent className="p-6">
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex items-center space-x-3">
+            {getDifficultyBadge(challenge.difficulty, challenge.points)}
+            {challenge.needsTarget && (
+              <Badge className="bg-orange-100 text-orange-800">
+                <Target className="w-3 h-3 mr-1" />
+                Cible requise
+              </Badge>
+            )}
+            {challenge.geofence && (
+              <Badge className="bg-teal-100 text-teal-800">
+                <MapPin className="w-3 h-3 mr-1" />
+                Lieu imposé
+              </Badge>
+            )}
+            {!challenge.isActive && <Badge variant="outline">Archivé</Badge>}
+          </div>
+          {challenge.version > 1 && (
+            <span className="text-xs text-gray-500">Version {challenge.version}</span>
+          )}
+        </div>
+
+        <h4 className="text-lg font-semibold text-gray-900 mb-2">{challenge.title}</h4>
+        <p className="text-gray-600 mb-4">{challenge.description}</p>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => openEditModal(challenge)}>
+            <Edit className="w-4 h-4 mr-2" />
+            Modifier
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setHistoryChallenge(challenge)}>
+            <History className="w-4 h-4 mr-2" />
+            Historique
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setArchived.mutate({ challenge, archived: challenge.isActive })}
+            disabled={setArchived.isPending}
+          >
+            {challenge.isActive
+              ? <><Archive className="w-4 h-4 mr-2" />Archiver</>
+              : <><ArchiveRestore className="w-4 h-4 mr-2" />Restaurer</>}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => deleteChallenge.mutate(challenge)}
+            disabled={deleteChallenge.isPending}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Supprimer
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   if (isLoading) {
     return <div className="p-6">Chargement de la banque de défis...</div>;
   }
@@ -117,16 +251,33 @@ export default function ChallengeBankPage() {
             <h2 className="text-3xl font-bold text-gray-900 mb-2">Banque de défis</h2>
             <p className="text-gray-600">Gestion de tous les défis disponibles pour le GJIR</p>
           </div>
+          <div className="flex items-center space-x-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="w-4 h-4 mr-2" />
+                Exporter
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {(['csv', 'json', 'yaml'] as const).map(format => (
+                <DropdownMenuItem key={format} asChild>
+                  <a href={`/api/challenges/export?format=${format}`} download>{format.toUpperCase()}</a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <ChallengeImportDialog />
           <Dialog open={isAddModalOpen} onOpenChange={setIsAddModalOpen}>
             <DialogTrigger asChild>
-              <Button className="bg-primary text-white hover:bg-blue-600">
+              <Button className="bg-primary text-white hover:bg-blue-600" onClick={openAddModal}>
                 <Plus className="w-4 h-4 mr-2" />
                 Ajouter un défi
               </Button>
             </DialogTrigger>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
-                <DialogTitle>Ajouter un nouveau défi</DialogTitle>
+                <DialogTitle>{editingChallenge ? 'Modifier le défi' : 'Ajouter un nouveau défi'}</DialogTitle>
               </DialogHeader>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -169,17 +320,17 @@ export default function ChallengeBankPage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Niveau de difficulté</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
                               <SelectTrigger>
                                 <SelectValue placeholder="Choisir la difficulté" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="easy">Facile (1 pt)</SelectItem>
-                              <SelectItem value="medium">Intermédiaire (3 pts)</SelectItem>
-                              <SelectItem value="hard">Difficile (5 pts)</SelectItem>
-                              <SelectItem value="team">Équipe (3 pts/membre)</SelectItem>
+                              <SelectItem value="easy">Facile ({settings.easyPoints} pt{settings.easyPoints > 1 ? 's' : ''})</SelectItem>
+                              <SelectItem value="medium">Intermédiaire ({settings.mediumPoints} pts)</SelectItem>
+                              <SelectItem value="hard">Difficile ({settings.hardPoints} pts)</SelectItem>
+                              <SelectItem value="team">Équipe ({settings.teamPoints} pts/membre)</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -209,13 +360,30 @@ export default function ChallengeBankPage() {
                     />
                   </div>
 
+                  <FormField
+                    control={form.control}
+                    name="geofence"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Zone du défi</FormLabel>
+                        <GeofenceEditor value={field.value} onChange={field.onChange} />
+                        <p className="text-sm text-muted-foreground">
+                          Les positions envoyées comme preuve sont comparées à cette zone.
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <div className="flex space-x-3 pt-4">
                     <Button 
                       type="submit" 
-                      disabled={addChallenge.isPending}
+                      disabled={saveChallenge.isPending}
                       className="flex-1 bg-primary text-white hover:bg-blue-600"
                     >
-                      {addChallenge.isPending ? 'Ajout...' : 'Ajouter le défi'}
+                      {saveChallenge.isPending
+                        ? 'Enregistrement...'
+                        : editingChallenge ? 'Enregistrer' : 'Ajouter le défi'}
                     </Button>
                     <Button 
                       type="button" 
@@ -230,6 +398,7 @@ export default function ChallengeBankPage() {
               </Form>
             </DialogContent>
           </Dialog>
+          </div>
         </div>
       </div>
 
@@ -272,40 +441,25 @@ export default function ChallengeBankPage() {
           </h3>
           
           <div className="grid gap-4">
-            {challengeList.map((challenge) => (
-              <Card key={challenge.id} className="hover:shadow-md transition-shadow">
-                <CardContent className="p-6">
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex items-center space-x-3">
-                      {getDifficultyBadge(challenge.difficulty, challenge.points)}
-                      {challenge.needsTarget && (
-                        <Badge className="bg-orange-100 text-orange-800">
-                          <Target className="w-3 h-3 mr-1" />
-                          Cible requise
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                  
-                  <h4 className="text-lg font-semibold text-gray-900 mb-2">{challenge.title}</h4>
-                  <p className="text-gray-600 mb-4">{challenge.description}</p>
-                  
-                  <div className="flex space-x-2">
-                    <Button variant="outline" size="sm">
-                      <Edit className="w-4 h-4 mr-2" />
-                      Modifier
-                    </Button>
-                    <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Supprimer
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+            {challengeList.map(renderChallenge)}
           </div>
         </div>
       ))}
+
+      {archivedChallenges.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold text-gray-900 mb-1">
+            Défis archivés
+            <span className="text-gray-500 text-base font-normal ml-2">({archivedChallenges.length})</span>
+          </h3>
+          <p className="text-sm text-gray-600 mb-4">Ils ne sont plus tirés mais restent attachés aux assignations existantes.</p>
+          <div className="grid gap-4">
+            {archivedChallenges.map(renderChallenge)}
+          </div>
+        </div>
+      )}
+
+      <ChallengeHistoryDialog challenge={historyChallenge} onClose={() => setHistoryChallenge(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dice6, Star, Users, Target, Save } from 'lucide-react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm, type Control, type FieldPath } from 'react-hook-form';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { updateGameSettingsSchema, type GameSettings } from '@shared/schema';
+import { DEFAULT_GAME_RULES, challengesPerPlayer, requiredTeamProofs, type GameRules } from '@shared/game-rules';
+
+const settingsFormSchema = updateGameSettingsSchema.required();
+
+type NumberRule = { [K in FieldPath<GameRules>]: GameRules[K] extends number ? K : never }[FieldPath<GameRules>];
+type BooleanRule = { [K in FieldPath<GameRules>]: GameRules[K] extends boolean ? K : never }[FieldPath<GameRules>];
+
+function NumberField({ control, name, label }: { control: Control<GameRules>; name: NumberRule; label: string }) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              min={0}
+              value={Number.isNaN(field.value) ? '' : field.value}
+              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function SwitchField({ control, name, label }: { control: Control<GameRules>; name: BooleanRule; label: string }) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between rounded-lg border border-gray-200 p-3">
+          <FormLabel className="text-sm">{label}</FormLabel>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export default function GameSettingsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery<GameSettings>({
+    queryKey: ['/api/settings'],
+  });
+
+  const form = useForm<GameRules>({
+    resolver: zodResolver(settingsFormSchema),
+    defaultValues: DEFAULT_GAME_RULES,
+    values: settings,
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: async (data: GameRules) => {
+      const res = await apiRequest('PATCH', '/api/settings', data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Règles enregistrées',
+        description: 'Les nouvelles règles s\'appliqueront au prochain tirage.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/challenges'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Erreur',
+        description: parseApiError(error).message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="p-6">Chargement des règles du jeu...</div>;
+  }
+
+  const current = form.watch();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="mb-6">
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Règles du jeu</h2>
+        <p className="text-gray-600">
+          {challengesPerPlayer(current)} défis par joueur • {requiredTeamProofs(current, current.maxTeamSize)} preuve(s) requise(s) pour une équipe de {current.maxTeamSize}
+        </p>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => saveSettings.mutate(data))} className="space-y-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Dice6 className="h-5 w-5" />
+                  <span>Quotas du tirage</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-4">
+                <NumberField control={form.control} name="easyQuota" label="Défis faciles par joueur" />
+                <NumberField control={form.control} name="mediumQuota" label="Défis intermédiaires par joueur" />
+                <NumberField control={form.control} name="hardQuota" label="Défis difficiles par joueur" />
+                <NumberField control={form.control} name="teamQuota" label="Défi d'équipe (0 ou 1)" />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Star className="h-5 w-5" />
+                  <span>Points</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-4">
+                <NumberField control={form.control} name="easyPoints" label="Défi facile" />
+                <NumberField control={form.control} name="mediumPoints" label="Défi intermédiaire" />
+                <NumberField control={form.control} name="hardPoints" label="Défi difficile" />
+                <NumberField control={form.control} name="teamPoints" label="Défi d'équipe (par membre)" />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Users className="h-5 w-5" />
+                  <span>Équipes</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-4">
+                <NumberField control={form.control} name="minTeamSize" label="Taille minimale" />
+                <NumberField control={form.control} name="maxTeamSize" label="Taille maximale" />
+                <NumberField control={form.control} name="teamProofMinimum" label="Preuves d'identification minimum" />
+                <NumberField control={form.control} name="teamProofPercent" label="Part des membres (%)" />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Target className="h-5 w-5" />
+                  <span>Cibles</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <SwitchField control={form.control} name="forbidTeammateTargets" label="Interdire de cibler un coéquipier" />
+                <SwitchField control={form.control} name="avoidMutualTargets" label="Éviter les ciblages réciproques" />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={saveSettings.isPending}
+              className="bg-primary text-white hover:bg-blue-600"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saveSettings.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
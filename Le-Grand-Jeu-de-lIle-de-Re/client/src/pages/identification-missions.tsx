@@ -0,0 +1,403 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, Edit, Trash2, Archive, ArchiveRestore, MapPin, Clock, Users } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { GeofenceEditor, geofenceFieldSchema } from '@/components/geofence-editor';
+import { formatMissionWindow } from '@shared/identification-missions';
+import type { IdentificationMissionWithTeams } from '@/lib/types';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { z } from 'zod';
+
+// Dates and capacity stay text while edited, as the inputs give them
+const missionFormSchema = z.object({
+  title: z.string().trim().min(1, 'Le titre est obligatoire'),
+  description: z.string().trim().min(1, 'La description est obligatoire'),
+  location: z.string(),
+  capacity: z.string().regex(/^([1-9]\d*)?$/, "Un nombre d'équipes, ou vide pour ne pas limiter"),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  geofence: geofenceFieldSchema,
+}).refine(mission => !mission.startsAt || !mission.endsAt || mission.startsAt < mission.endsAt, {
+  message: 'La fin du créneau doit être postérieure à son début',
+  path: ['endsAt'],
+});
+
+type MissionFormData = z.infer<typeof missionFormSchema>;
+
+const EMPTY_FORM: MissionFormData = {
+  title: '',
+  description: '',
+  location: '',
+  capacity: '',
+  startsAt: '',
+  endsAt: '',
+  geofence: null,
+};
+
+// "datetime-local" inputs work on local time without seconds
+const toLocalInput = (date: Date | string | null) => {
+  if (!date) return '';
+  const d = new Date(date);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+// Rendez-vous of the identification missions; the draw spreads the teams
+// over the active ones without exceeding their capacity
+export default function IdentificationMissionsPage() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  // Null when the dialog adds a new mission
+  const [editingMission, setEditingMission] = useState<IdentificationMissionWithTeams | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: missions = [], isLoading } = useQuery<IdentificationMissionWithTeams[]>({
+    queryKey: ['/api/identification-missions'],
+  });
+
+  const form = useForm<MissionFormData>({
+    resolver: zodResolver(missionFormSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: 'Erreur',
+      description: parseApiError(error).message,
+      variant: 'destructive',
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/identification-missions'] });
+
+  const openAddModal = () => {
+    setEditingMission(null);
+    form.reset(EMPTY_FORM);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (mission: IdentificationMissionWithTeams) => {
+    setEditingMission(mission);
+    form.reset({
+      title: mission.title,
+      description: mission.description,
+      location: mission.location ?? '',
+      capacity: mission.capacity ? String(mission.capacity) : '',
+      startsAt: toLocalInput(mission.startsAt),
+      endsAt: toLocalInput(mission.endsAt),
+      geofence: mission.geofence,
+    });
+    setIsModalOpen(true);
+  };
+
+  const saveMission = useMutation({
+    mutationFn: async (data: MissionFormData) => {
+      const body = {
+        title: data.title,
+        description: data.description,
+        location: data.location.trim() || null,
+        capacity: data.capacity ? Number(data.capacity) : null,
+        startsAt: data.startsAt ? new Date(data.startsAt).toISOString() : null,
+        endsAt: data.endsAt ? new Date(data.endsAt).toISOString() : null,
+        geofence: data.geofence,
+      };
+      return editingMission
+        ? apiRequest('PUT', `/api/identification-missions/${editingMission.id}`, body)
+        : apiRequest('POST', '/api/identification-missions', body);
+    },
+    onSuccess: () => {
+      toast(editingMission
+        ? { title: 'Mission modifiée', description: 'Les équipes déjà tirées gardent leur énoncé.' }
+        : { title: 'Mission ajoutée', description: 'Elle sera prise en compte au prochain tirage.' });
+      invalidate();
+      setIsModalOpen(false);
+      setEditingMission(null);
+    },
+    onError: showError,
+  });
+
+  const setArchived = useMutation({
+    mutationFn: async ({ mission, archived }: { mission: IdentificationMissionWithTeams; archived: boolean }) => {
+      return apiRequest('PUT', `/api/identification-missions/${mission.id}`, { isActive: !archived });
+    },
+    onSuccess: (_, { archived }) => {
+      toast({
+        title: archived ? 'Mission archivée' : 'Mission restaurée',
+        description: archived
+          ? 'Aucune équipe n\'y sera plus envoyée ; les équipes déjà tirées la gardent.'
+          : 'Elle pourra de nouveau être tirée.',
+      });
+      invalidate();
+    },
+    onError: showError,
+  });
+
+  const deleteMission = useMutation({
+    mutationFn: async (mission: IdentificationMissionWithTeams) => {
+      return apiRequest('DELETE', `/api/identification-missions/${mission.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Mission supprimée' });
+      invalidate();
+    },
+    onError: showError,
+  });
+
+  const addDefaults = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/identification-missions/defaults'),
+    onSuccess: () => {
+      toast({ title: 'Missions ajoutées', description: 'Complétez leurs créneaux et capacités si besoin.' });
+      invalidate();
+    },
+    onError: showError,
+  });
+
+  const activeMissions = missions.filter(m => m.isActive);
+  const unlimited = activeMissions.some(m => m.capacity === null);
+  const places = activeMissions.reduce((total, m) => total + (m.capacity ?? 0), 0);
+
+  const renderMission = (mission: IdentificationMissionWithTeams) => {
+    const timeWindow = formatMissionWindow(mission.startsAt, mission.endsAt);
+    return (
+      <Card key={mission.id} className={`hover:shadow-md transition-shadow ${mission.isActive ? '' : 'opacity-75'}`}>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <Badge className="bg-purple-100 text-purple-800">
+              <Users className="w-3 h-3 mr-1" />
+              {mission.capacity ? `${mission.capacity} équipe${mission.capacity > 1 ? 's' : ''} max.` : 'Sans limite'}
+            </Badge>
+            {mission.geofence && (
+              <Badge className="bg-teal-100 text-teal-800">
+                <MapPin className="w-3 h-3 mr-1" />
+                Zone définie
+              </Badge>
+            )}
+            {mission.teamCount > 0 && (
+              <Badge variant="outline">
+                {mission.teamCount} équipe{mission.teamCount > 1 ? 's' : ''} tirée{mission.teamCount > 1 ? 's' : ''}
+              </Badge>
+            )}
+            {!mission.isActive && <Badge variant="outline">Archivée</Badge>}
+          </div>
+
+          <h4 className="text-lg font-semibold text-gray-900 mb-2">{mission.title}</h4>
+          <p className="text-gray-600 mb-3">{mission.description}</p>
+          <div className="space-y-1 text-sm text-gray-500 mb-4">
+            {mission.location && (
+              <div className="flex items-center space-x-1">
+                <MapPin className="w-4 h-4" />
+                <span>{mission.location}</span>
+              </div>
+            )}
+            <div className="flex items-center space-x-1">
+              <Clock className="w-4 h-4" />
+              <span>{timeWindow ?? 'Créneau libre'}</span>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => openEditModal(mission)}>
+              <Edit className="w-4 h-4 mr-2" />
+              Modifier
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setArchived.mutate({ mission, archived: mission.isActive })}
+              disabled={setArchived.isPending}
+            >
+              {mission.isActive
+                ? <><Archive className="w-4 h-4 mr-2" />Archiver</>
+                : <><ArchiveRestore className="w-4 h-4 mr-2" />Restaurer</>}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-red-600 hover:text-red-700"
+              onClick={() => deleteMission.mutate(mission)}
+              disabled={deleteMission.isPending}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Supprimer
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return <div className="p-6">Chargement des missions...</div>;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Missions d'identification</h2>
+          <p className="text-gray-600">
+            {activeMissions.length} mission{activeMissions.length !== 1 ? 's' : ''} active{activeMissions.length !== 1 ? 's' : ''}
+            {' • '}
+            {unlimited ? 'places illimitées' : `${places} place${places !== 1 ? 's' : ''} pour les équipes`}
+          </p>
+        </div>
+        <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+          <DialogTrigger asChild>
+            <Button className="bg-primary text-white hover:bg-blue-600" onClick={openAddModal}>
+              <Plus className="w-4 h-4 mr-2" />
+              Ajouter une mission
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingMission ? 'Modifier la mission' : 'Ajouter une mission'}</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(data => saveMission.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Titre</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Ex: Rassemblement au Phare des Baleines" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Consignes</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="Où se retrouver et quelle preuve envoyer..." rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Lieu</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ex: Phare des Baleines" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="capacity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Capacité (équipes)</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" placeholder="Sans limite" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="startsAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Début du créneau</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="endsAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fin du créneau</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="geofence"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Zone du rendez-vous</FormLabel>
+                      <GeofenceEditor value={field.value} onChange={field.onChange} />
+                      <p className="text-sm text-muted-foreground">
+                        Les positions envoyées par les équipes sont comparées à cette zone.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex space-x-3 pt-4">
+                  <Button
+                    type="submit"
+                    disabled={saveMission.isPending}
+                    className="flex-1 bg-primary text-white hover:bg-blue-600"
+                  >
+                    {saveMission.isPending
+                      ? 'Enregistrement...'
+                      : editingMission ? 'Enregistrer' : 'Ajouter la mission'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setIsModalOpen(false)} className="flex-1">
+                    Annuler
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {missions.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center space-y-4">
+            <p className="text-gray-600">Aucune mission : le tirage a besoin d'au moins une mission active.</p>
+            <Button variant="outline" onClick={() => addDefaults.mutate()} disabled={addDefaults.isPending}>
+              <Plus className="w-4 h-4 mr-2" />
+              Ajouter les missions habituelles
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {missions.map(renderMission)}
+        </div>
+      )}
+    </div>
+  );
+}
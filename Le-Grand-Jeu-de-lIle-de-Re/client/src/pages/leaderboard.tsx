@@ -0,0 +1,175 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Trophy, User, Users, Medal, CheckCircle } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import type { Leaderboard, PlayerScore, TeamScore } from '@shared/scoring';
+
+const RANK_COLORS: Record<number, string> = {
+  1: 'text-amber-500',
+  2: 'text-slate-400',
+  3: 'text-orange-700',
+};
+
+function RankCell({ rank }: { rank: number }) {
+  return (
+    <div className="w-10 flex items-center justify-center font-bold text-gray-700">
+      {rank <= 3 ? <Medal className={`h-6 w-6 ${RANK_COLORS[rank]}`} /> : rank}
+    </div>
+  );
+}
+
+function PlayerRanking({ scores, points, currentUserId }: {
+  scores: PlayerScore[];
+  points: (score: PlayerScore) => number;
+  currentUserId: string;
+}) {
+  if (scores.length === 0) {
+    return <div className="text-center py-8 text-gray-500">Aucun participant</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {scores.map(score => (
+        <div
+          key={score.userId}
+          className={`flex items-center justify-between p-3 rounded-lg ${
+            score.userId === currentUserId ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'
+          }`}
+        >
+          <div className="flex items-center space-x-3">
+            <RankCell rank={score.rank} />
+            <div>
+              <div className="font-medium text-gray-900">{score.displayName}</div>
+              <div className="text-xs text-gray-500">
+                {score.teamName ?? 'Sans équipe'} • {score.validatedChallenges} défi{score.validatedChallenges !== 1 ? 's' : ''} validé{score.validatedChallenges !== 1 ? 's' : ''}
+              </div>
+            </div>
+          </div>
+          <div className="text-lg font-bold text-primary">{points(score)} pts</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TeamRanking({ scores, currentTeamId }: { scores: TeamScore[]; currentTeamId?: string | null }) {
+  if (scores.length === 0) {
+    return <div className="text-center py-8 text-gray-500">Aucune équipe formée</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {scores.map(score => (
+        <div
+          key={score.teamId}
+          className={`flex items-center justify-between p-3 rounded-lg ${
+            score.teamId === currentTeamId ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'
+          }`}
+        >
+          <div className="flex items-center space-x-3">
+            <RankCell rank={score.rank} />
+            <div>
+              <div className="font-medium text-gray-900 flex items-center space-x-2">
+                <span>{score.name}</span>
+                {score.missionValidated && (
+                  <Badge className="bg-green-100 text-green-800">
+                    <CheckCircle className="w-3 h-3 mr-1" />
+                    Mission validée
+                  </Badge>
+                )}
+                {score.challengeValidated && (
+                  <Badge className="bg-purple-100 text-purple-800">
+                    <Trophy className="w-3 h-3 mr-1" />
+                    Défi d'équipe validé
+                  </Badge>
+                )}
+              </div>
+              <div className="text-xs text-gray-500">
+                {score.memberCount} membres • {score.points} pts au total
+              </div>
+            </div>
+          </div>
+          <div className="text-lg font-bold text-primary">{score.averagePoints} pts/membre</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function LeaderboardPage() {
+  const { user } = useAuth();
+  const currentUserId = user!.id;
+
+  const { data: leaderboard, isLoading } = useQuery<Leaderboard>({
+    queryKey: ['/api/leaderboard'],
+  });
+
+  if (isLoading || !leaderboard) {
+    return <div className="p-6">Chargement du classement...</div>;
+  }
+
+  const currentTeamId = leaderboard.overall.find(s => s.userId === currentUserId)?.teamId;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="mb-6">
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Classement</h2>
+        <p className="text-gray-600">
+          Points des défis validés, dont le défi d'équipe qui rapporte à chaque membre. À égalité, le plus de défis validés puis le premier à atteindre son score l'emporte.
+        </p>
+      </div>
+
+      <Tabs defaultValue="overall" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="overall" className="flex items-center space-x-2">
+            <Trophy className="w-4 h-4" />
+            <span>Général</span>
+          </TabsTrigger>
+          <TabsTrigger value="individual" className="flex items-center space-x-2">
+            <User className="w-4 h-4" />
+            <span>Individuel</span>
+          </TabsTrigger>
+          <TabsTrigger value="teams" className="flex items-center space-x-2">
+            <Users className="w-4 h-4" />
+            <span>Équipes</span>
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="overall">
+          <Card>
+            <CardHeader>
+              <CardTitle>Classement général</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PlayerRanking scores={leaderboard.overall} points={s => s.totalPoints} currentUserId={currentUserId} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="individual">
+          <Card>
+            <CardHeader>
+              <CardTitle>Défis individuels</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PlayerRanking scores={leaderboard.individual} points={s => s.challengePoints} currentUserId={currentUserId} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="teams">
+          <Card>
+            <CardHeader>
+              <CardTitle>Équipes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TeamRanking scores={leaderboard.teams} currentTeamId={currentTeamId} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Gamepad2, Lock, User } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+export default function LoginPage() {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const { loginMutation } = useAuth();
+
+  // Login cards link here with the credentials in the fragment (see lib/login-sheet.ts)
+  useEffect(() => {
+    const fragment = new URLSearchParams(window.location.hash.slice(1));
+    const linkedUsername = fragment.get('username');
+    const linkedPassword = fragment.get('password');
+    if (!linkedUsername || !linkedPassword) return;
+
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setUsername(linkedUsername);
+    loginMutation.mutate({ username: linkedUsername, password: linkedPassword });
+  }, []);
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(
+      { username, password },
+      { onSettled: () => setPassword('') },
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-primary rounded-full flex items-center justify-center mx-auto mb-4">
+            <Gamepad2 className="h-8 w-8 text-white" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            Grand Jeu de l'Île de Ré
+          </CardTitle>
+          <p className="text-gray-600">Connectez-vous pour accéder à vos défis</p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div>
+              <Label htmlFor="username" className="text-sm font-medium text-gray-700">
+                Nom d'utilisateur
+              </Label>
+              <div className="relative mt-1">
+                <User className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Entrez votre identifiant"
+                  className="pl-10"
+                  autoComplete="username"
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="password" className="text-sm font-medium text-gray-700">
+                Mot de passe
+              </Label>
+              <div className="relative mt-1">
+                <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Entrez le mot de passe"
+                  className="pl-10"
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+            </div>
+            <Button
+              type="submit"
+              disabled={loginMutation.isPending || !username || !password}
+              className="w-full bg-primary text-white hover:bg-blue-600"
+            >
+              {loginMutation.isPending ? 'Connexion...' : 'Se connecter'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
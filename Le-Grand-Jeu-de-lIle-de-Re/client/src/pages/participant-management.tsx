@@ -6,22 +6,31 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   UserPlus,
   Mail,
   Users,
   Trash2,
-  UserCheck
+  UserCheck,
+  KeyRound,
+  Phone,
+  Printer
 } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { printLoginCards } from '@/lib/login-sheet';
 import { useToast } from '@/hooks/use-toast';
-import { insertUserSchema, type User } from '@shared/schema';
+import { TeamConstraintsCard } from '@/components/team-constraints-card';
+import { ParticipantImportDialog } from '@/components/participant-import-dialog';
+import type { LoginCredential } from '@shared/participant-import';
+import { insertUserSchema, type PublicUser } from '@shared/schema';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { z } from 'zod';
 
-const participantFormSchema = insertUserSchema.extend({
+// The password is generated by the server and shown once after creation
+const participantFormSchema = insertUserSchema.omit({ password: true }).extend({
   email: z.string().email('Adresse email invalide'),
 });
 
@@ -29,18 +38,26 @@ type ParticipantFormData = z.infer<typeof participantFormSchema>;
 
 export default function ParticipantManagementPage() {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [createdAccount, setCreatedAccount] = useState<LoginCredential | null>(null);
+  // Participants whose passwords are about to be replaced, pending confirmation
+  const [credentialsTarget, setCredentialsTarget] = useState<PublicUser[] | null>(null);
+  const [existingUserId, setExistingUserId] = useState('');
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: users = [], isLoading } = useQuery<User[]>({
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
     queryKey: ['/api/users'],
   });
 
+  // Participants enrolled in the edition being worked on
+  const { data: participants = [], isLoading: participantsLoading } = useQuery<PublicUser[]>({
+    queryKey: ['/api/participants'],
+  });
+
   const form = useForm<ParticipantFormData>({
     resolver: zodResolver(participantFormSchema),
     defaultValues: {
       username: '',
-      password: '',
       displayName: '',
       email: '',
       isAdmin: false,
@@ -51,25 +68,31 @@ export default function ParticipantManagementPage() {
     mutationFn: async (data: ParticipantFormData) => {
       // Generate username from email
       const username = data.email.split('@')[0];
-      // Generate default password (in real app, this would be more secure)
-      const password = 'gjir2024';
-      
+
       const userData = {
         username,
-        password,
         displayName: data.displayName,
+        email: data.email,
         isAdmin: false,
       };
       
-      return apiRequest('POST', '/api/users', userData);
+      const response = await apiRequest('POST', '/api/users', userData);
+      return response.json() as Promise<PublicUser & { temporaryPassword: string }>;
     },
-    onSuccess: () => {
+    onSuccess: (user) => {
       toast({
         title: 'Participant ajouté',
         description: 'Le nouveau participant a été ajouté avec succès.',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/participants'] });
       setIsAddModalOpen(false);
+      setCreatedAccount({
+        userId: user.id,
+        displayName: user.displayName,
+        username: user.username,
+        password: user.temporaryPassword,
+      });
       form.reset();
     },
     onError: () => {
@@ -81,21 +104,79 @@ export default function ParticipantManagementPage() {
     },
   });
 
-  const deleteParticipant = useMutation({
+  // Enrol an account from a previous edition
+  const enrollParticipant = useMutation({
     mutationFn: async (userId: string) => {
-      return apiRequest('DELETE', `/api/users/${userId}`);
+      return apiRequest('POST', '/api/participants', { userId });
     },
     onSuccess: () => {
       toast({
-        title: 'Participant supprimé',
-        description: 'Le participant a été supprimé avec succès.',
+        title: 'Participant inscrit',
+        description: 'Le participant a été inscrit à cette édition.',
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/participants'] });
+      setExistingUserId('');
     },
     onError: () => {
       toast({
         title: 'Erreur',
-        description: 'Erreur lors de la suppression du participant.',
+        description: 'Erreur lors de l\'inscription du participant.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Only leaves this edition; the account and its history are kept
+  const removeParticipant = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest('DELETE', `/api/participants/${userId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Participant retiré',
+        description: 'Le participant a été retiré de cette édition.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/participants'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Erreur',
+        description: 'Erreur lors du retrait du participant.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const printCards = (credentials: LoginCredential[]) => {
+    try {
+      printLoginCards(credentials);
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // New passwords invalidate the old cards, so they are printed straight away
+  const resetCredentials = useMutation({
+    mutationFn: async (userIds: string[]) => {
+      const response = await apiRequest('POST', '/api/participants/credentials', { userIds });
+      return response.json() as Promise<LoginCredential[]>;
+    },
+    onSuccess: (credentials) => {
+      toast({
+        title: 'Identifiants régénérés',
+        description: `${credentials.length} nouveau(x) mot(s) de passe généré(s).`,
+      });
+      setCredentialsTarget(null);
+      printCards(credentials);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erreur',
+        description: parseApiError(error).message,
         variant: 'destructive',
       });
     },
@@ -105,14 +186,15 @@ export default function ParticipantManagementPage() {
     addParticipant.mutate(data);
   };
 
-  const participants = users.filter(user => !user.isAdmin);
   const admins = users.filter(user => user.isAdmin);
+  const enrolledIds = new Set(participants.map(p => p.id));
+  const otherUsers = users.filter(user => !user.isAdmin && !enrolledIds.has(user.id));
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
 
-  if (isLoading) {
+  if (isLoading || participantsLoading) {
     return <div className="p-6">Chargement des participants...</div>;
   }
 
@@ -124,86 +206,161 @@ export default function ParticipantManagementPage() {
             <h2 className="text-3xl font-bold text-gray-900 mb-2">Gestion des participants</h2>
             <p className="text-gray-600">Ajouter et gérer les participants du GJIR</p>
           </div>
-          <Dialog open={isAddModalOpen} onOpenChange={setIsAddModalOpen}>
-            <DialogTrigger asChild>
-              <Button className="bg-primary text-white hover:bg-blue-600">
-                <UserPlus className="w-4 h-4 mr-2" />
-                Ajouter un participant
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-md">
-              <DialogHeader>
-                <DialogTitle>Ajouter un nouveau participant</DialogTitle>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="email"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Adresse email</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                            <Input 
-                              placeholder="participant@example.com" 
-                              className="pl-10"
-                              {...field} 
-                            />
-                          </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={form.control}
-                    name="displayName"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Nom complet</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Ex: Jean Dupont" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="outline"
+              disabled={participants.length === 0}
+              onClick={() => setCredentialsTarget(participants)}
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Cartes de connexion
+            </Button>
+            <ParticipantImportDialog />
+            <Dialog open={isAddModalOpen} onOpenChange={setIsAddModalOpen}>
+              <DialogTrigger asChild>
+                <Button className="bg-primary text-white hover:bg-blue-600">
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Ajouter un participant
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Ajouter un nouveau participant</DialogTitle>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Adresse email</FormLabel>
+                          <FormControl>
+                            <div className="relative">
+                              <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                              <Input 
+                                placeholder="participant@example.com" 
+                                className="pl-10"
+                                {...field} 
+                              />
+                            </div>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="displayName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Nom complet</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Ex: Jean Dupont" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
-                    <div className="text-sm text-blue-800">
-                      <strong>Informations de connexion :</strong><br />
-                      • Nom d'utilisateur : généré automatiquement depuis l'email<br />
-                      • Mot de passe temporaire : <code className="bg-blue-100 px-1 rounded">gjir2024</code>
+                    <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                      <div className="text-sm text-blue-800">
+                        <strong>Informations de connexion :</strong><br />
+                        • Nom d'utilisateur : généré automatiquement depuis l'email<br />
+                        • Mot de passe temporaire : généré et affiché après l'ajout
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="flex space-x-3 pt-4">
-                    <Button 
-                      type="submit" 
-                      disabled={addParticipant.isPending}
-                      className="flex-1 bg-primary text-white hover:bg-blue-600"
-                    >
-                      {addParticipant.isPending ? 'Ajout...' : 'Ajouter'}
-                    </Button>
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      onClick={() => setIsAddModalOpen(false)}
-                      className="flex-1"
-                    >
-                      Annuler
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <div className="flex space-x-3 pt-4">
+                      <Button 
+                        type="submit" 
+                        disabled={addParticipant.isPending}
+                        className="flex-1 bg-primary text-white hover:bg-blue-600"
+                      >
+                        {addParticipant.isPending ? 'Ajout...' : 'Ajouter'}
+                      </Button>
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        onClick={() => setIsAddModalOpen(false)}
+                        className="flex-1"
+                      >
+                        Annuler
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </div>
 
+      <Dialog open={createdAccount !== null} onOpenChange={(open) => !open && setCreatedAccount(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <KeyRound className="h-5 w-5" />
+              <span>Identifiants du participant</span>
+            </DialogTitle>
+          </DialogHeader>
+          {createdAccount && (
+            <div className="space-y-3 text-sm">
+              <p className="text-gray-600">
+                Notez ce mot de passe temporaire : il ne sera plus affiché.
+              </p>
+              <div className="bg-gray-50 rounded-lg p-4 space-y-1">
+                <div>Nom d'utilisateur : <code className="bg-gray-100 px-1 rounded">{createdAccount.username}</code></div>
+                <div>Mot de passe : <code className="bg-gray-100 px-1 rounded">{createdAccount.password}</code></div>
+              </div>
+              <div className="flex space-x-3">
+                <Button variant="outline" className="flex-1" onClick={() => printCards([createdAccount])}>
+                  <Printer className="w-4 h-4 mr-2" />
+                  Imprimer la carte
+                </Button>
+                <Button className="flex-1" onClick={() => setCreatedAccount(null)}>
+                  Fermer
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={credentialsTarget !== null} onOpenChange={(open) => !open && setCredentialsTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <KeyRound className="h-5 w-5" />
+              <span>Nouvelles cartes de connexion</span>
+            </DialogTitle>
+          </DialogHeader>
+          {credentialsTarget && (
+            <div className="space-y-3 text-sm">
+              <p className="text-gray-600">
+                {credentialsTarget.length === 1
+                  ? `Un nouveau mot de passe sera généré pour ${credentialsTarget[0].displayName}.`
+                  : `Un nouveau mot de passe sera généré pour les ${credentialsTarget.length} participants.`}
+                {' '}Les anciens mots de passe et cartes ne fonctionneront plus.
+              </p>
+              <div className="flex space-x-3">
+                <Button
+                  className="flex-1 bg-primary text-white hover:bg-blue-600"
+                  disabled={resetCredentials.isPending}
+                  onClick={() => resetCredentials.mutate(credentialsTarget.map(p => p.id))}
+                >
+                  {resetCredentials.isPending ? 'Génération...' : 'Générer et imprimer'}
+                </Button>
+                <Button variant="outline" className="flex-1" onClick={() => setCredentialsTarget(null)}>
+                  Annuler
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Statistics */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
         <Card>
@@ -221,7 +378,7 @@ export default function ParticipantManagementPage() {
         <Card>
           <CardContent className="p-6 text-center">
             <div className="text-3xl font-bold text-accent mb-2">{users.length}</div>
-            <div className="text-sm text-gray-600">Total utilisateurs</div>
+            <div className="text-sm text-gray-600">Comptes (toutes éditions)</div>
           </CardContent>
         </Card>
       </div>
@@ -235,10 +392,31 @@ export default function ParticipantManagementPage() {
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {otherUsers.length > 0 && (
+            <div className="flex items-center space-x-3 mb-4">
+              <Select value={existingUserId} onValueChange={setExistingUserId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Inscrire un participant d'une édition précédente" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherUsers.map(user => (
+                    <SelectItem key={user.id} value={user.id}>{user.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                disabled={!existingUserId || enrollParticipant.isPending}
+                onClick={() => enrollParticipant.mutate(existingUserId)}
+              >
+                Inscrire
+              </Button>
+            </div>
+          )}
           <div className="space-y-4">
             {participants.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
-                Aucun participant enregistré
+                Aucun participant inscrit à cette édition
               </div>
             ) : (
               participants.map((participant) => (
@@ -252,6 +430,16 @@ export default function ParticipantManagementPage() {
                     <div>
                       <div className="font-medium text-gray-900">{participant.displayName}</div>
                       <div className="text-sm text-gray-500">@{participant.username}</div>
+                      {(participant.email || participant.phone) && (
+                        <div className="text-xs text-gray-500 flex items-center space-x-3">
+                          {participant.email && (
+                            <span className="flex items-center"><Mail className="w-3 h-3 mr-1" />{participant.email}</span>
+                          )}
+                          {participant.phone && (
+                            <span className="flex items-center"><Phone className="w-3 h-3 mr-1" />{participant.phone}</span>
+                          )}
+                        </div>
+                      )}
                       <div className="text-xs text-gray-400">
                         Inscrit le {new Date(participant.createdAt).toLocaleDateString('fr-FR')}
                       </div>
@@ -263,10 +451,18 @@ export default function ParticipantManagementPage() {
                       <UserCheck className="w-3 h-3 mr-1" />
                       Actif
                     </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Nouveau mot de passe"
+                      onClick={() => setCredentialsTarget([participant])}
+                    >
+                      <KeyRound className="w-4 h-4" />
+                    </Button>
                     <Button 
                       variant="outline" 
                       size="sm"
-                      onClick={() => deleteParticipant.mutate(participant.id)}
+                      onClick={() => removeParticipant.mutate(participant.id)}
                       className="text-red-600 hover:text-red-700 hover:bg-red-50"
                     >
                       <Trash2 className="w-4 h-4" />
@@ -278,6 +474,8 @@ export default function ParticipantManagementPage() {
           </div>
         </CardContent>
       </Card>
+
+      <TeamConstraintsCard participants={participants} />
     </div>
   );
 }
\ No newline at end of file
@@ -5,23 +5,31 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { ChallengeCard } from '@/components/challenge-card';
+import { PhaseBanner } from '@/components/phase-banner';
 import { FileUploadModal } from '@/components/file-upload-modal';
 import { 
   Users, 
   Lock, 
   Camera, 
   TriangleAlert,
-  CheckCircle 
+  CheckCircle,
+  MapPin
 } from 'lucide-react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import type { Assignment, Challenge, User, Team, TeamMember, Proof } from '@shared/schema';
-
-// Mock user ID - in real app this would come from auth
-const CURRENT_USER_ID = "user-1";
+import { useAuth } from '@/hooks/use-auth';
+import { useGameSettings } from '@/hooks/use-game-settings';
+import { challengesPerPlayer, requiredTeamProofs } from '@shared/game-rules';
+import type { Leaderboard } from '@shared/scoring';
+import { formatMissionWindow } from '@shared/identification-missions';
+import type { Assignment, Challenge, User, Proof } from '@shared/schema';
+import type { TeamDetails } from '@/lib/types';
 
 export default function PlayerDashboard() {
+  const { user } = useAuth();
+  const currentUserId = user!.id;
+  const settings = useGameSettings();
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [selectedAssignmentId, setSelectedAssignmentId] = useState<string | undefined>();
   const [teamUploadModalOpen, setTeamUploadModalOpen] = useState(false);
@@ -29,31 +37,39 @@ export default function PlayerDashboard() {
   const queryClient = useQueryClient();
 
   const { data: assignments = [], isLoading: assignmentsLoading } = useQuery<(Assignment & { challenge: Challenge; targetUser?: User })[]>({
-    queryKey: ['/api/assignments', CURRENT_USER_ID],
-    enabled: !!CURRENT_USER_ID,
-  });
+    queryKey: ['/api/assignments', currentUserId],
+      });
 
-  const { data: team } = useQuery<Team & { members: (TeamMember & { user: User })[] }>({
-    queryKey: ['/api/team', CURRENT_USER_ID],
-    enabled: !!CURRENT_USER_ID,
-  });
+  const { data: team } = useQuery<TeamDetails>({
+    queryKey: ['/api/team', currentUserId],
+      });
 
   const { data: teamProofs = [] } = useQuery<Proof[]>({
     queryKey: ['/api/proofs/team', team?.id],
     enabled: !!team?.id,
   });
 
-  const startChallenge = useMutation({
-    mutationFn: async (assignmentId: string) => {
-      return apiRequest('PATCH', `/api/assignments/${assignmentId}/status`, {
-        status: 'in_progress'
-      });
+  const { data: leaderboard } = useQuery<Leaderboard>({
+    queryKey: ['/api/leaderboard'],
+  });
+  const myScore = leaderboard?.overall.find(s => s.userId === currentUserId);
+
+  // Players only move their challenges forward; the server refuses anything else
+  const changeStatus = useMutation({
+    mutationFn: async ({ assignmentId, status }: { assignmentId: string; status: 'in_progress' | 'completed' }) => {
+      return apiRequest('PATCH', `/api/assignments/${assignmentId}/status`, { status });
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments', currentUserId] });
+      toast(status === 'in_progress'
+        ? { title: 'Défi commencé', description: 'Le défi a été marqué comme commencé.' }
+        : { title: 'Défi terminé', description: 'Ajoutez une preuve pour le faire valider.' });
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/assignments', CURRENT_USER_ID] });
+    onError: (error: Error) => {
       toast({
-        title: 'Défi commencé',
-        description: 'Le défi a été marqué comme commencé.',
+        title: 'Erreur',
+        description: parseApiError(error).message,
+        variant: 'destructive',
       });
     },
   });
@@ -64,7 +80,11 @@ export default function PlayerDashboard() {
   };
 
   const handleStartChallenge = (assignmentId: string) => {
-    startChallenge.mutate(assignmentId);
+    changeStatus.mutate({ assignmentId, status: 'in_progress' });
+  };
+
+  const handleCompleteChallenge = (assignmentId: string) => {
+    changeStatus.mutate({ assignmentId, status: 'completed' });
   };
 
   const handleTeamUpload = () => {
@@ -83,23 +103,25 @@ export default function PlayerDashboard() {
   const stats = {
     completed: individualAssignments.filter((a: Assignment) => a.status === 'validated').length,
     total: individualAssignments.length,
-    points: individualAssignments
-      .filter((a: Assignment & { challenge: Challenge }) => a.status === 'validated')
-      .reduce((sum: number, a: Assignment & { challenge: Challenge }) => sum + a.challenge.points, 0),
     potentialPoints: individualAssignments
       .reduce((sum: number, a: Assignment & { challenge: Challenge }) => sum + a.challenge.points, 0),
   };
 
-  const teamProofCount = teamProofs.filter((p: any) => !p.isValidated).length;
+  const teamProofCount = teamProofs.filter(p => !p.teamChallenge && p.status !== 'rejected').length;
   const teamProofProgress = team?.members?.length ? 
-    Math.min((teamProofCount / Math.max(2, Math.ceil(team.members.length / 2))) * 100, 100) : 0;
+    Math.min((teamProofCount / requiredTeamProofs(settings, team.members.length)) * 100, 100) : 0;
+  const missionWindow = team?.identificationMission
+    ? formatMissionWindow(team.identificationMission.startsAt, team.identificationMission.endsAt)
+    : null;
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
       <div className="mb-6">
         <h2 className="text-3xl font-bold text-gray-900 mb-2">Mon coffre aux défis</h2>
-        <p className="text-gray-600">Vos 7 défis personnalisés pour le Grand Jeu de l'Île de Ré</p>
+        <p className="text-gray-600">Vos {challengesPerPlayer(settings)} défis personnalisés pour le Grand Jeu de l'Île de Ré</p>
       </div>
+
+      <PhaseBanner />
       
       {/* Challenge Stats */}
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
@@ -111,8 +133,10 @@ export default function PlayerDashboard() {
         </Card>
         <Card>
           <CardContent className="p-4">
-            <div className="text-2xl font-bold text-primary">{stats.points}</div>
-            <div className="text-sm text-gray-600">Points gagnés</div>
+            <div className="text-2xl font-bold text-primary">{myScore?.totalPoints ?? 0}</div>
+            <div className="text-sm text-gray-600">
+              Points gagnés{myScore ? ` • ${myScore.rank}${myScore.rank === 1 ? 'er' : 'e'}` : ''}
+            </div>
           </CardContent>
         </Card>
         <Card>
@@ -138,6 +162,7 @@ export default function PlayerDashboard() {
             assignment={assignment}
             onUploadProof={handleUploadProof}
             onStartChallenge={handleStartChallenge}
+            onCompleteChallenge={handleCompleteChallenge}
           />
         ))}
       </div>
@@ -152,7 +177,7 @@ export default function PlayerDashboard() {
               <div className="flex items-center space-x-3">
                 <Badge className="bg-purple-100 text-purple-800">
                   <Users className="w-3 h-3 mr-1" />
-                  Équipe • 3 pts/membre
+                  Équipe • {settings.teamPoints} pts/membre
                 </Badge>
                 <Badge className="bg-amber-100 text-amber-800">
                   <Lock className="w-3 h-3 mr-1" />
@@ -179,6 +204,12 @@ export default function PlayerDashboard() {
                     <div className="bg-gray-50 rounded-lg p-4 mb-4">
                       <h5 className="font-semibold text-gray-900 mb-2">{team.identificationMissionTitle}</h5>
                       <p className="text-gray-600 text-sm mb-3">{team.identificationMissionDescription}</p>
+                      {team.identificationMission && (team.identificationMission.location || missionWindow) && (
+                        <div className="text-xs text-gray-500 mb-1">
+                          <MapPin className="inline w-3 h-3 mr-1" />
+                          {[team.identificationMission.location, missionWindow].filter(Boolean).join(' • ')}
+                        </div>
+                      )}
                       <div className="text-xs text-gray-500">
                         <Camera className="inline w-3 h-3 mr-1" />
                         Preuve attendue : Photo de groupe géolocalisée
@@ -244,14 +275,16 @@ export default function PlayerDashboard() {
         isOpen={uploadModalOpen}
         onClose={() => setUploadModalOpen(false)}
         assignmentId={selectedAssignmentId}
-        userId={CURRENT_USER_ID}
+        userId={currentUserId}
+        geofence={assignments.find(a => a.id === selectedAssignmentId)?.challenge.geofence}
       />
 
       <FileUploadModal
         isOpen={teamUploadModalOpen}
         onClose={() => setTeamUploadModalOpen(false)}
         teamId={team?.id}
-        userId={CURRENT_USER_ID}
+        userId={currentUserId}
+        geofence={team?.identificationMission?.geofence}
       />
     </div>
   );
@@ -12,24 +12,29 @@ import {
   Camera, 
   CheckCircle,
   Trophy,
-  Utensils,
-  Sun,
-  Play,
   Circle
 } from 'lucide-react';
 import { useState } from 'react';
-import type { Team, TeamMember, User, Proof } from '@shared/schema';
-
-// Mock user ID - in real app this would come from auth
-const CURRENT_USER_ID = "user-1";
+import { useAuth } from '@/hooks/use-auth';
+import { useGameSettings } from '@/hooks/use-game-settings';
+import { usePhaseAllows } from '@/hooks/use-current-game';
+import { requiredTeamProofs } from '@shared/game-rules';
+import { geofenceCenter } from '@shared/geofence';
+import { formatMissionWindow } from '@shared/identification-missions';
+import type { Proof } from '@shared/schema';
+import type { TeamDetails } from '@/lib/types';
 
 export default function TeamPage() {
+  const { user } = useAuth();
+  const currentUserId = user!.id;
+  const settings = useGameSettings();
+  const canSubmit = usePhaseAllows('submit_proof');
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
+  const [challengeUploadModalOpen, setChallengeUploadModalOpen] = useState(false);
 
-  const { data: team } = useQuery<Team & { members: (TeamMember & { user: User })[] }>({
-    queryKey: ['/api/team', CURRENT_USER_ID],
-    enabled: !!CURRENT_USER_ID,
-  });
+  const { data: team } = useQuery<TeamDetails>({
+    queryKey: ['/api/team', currentUserId],
+      });
 
   const { data: teamProofs = [] } = useQuery<Proof[]>({
     queryKey: ['/api/proofs/team', team?.id],
@@ -47,9 +52,14 @@ export default function TeamPage() {
     );
   }
 
-  const teamProofCount = teamProofs.filter(p => !p.isValidated).length;
-  const requiredProofs = Math.max(2, Math.ceil(team.members.length / 2));
+  const missionProofs = teamProofs.filter(p => !p.teamChallenge);
+  const teamProofCount = missionProofs.filter(p => p.status !== 'rejected').length;
+  const challengeProofPending = teamProofs.some(p => p.teamChallenge && p.status === 'pending');
+  const requiredProofs = requiredTeamProofs(settings, team.members.length);
   const teamProofProgress = Math.min((teamProofCount / requiredProofs) * 100, 100);
+  const mission = team.identificationMission;
+  const missionCenter = mission?.geofence ? geofenceCenter(mission.geofence) : null;
+  const missionWindow = mission ? formatMissionWindow(mission.startsAt, mission.endsAt) : null;
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
@@ -92,12 +102,23 @@ export default function TeamPage() {
                   </div>
                   <div className="text-center">
                     <MapPin className="h-6 w-6 text-red-500 mx-auto mb-2" />
-                    <div className="text-sm font-medium text-gray-900">Lieu</div>
-                    <div className="text-xs text-gray-500">À déterminer</div>
+                    <div className="text-sm font-medium text-gray-900">{mission?.location || 'Lieu'}</div>
+                    {missionCenter ? (
+                      <a
+                        href={`https://www.openstreetmap.org/?mlat=${missionCenter.latitude}&mlon=${missionCenter.longitude}#map=17/${missionCenter.latitude}/${missionCenter.longitude}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-xs text-primary underline"
+                      >
+                        Voir sur la carte
+                      </a>
+                    ) : (
+                      <div className="text-xs text-gray-500">À déterminer</div>
+                    )}
                   </div>
                   <div className="text-center">
                     <Clock className="h-6 w-6 text-blue-500 mx-auto mb-2" />
-                    <div className="text-sm font-medium text-gray-900">Flexible</div>
+                    <div className="text-sm font-medium text-gray-900">{missionWindow ?? 'Flexible'}</div>
                     <div className="text-xs text-gray-500">Créneau</div>
                   </div>
                 </div>
@@ -117,6 +138,7 @@ export default function TeamPage() {
               
               <Button 
                 onClick={() => setUploadModalOpen(true)}
+                disabled={!canSubmit}
                 className="w-full bg-accent text-white hover:bg-amber-600"
               >
                 <Camera className="w-4 h-4 mr-2" />
@@ -154,7 +176,7 @@ export default function TeamPage() {
                     <div className="flex-1">
                       <div className="font-medium text-gray-900">{member.user.displayName}</div>
                       <div className="text-sm text-gray-500">
-                        {member.userId === CURRENT_USER_ID ? 'Vous' : 'Coéquipier'}
+                        {member.userId === currentUserId ? 'Vous' : 'Coéquipier'}
                       </div>
                     </div>
                     <div className="text-sm text-secondary">
@@ -176,50 +198,47 @@ export default function TeamPage() {
                 </div>
                 <div>
                   <h3 className="text-xl font-semibold text-gray-900">Défi d'équipe</h3>
-                  <p className="text-gray-600">3 points par membre ({team.members.length * 3} points total)</p>
+                  <p className="text-gray-600">{settings.teamPoints} points par membre ({team.members.length * settings.teamPoints} points total)</p>
                 </div>
               </div>
-              
-              <div className="bg-purple-50 rounded-lg p-6 mb-6">
-                <h4 className="text-lg font-semibold text-gray-900 mb-3">
-                  Organiser un pique-nique collaboratif au Phare des Baleines
-                </h4>
-                <p className="text-gray-600 mb-4">
-                  En équipe, organisez et réalisez un pique-nique au coucher du soleil près du Phare des Baleines. 
-                  Chaque membre doit apporter un élément différent (nourriture, boisson, accessoire). 
-                  Documentez l'événement avec photos et vidéo.
-                </p>
-                
-                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                  <div className="text-center">
-                    <Utensils className="h-6 w-6 text-green-500 mx-auto mb-2" />
-                    <div className="text-sm font-medium text-gray-900">Collaboration</div>
-                    <div className="text-xs text-gray-500">requise</div>
-                  </div>
-                  <div className="text-center">
-                    <Camera className="h-6 w-6 text-blue-500 mx-auto mb-2" />
-                    <div className="text-sm font-medium text-gray-900">Documentation</div>
-                    <div className="text-xs text-gray-500">photos + vidéo</div>
+
+              {team.teamChallenge ? (
+                <>
+                  <div className="bg-purple-50 rounded-lg p-6 mb-6">
+                    <h4 className="text-lg font-semibold text-gray-900 mb-3">{team.teamChallenge.title}</h4>
+                    <p className="text-gray-600">{team.teamChallenge.description}</p>
                   </div>
-                  <div className="text-center">
-                    <Sun className="h-6 w-6 text-orange-500 mx-auto mb-2" />
-                    <div className="text-sm font-medium text-gray-900">Coucher soleil</div>
-                    <div className="text-xs text-gray-500">timing</div>
+
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-700">Progression du défi</span>
+                      {team.teamChallengeValidatedAt ? (
+                        <Badge className="bg-green-100 text-green-800">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Validé
+                        </Badge>
+                      ) : challengeProofPending ? (
+                        <Badge className="bg-amber-100 text-amber-800">Preuve en attente de validation</Badge>
+                      ) : (
+                        <span className="text-sm text-gray-500">À réaliser</span>
+                      )}
+                    </div>
+
+                    {!team.teamChallengeValidatedAt && (
+                      <Button
+                        onClick={() => setChallengeUploadModalOpen(true)}
+                        disabled={!canSubmit}
+                        className="w-full bg-purple-600 text-white hover:bg-purple-700"
+                      >
+                        <Camera className="w-4 h-4 mr-2" />
+                        Soumettre la preuve du défi
+                      </Button>
+                    )}
                   </div>
-                </div>
-              </div>
-              
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium text-gray-700">Progression du défi</span>
-                  <span className="text-sm text-gray-500">En attente</span>
-                </div>
-                
-                <Button className="w-full bg-purple-600 text-white hover:bg-purple-700">
-                  <Play className="w-4 h-4 mr-2" />
-                  Commencer le défi d'équipe
-                </Button>
-              </div>
+                </>
+              ) : (
+                <div className="text-center text-gray-500 py-4">Aucun défi d'équipe n'a été tiré pour votre équipe.</div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -229,7 +248,17 @@ export default function TeamPage() {
         isOpen={uploadModalOpen}
         onClose={() => setUploadModalOpen(false)}
         teamId={team.id}
-        userId={CURRENT_USER_ID}
+        userId={currentUserId}
+        geofence={mission?.geofence}
+      />
+
+      <FileUploadModal
+        isOpen={challengeUploadModalOpen}
+        onClose={() => setChallengeUploadModalOpen(false)}
+        teamId={team.id}
+        teamChallenge
+        userId={currentUserId}
+        geofence={team.teamChallenge?.geofence}
       />
     </div>
   );
@@ -0,0 +1,141 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, RequestHandler } from "express";
+import { storage, toPublicUser } from "./storage";
+import { comparePasswords, isHashedPassword } from "./passwords";
+import { changePasswordSchema, type User as SelectUser } from "@shared/schema";
+import { z } from "zod";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// Create the first administrator from the environment when none exists yet,
+// otherwise nobody could ever log into the admin panel on a fresh database.
+async function ensureBootstrapAdmin() {
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) return;
+
+  const allUsers = await storage.getAllUsers();
+  if (allUsers.some(u => u.isAdmin)) return;
+
+  await storage.createUser({
+    username: ADMIN_USERNAME,
+    password: ADMIN_PASSWORD,
+    displayName: "Administrateur GJIR",
+    isAdmin: true,
+  });
+}
+
+// Returns the session middleware so WebSocket upgrades can read the same session
+export async function setupAuth(app: Express): Promise<RequestHandler> {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies.");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+    },
+  };
+
+  const sessionMiddleware = session(sessionSettings);
+
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        if (!isHashedPassword(user.password)) {
+          await storage.setUserPassword(user.id, password);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureBootstrapAdmin();
+
+  // Auth routes
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Identifiant ou mot de passe incorrect" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ message: "Déconnexion réussie" });
+      });
+    });
+  });
+
+  // The current password is asked again, so an unattended session cannot lock its owner out
+  app.post("/api/auth/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Non authentifié" });
+    }
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Mot de passe actuel incorrect" });
+      }
+      await storage.setUserPassword(user.id, newPassword);
+      res.json({ message: "Mot de passe modifié" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Mot de passe invalide" });
+      }
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Non authentifié" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  return sessionMiddleware;
+}
@@ -0,0 +1,81 @@
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { HttpError } from "./errors";
+import { UTF8_BOM, parseCsv, toCsv } from "./csv";
+import {
+  CHALLENGE_FILE_FIELDS,
+  type ChallengeFileFormat,
+  type ChallengeImportRecord,
+} from "@shared/challenge-import";
+import type { Challenge } from "@shared/schema";
+
+export const CHALLENGE_FILE_TYPES: Record<ChallengeFileFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  yaml: "application/yaml; charset=utf-8",
+};
+
+// The other columns may be left out and take their defaults
+const REQUIRED_CSV_COLUMNS = ["title", "description", "difficulty"];
+
+function parseChallengeCsv(content: string): ChallengeImportRecord[] {
+  const { columns, records } = parseCsv(content);
+  const missing = REQUIRED_CSV_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new HttpError(400, `Colonnes manquantes dans le CSV : ${missing.join(", ")}`);
+  }
+  // With a zone column, an empty cell means no zone rather than keeping the existing one
+  const hasGeofence = columns.includes("geofence");
+  return records.map(({ line, data }) => ({
+    row: line,
+    data: hasGeofence ? { geofence: null, ...data } : data,
+  }));
+}
+
+// JSON and YAML files hold a list of challenges, bare or under "challenges"
+function toRecords(document: unknown): ChallengeImportRecord[] {
+  const list = Array.isArray(document)
+    ? document
+    : (document as { challenges?: unknown } | null)?.challenges;
+  if (!Array.isArray(list)) {
+    throw new HttpError(400, "Le fichier doit contenir une liste de défis");
+  }
+  return list.map((data, index) => ({ row: index + 1, data }));
+}
+
+export function parseChallengeFile(format: ChallengeFileFormat, content: string): ChallengeImportRecord[] {
+  const text = content.startsWith(UTF8_BOM) ? content.slice(UTF8_BOM.length) : content;
+  switch (format) {
+    case "csv":
+      return parseChallengeCsv(text);
+    case "json":
+      try {
+        return toRecords(JSON.parse(text));
+      } catch (error) {
+        if (error instanceof HttpError) throw error;
+        throw new HttpError(400, `JSON invalide : ${(error as Error).message}`);
+      }
+    case "yaml":
+      try {
+        return toRecords(parseYaml(text));
+      } catch (error) {
+        if (error instanceof HttpError) throw error;
+        throw new HttpError(400, `YAML invalide : ${(error as Error).message}`);
+      }
+  }
+}
+
+export function serializeChallenges(format: ChallengeFileFormat, challenges: Challenge[]): string {
+  const rows = challenges.map(({ title, description, difficulty, needsTarget, isActive, geofence }) =>
+    ({ title, description, difficulty, needsTarget, isActive, geofence: geofence ?? null }));
+
+  switch (format) {
+    case "csv":
+      // One cell per challenge, holding the zone as JSON
+      return toCsv([...CHALLENGE_FILE_FIELDS], rows.map(row =>
+        ({ ...row, geofence: row.geofence ? JSON.stringify(row.geofence) : null })));
+    case "json":
+      return JSON.stringify({ challenges: rows }, null, 2) + "\n";
+    case "yaml":
+      return stringifyYaml({ challenges: rows });
+  }
+}
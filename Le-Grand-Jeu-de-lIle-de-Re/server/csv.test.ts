@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { UTF8_BOM, parseCsv, toCsv } from "./csv";
+import { HttpError } from "./errors";
+import { parseChallengeFile, serializeChallenges } from "./challenge-files";
+import { planChallengeImport } from "@shared/challenge-import";
+import type { Challenge } from "@shared/schema";
+
+const roundTrip = (rows: Record<"a" | "b", unknown>[]) =>
+  parseCsv(toCsv(["a", "b"], rows)).records.map(record => record.data);
+
+test("exports start with a BOM and end rows with CRLF", () => {
+  assert.equal(toCsv(["a", "b"], [{ a: "x", b: 1 }]), `${UTF8_BOM}a,b\r\nx,1\r\n`);
+});
+
+test("delimiters, quotes and newlines survive a round trip", () => {
+  const tricky = ["a,b", "a;b", 'say "hi"', "two\nlines", "crlf\r\nlines", " padded "];
+  assert.deepEqual(roundTrip(tricky.map(a => ({ a, b: "x" }))), tricky.map(a => ({ a, b: "x" })));
+});
+
+test("formula-like cells are exported as text and imported unchanged", () => {
+  const formulas = ["=SUM(A1:A9)", "+33 6 12 34 56 78", "-1", "@cmd", "\tTab", "'=already quoted", "''+twice"];
+  const csv = toCsv(["a", "b"], formulas.map(a => ({ a, b: "x" })));
+  for (const line of csv.split("\r\n").slice(1, -1)) {
+    assert.match(line, /^"?'/, `not escaped: ${line}`);
+  }
+  assert.deepEqual(roundTrip(formulas.map(a => ({ a, b: "x" }))).map(row => row.a), formulas);
+});
+
+test("cells that only contain a formula character later are left alone", () => {
+  assert.equal(toCsv(["a", "b"], [{ a: "a=b", b: "it's" }]).split("\r\n")[1], "a=b,it's");
+  assert.deepEqual(parseCsv("a\r\nit's\r\n").records[0].data, { a: "it's" });
+});
+
+test("empty cells and null are left out, blank lines skipped", () => {
+  // A row of empty cells reads as a blank line
+  assert.deepEqual(roundTrip([{ a: null, b: "" }, { a: "x", b: undefined }]), [{ a: "x" }]);
+  const { records } = parseCsv("a,b\n\n1,2\n   \n3,4\n");
+  assert.deepEqual(records, [{ line: 3, data: { a: "1", b: "2" } }, { line: 5, data: { a: "3", b: "4" } }]);
+});
+
+test("records report the line they start on, after multi-line cells", () => {
+  const { records } = parseCsv('a,b\n"one\ntwo",x\n3,y\n');
+  assert.deepEqual(records.map(record => record.line), [2, 4]);
+});
+
+test("French spreadsheets separated by semicolons are read", () => {
+  const { columns, records } = parseCsv("titre;points\nPhare, le soir;3\n");
+  assert.deepEqual(columns, ["titre", "points"]);
+  assert.deepEqual(records[0].data, { titre: "Phare, le soir", points: "3" });
+});
+
+test("an unclosed quote or an empty file is a 400", () => {
+  assert.throws(() => parseCsv('a\n"open'), (error: unknown) => error instanceof HttpError && error.status === 400);
+  assert.throws(() => parseCsv(""), (error: unknown) => error instanceof HttpError && error.status === 400);
+});
+
+const challenge = (id: string, title: string, description: string, extra: Partial<Challenge> = {}): Challenge => ({
+  id,
+  gameId: "g",
+  title,
+  description,
+  difficulty: "easy",
+  points: 1,
+  needsTarget: false,
+  isActive: true,
+  geofence: null,
+  version: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...extra,
+} as Challenge);
+
+test("an exported bank imports back as unchanged in every format", () => {
+  const bank = [
+    challenge("1", "=HYPERLINK(\"http://x\")", "Pas une formule"),
+    challenge("2", "Phare", "Sur deux\nlignes, avec \"guillemets\"", { needsTarget: true, difficulty: "hard" }),
+    challenge("3", "-10 % au marché", "@ la criée", {
+      isActive: false,
+      geofence: { kind: "circle", latitude: 46.2, longitude: -1.4, radiusMeters: 200 },
+    }),
+  ];
+  for (const format of ["csv", "json", "yaml"] as const) {
+    const records = parseChallengeFile(format, serializeChallenges(format, bank));
+    const plan = planChallengeImport(records, bank, new Set());
+    assert.deepEqual(plan.counts, { new: 0, changed: 0, duplicate: 3, invalid: 0 }, format);
+  }
+});
@@ -0,0 +1,106 @@
+import { HttpError } from "./errors";
+
+// Excel only reads a CSV as UTF-8 (accents) when it starts with a BOM
+export const UTF8_BOM = "\uFEFF";
+
+export interface CsvRecord {
+  // Line the record starts on, so errors point at the spreadsheet row
+  line: number;
+  // Non-empty cells by column name; empty cells are left out like a missing key
+  data: Record<string, string>;
+}
+
+// RFC 4180 fields: quoted fields may contain the delimiter, quotes ("") and newlines
+function parseRows(content: string, delimiter: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new HttpError(400, `Guillemet non fermé dans le CSV (ligne ${rowLine})`);
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+
+  // Blank lines are not records
+  return rows.filter(row => row.fields.some(value => value.trim() !== ""));
+}
+
+// The first row names the columns; French spreadsheets export with semicolons
+export function parseCsv(content: string): { columns: string[]; records: CsvRecord[] } {
+  const text = content.startsWith(UTF8_BOM) ? content.slice(UTF8_BOM.length) : content;
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = headerLine.includes(";") && !headerLine.includes(",") ? ";" : ",";
+
+  const [header, ...rows] = parseRows(text, delimiter);
+  if (!header) {
+    throw new HttpError(400, "Le fichier CSV est vide");
+  }
+  const columns = header.fields.map(name => name.trim());
+
+  const records = rows.map(({ line, fields }) => {
+    const data: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column && fields[index] !== undefined && fields[index].trim() !== "") {
+        data[column] = ESCAPED_FORMULA.test(fields[index]) ? fields[index].slice(1) : fields[index];
+      }
+    });
+    return { line, data };
+  });
+
+  return { columns, records };
+}
+
+// Spreadsheets run a cell starting with one of these as a formula; a leading
+// apostrophe makes them show it as text instead. Cells already starting with
+// apostrophes get one more, and parseCsv drops one, so an export imports back
+// unchanged.
+const FORMULA = /^'*[=+\-@\t\r]/;
+const ESCAPED_FORMULA = /^'+[=+\-@\t\r]/;
+
+const csvField = (value: unknown) => {
+  const raw = value === null || value === undefined ? "" : String(value);
+  const text = FORMULA.test(raw) ? `'${raw}` : raw;
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<Column extends string>(columns: Column[], rows: Record<Column, unknown>[]): string {
+  return UTF8_BOM + [
+    columns.join(","),
+    ...rows.map(row => columns.map(column => csvField(row[column])).join(",")),
+  ].join("\r\n") + "\r\n";
+}
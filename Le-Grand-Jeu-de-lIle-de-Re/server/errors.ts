@@ -0,0 +1,12 @@
+// Error carrying the HTTP status (and optional structured details) the API
+// should answer with. Routes forward it as-is; anything else becomes a 500.
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: unknown,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
@@ -0,0 +1,235 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readExif } from "./exif";
+import { captureFromExif } from "@shared/proof-checks";
+
+// Small TIFF/EXIF blocks written the way cameras do, so each branch of the
+// parser can be reached with a handful of bytes
+
+type Entry =
+  | { tag: number; type: 2; value: string }
+  | { tag: number; type: 3 | 4; value: number[] }
+  | { tag: number; type: 5; value: [number, number][] };
+
+const ascii = (tag: number, value: string): Entry => ({ tag, type: 2, value });
+const short = (tag: number, ...value: number[]): Entry => ({ tag, type: 3, value });
+const rational = (tag: number, ...value: [number, number][]): Entry => ({ tag, type: 5, value });
+
+function entryBytes(entry: Entry, little: boolean): Buffer {
+  if (entry.type === 2) return Buffer.from(`${entry.value}\0`, "latin1");
+  const size = entry.type === 3 ? 2 : 4;
+  const numbers = entry.type === 5 ? entry.value.flat() : entry.value;
+  const bytes = Buffer.alloc(numbers.length * size);
+  numbers.forEach((n, i) => {
+    if (size === 2) little ? bytes.writeUInt16LE(n, i * 2) : bytes.writeUInt16BE(n, i * 2);
+    else little ? bytes.writeUInt32LE(n, i * 4) : bytes.writeUInt32BE(n, i * 4);
+  });
+  return bytes;
+}
+
+// IFD0, then the EXIF and GPS IFDs it points to, then the values too large
+// to sit in their entry
+function buildTiff(order: "II" | "MM", ifds: { ifd0: Entry[]; exif?: Entry[]; gps?: Entry[] }): Buffer {
+  const little = order === "II";
+  const ifdSize = (entries: Entry[]) => 2 + entries.length * 12 + 4;
+  const ifd0 = [...ifds.ifd0];
+  if (ifds.exif) ifd0.push({ tag: 0x8769, type: 4, value: [0] });
+  if (ifds.gps) ifd0.push({ tag: 0x8825, type: 4, value: [0] });
+
+  const exifStart = 8 + ifdSize(ifd0);
+  const gpsStart = exifStart + (ifds.exif ? ifdSize(ifds.exif) : 0);
+  let dataStart = gpsStart + (ifds.gps ? ifdSize(ifds.gps) : 0);
+  if (ifds.exif) ifd0[ifd0.length - (ifds.gps ? 2 : 1)] = { tag: 0x8769, type: 4, value: [exifStart] };
+  if (ifds.gps) ifd0[ifd0.length - 1] = { tag: 0x8825, type: 4, value: [gpsStart] };
+
+  const parts: Buffer[] = [];
+  const u16 = (n: number) => { const b = Buffer.alloc(2); little ? b.writeUInt16LE(n) : b.writeUInt16BE(n); return b; };
+  const u32 = (n: number) => { const b = Buffer.alloc(4); little ? b.writeUInt32LE(n) : b.writeUInt32BE(n); return b; };
+  const data: Buffer[] = [];
+
+  parts.push(Buffer.from(order, "latin1"), u16(42), u32(8));
+  for (const entries of [ifd0, ifds.exif, ifds.gps]) {
+    if (!entries) continue;
+    parts.push(u16(entries.length));
+    for (const entry of entries) {
+      const bytes = entryBytes(entry, little);
+      const count = entry.type === 2 ? bytes.length : entry.value.length;
+      parts.push(u16(entry.tag), u16(entry.type), u32(count));
+      if (bytes.length <= 4) {
+        parts.push(Buffer.concat([bytes, Buffer.alloc(4 - bytes.length)]));
+      } else {
+        parts.push(u32(dataStart));
+        data.push(bytes);
+        dataStart += bytes.length;
+      }
+    }
+    parts.push(u32(0));
+  }
+  return Buffer.concat([...parts, ...data]);
+}
+
+function jpeg(tiff: Buffer): Buffer {
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(2 + 6 + tiff.length);
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    // An APP0 segment before the EXIF one, as JFIF files have
+    Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]),
+    Buffer.from([0xff, 0xe1]), length, Buffer.from("Exif\0\0", "latin1"), tiff,
+    Buffer.from([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]),
+  ]);
+}
+
+function png(tiff: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(tiff.length);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    length, Buffer.from("eXIf", "latin1"), tiff, Buffer.alloc(4),
+  ]);
+}
+
+function webp(tiff: Buffer): Buffer {
+  const chunk = Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff]);
+  const header = Buffer.alloc(8);
+  header.write("EXIF", 0, "latin1");
+  header.writeUInt32LE(chunk.length, 4);
+  return Buffer.concat([Buffer.from("RIFF\0\0\0\0WEBP", "latin1"), header, chunk, Buffer.alloc(chunk.length % 2)]);
+}
+
+// A phone photo taken on the island: 46°12'30" N, 1°22'48" W
+const PHOTO = {
+  ifd0: [ascii(0x010f, "Apple"), ascii(0x0110, "iPhone 15"), short(0x0112, 6)],
+  exif: [ascii(0x9003, "2026:07:14 15:30:00"), ascii(0x9011, "+02:00")],
+  gps: [
+    ascii(0x0001, "N"),
+    rational(0x0002, [46, 1], [12, 1], [30, 1]),
+    ascii(0x0003, "W"),
+    rational(0x0004, [1, 1], [22, 1], [4800, 100]),
+    rational(0x0007, [13, 1], [30, 1], [5, 1]),
+    ascii(0x001d, "2026:07:14"),
+  ],
+};
+
+const PHOTO_TAGS = {
+  Make: "Apple",
+  Model: "iPhone 15",
+  Orientation: 6,
+  DateTimeOriginal: "2026:07:14 15:30:00",
+  OffsetTimeOriginal: "+02:00",
+  GPSLatitudeRef: "N",
+  GPSLatitude: [46, 12, 30],
+  GPSLongitudeRef: "W",
+  GPSLongitude: [1, 22, 48],
+  GPSTimeStamp: [13, 30, 5],
+  GPSDateStamp: "2026:07:14",
+};
+
+test("reads IFD0, EXIF and GPS tags in either byte order", () => {
+  assert.deepEqual(readExif(jpeg(buildTiff("II", PHOTO))), PHOTO_TAGS);
+  assert.deepEqual(readExif(jpeg(buildTiff("MM", PHOTO))), PHOTO_TAGS);
+});
+
+test("finds the EXIF block of PNG and WebP files", () => {
+  assert.deepEqual(readExif(png(buildTiff("MM", PHOTO))), PHOTO_TAGS);
+  assert.deepEqual(readExif(webp(buildTiff("II", PHOTO))), PHOTO_TAGS);
+});
+
+test("files without EXIF give null", () => {
+  assert.equal(readExif(Buffer.from([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9])), null);
+  assert.equal(readExif(Buffer.from("not an image at all")), null);
+  assert.equal(readExif(Buffer.alloc(0)), null);
+  // An EXIF block with no tag worth keeping
+  assert.equal(readExif(jpeg(buildTiff("II", { ifd0: [short(0x0100, 640)] }))), null);
+});
+
+test("every truncation of a photo gives null or the tags read so far, never an exception", () => {
+  const file = jpeg(buildTiff("II", PHOTO));
+  for (let length = 0; length < file.length; length++) {
+    const tags = readExif(file.subarray(0, length));
+    assert.ok(tags === null || typeof tags === "object");
+  }
+  const block = buildTiff("MM", PHOTO);
+  for (let length = 0; length < block.length; length++) {
+    assert.doesNotThrow(() => readExif(jpeg(block.subarray(0, length))));
+  }
+});
+
+test("a segment length running past the end of the file gives null", () => {
+  const file = jpeg(buildTiff("II", PHOTO));
+  // APP0 claims 64 KB
+  file.writeUInt16BE(0xffff, 4);
+  assert.equal(readExif(file), null);
+});
+
+test("offsets pointing outside the block are skipped", () => {
+  const tiff = buildTiff("II", PHOTO);
+
+  // Model's value offset points past the end: the other tags are still read
+  const modelEntry = 8 + 2 + 12;
+  const broken = Buffer.from(tiff);
+  broken.writeUInt32LE(0xfffffff0, modelEntry + 8);
+  const tags = readExif(jpeg(broken));
+  assert.equal(tags?.Model, undefined);
+  assert.equal(tags?.Make, "Apple");
+  assert.deepEqual(tags?.GPSLatitude, [46, 12, 30]);
+
+  // IFD0 itself is out of range
+  const lost = Buffer.from(tiff);
+  lost.writeUInt32LE(tiff.length + 100, 4);
+  assert.equal(readExif(jpeg(lost)), null);
+
+  // A huge count overflows the block
+  const counted = Buffer.from(tiff);
+  counted.writeUInt32LE(0x40000000, modelEntry + 4);
+  assert.equal(readExif(jpeg(counted))?.Model, undefined);
+});
+
+test("a bad byte-order mark or magic number gives null", () => {
+  const tiff = buildTiff("II", PHOTO);
+  const order = Buffer.from(tiff);
+  order.write("XX", 0, "latin1");
+  assert.equal(readExif(jpeg(order)), null);
+  const magic = Buffer.from(tiff);
+  magic.writeUInt16LE(43, 2);
+  assert.equal(readExif(jpeg(magic)), null);
+});
+
+test("a rational with a zero denominator reads as 0", () => {
+  const tags = readExif(jpeg(buildTiff("II", { ifd0: [], gps: [rational(0x0006, [120, 0])] })));
+  assert.deepEqual(tags, { GPSAltitude: 0 });
+});
+
+test("captureFromExif turns the tags into a time, a position and a camera", () => {
+  assert.deepEqual(captureFromExif(readExif(jpeg(buildTiff("II", PHOTO)))), {
+    takenAt: "2026-07-14T13:30:00.000Z",
+    latitude: 46 + 12 / 60 + 30 / 3600,
+    longitude: -(1 + 22 / 60 + 48 / 3600),
+    camera: "Apple iPhone 15",
+  });
+});
+
+test("without an offset the local time of the island is assumed", () => {
+  const capture = captureFromExif({ DateTimeOriginal: "2026:01:10 09:00:00" });
+  // Winter in Paris: UTC+1
+  assert.deepEqual(capture, { takenAt: "2026-01-10T08:00:00.000Z", takenAtEstimated: true });
+});
+
+test("the GPS time is preferred to a local time without offset", () => {
+  const capture = captureFromExif({
+    DateTimeOriginal: "2026:07:14 15:30:00",
+    GPSDateStamp: "2026:07:14",
+    GPSTimeStamp: [13, 31, 2.5],
+  });
+  assert.deepEqual(capture, { takenAt: "2026-07-14T13:31:02.000Z" });
+});
+
+test("unusable values are ignored", () => {
+  assert.equal(captureFromExif(null), null);
+  assert.equal(captureFromExif({}), null);
+  // A camera clock never set, a position of 0,0 and an impossible latitude
+  assert.equal(captureFromExif({ DateTimeOriginal: "0000:00:00 00:00:00" }), null);
+  assert.equal(captureFromExif({ GPSLatitude: [0, 0, 0], GPSLongitude: [0, 0, 0] }), null);
+  assert.equal(captureFromExif({ GPSLatitude: [95, 0, 0], GPSLongitude: [1, 0, 0] }), null);
+  assert.equal(captureFromExif({ GPSLatitude: "46.2", GPSLongitude: [1, 0, 0] }), null);
+});
@@ -0,0 +1,163 @@
+import type { ExifTags } from "@shared/proof-media";
+
+// Tags worth keeping, by IFD: who took the photo with what, when and where
+const IFD0_TAGS: Record<number, string> = {
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x0131: "Software",
+  0x0132: "DateTime",
+};
+const EXIF_TAGS: Record<number, string> = {
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x9010: "OffsetTime",
+  0x9011: "OffsetTimeOriginal",
+};
+const GPS_TAGS: Record<number, string> = {
+  0x0001: "GPSLatitudeRef",
+  0x0002: "GPSLatitude",
+  0x0003: "GPSLongitudeRef",
+  0x0004: "GPSLongitude",
+  0x0005: "GPSAltitudeRef",
+  0x0006: "GPSAltitude",
+  0x0007: "GPSTimeStamp",
+  0x001d: "GPSDateStamp",
+};
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Byte size of one value, by TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// Reads a TIFF structure (the body of an EXIF block)
+function readTiff(tiff: Buffer): ExifTags | null {
+  if (tiff.length < 8) return null;
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") return null;
+  const little = order === "II";
+  const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+  const s32 = (offset: number) => (little ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset));
+  if (u16(2) !== 42) return null;
+
+  const tags: ExifTags = {};
+  const pointers: Record<number, number> = {};
+
+  const readValue = (type: number, count: number, offset: number): string | number | number[] | undefined => {
+    if (type === 2) {
+      return tiff.toString("latin1", offset, offset + count).replace(/\0+$/, "").trim();
+    }
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const at = offset + i * TYPE_SIZES[type];
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(tiff[at]);
+          break;
+        case 3:
+          values.push(u16(at));
+          break;
+        case 4:
+          values.push(u32(at));
+          break;
+        case 9:
+          values.push(s32(at));
+          break;
+        case 5:
+        case 10: {
+          const numerator = type === 5 ? u32(at) : s32(at);
+          const denominator = type === 5 ? u32(at + 4) : s32(at + 4);
+          values.push(denominator === 0 ? 0 : numerator / denominator);
+          break;
+        }
+        default:
+          return undefined;
+      }
+    }
+    return values.length === 1 ? values[0] : values;
+  };
+
+  const readIfd = (start: number, names: Record<number, string>) => {
+    if (start <= 0 || start + 2 > tiff.length) return;
+    const entries = u16(start);
+    for (let i = 0; i < entries; i++) {
+      const entry = start + 2 + i * 12;
+      if (entry + 12 > tiff.length) return;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const count = u32(entry + 4);
+      const size = (TYPE_SIZES[type] ?? 0) * count;
+      // Values of 4 bytes or less sit in the entry itself
+      const valueOffset = size <= 4 ? entry + 8 : u32(entry + 8);
+      if (size === 0 || valueOffset + size > tiff.length) continue;
+
+      if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) {
+        pointers[tag] = u32(entry + 8);
+      } else if (names[tag]) {
+        const value = readValue(type, count, valueOffset);
+        if (value !== undefined && value !== "") tags[names[tag]] = value;
+      }
+    }
+  };
+
+  readIfd(u32(4), IFD0_TAGS);
+  if (pointers[EXIF_IFD_POINTER]) readIfd(pointers[EXIF_IFD_POINTER], EXIF_TAGS);
+  if (pointers[GPS_IFD_POINTER]) readIfd(pointers[GPS_IFD_POINTER], GPS_TAGS);
+
+  return Object.keys(tags).length > 0 ? tags : null;
+}
+
+// Finds the EXIF block of a JPEG (APP1 segment), PNG (eXIf chunk) or WebP
+// (EXIF chunk) and reads the tags above; null when there is none
+export function readExif(file: Buffer): ExifTags | null {
+  try {
+    // JPEG: markers until the image data starts
+    if (file[0] === 0xff && file[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 4 <= file.length && file[offset] === 0xff) {
+        const marker = file[offset + 1];
+        const length = file.readUInt16BE(offset + 2);
+        if (marker === 0xda) break;
+        if (marker === 0xe1 && file.toString("latin1", offset + 4, offset + 10) === "Exif\0\0") {
+          return readTiff(file.subarray(offset + 10, offset + 2 + length));
+        }
+        offset += 2 + length;
+      }
+      return null;
+    }
+
+    // PNG: length, type, data, CRC
+    if (file.toString("latin1", 1, 4) === "PNG") {
+      let offset = 8;
+      while (offset + 8 <= file.length) {
+        const length = file.readUInt32BE(offset);
+        const type = file.toString("latin1", offset + 4, offset + 8);
+        if (type === "eXIf") return readTiff(file.subarray(offset + 8, offset + 8 + length));
+        if (type === "IDAT" || type === "IEND") break;
+        offset += 12 + length;
+      }
+      return null;
+    }
+
+    // WebP: RIFF chunks, padded to an even length
+    if (file.toString("latin1", 0, 4) === "RIFF" && file.toString("latin1", 8, 12) === "WEBP") {
+      let offset = 12;
+      while (offset + 8 <= file.length) {
+        const type = file.toString("latin1", offset, offset + 4);
+        const length = file.readUInt32LE(offset + 4);
+        if (type === "EXIF") {
+          const chunk = file.subarray(offset + 8, offset + 8 + length);
+          // Some encoders keep the JPEG "Exif\0\0" prefix
+          return readTiff(chunk.toString("latin1", 0, 6) === "Exif\0\0" ? chunk.subarray(6) : chunk);
+        }
+        offset += 8 + length + (length % 2);
+      }
+    }
+    return null;
+  } catch {
+    // Truncated or corrupt metadata is treated as missing
+    return null;
+  }
+}
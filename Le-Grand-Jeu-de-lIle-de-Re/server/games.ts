@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { PHASE_LABELS, phaseAllows, type PhaseAction } from "@shared/game-phase";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Edition the request works on, set by resolveGame for logged-in users
+      gameId?: string;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Edition an admin is preparing or reviewing, when not the active one
+    gameId?: string;
+  }
+}
+
+// Create a first edition when the database has none, so there is always an
+// active game for players and for the admin pages.
+export async function ensureActiveGame() {
+  if (await storage.getActiveGame()) return;
+
+  const existing = await storage.getGames();
+  if (existing.length > 0) {
+    await storage.activateGame(existing[0].id);
+    return;
+  }
+
+  const game = await storage.createGame({ name: `Grand Jeu ${new Date().getFullYear()}` });
+  await storage.activateGame(game.id);
+}
+
+// Players always play the active edition; admins work on the edition they
+// selected (see POST /api/games/:id/select) and fall back to the active one.
+export async function resolveGame(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return next();
+
+  try {
+    const selected = req.user.isAdmin && req.session.gameId
+      ? await storage.getGame(req.session.gameId)
+      : undefined;
+    const game = selected ?? await storage.getActiveGame();
+    if (!game) {
+      return res.status(409).json({ message: "Aucune édition active" });
+    }
+    req.gameId = game.id;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Refuses the request when the edition's current phase does not allow the action
+export function requirePhase(action: PhaseAction) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const game = await storage.getGame(req.gameId!);
+      if (!game || !phaseAllows(game.phase, action)) {
+        return res.status(409).json({
+          message: `Action impossible en phase « ${game ? PHASE_LABELS[game.phase] : "inconnue"} »`,
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
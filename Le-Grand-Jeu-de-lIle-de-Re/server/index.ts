@@ -1,8 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startPhaseScheduler } from "./scheduler";
+import { startMediaProcessor } from "./media-processing";
 
 const app = express();
+// Imports carry a whole file; everything else stays small
+app.use(["/api/challenges/import", "/api/participants/import"], express.json({ limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -67,5 +71,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startPhaseScheduler();
+    startMediaProcessor();
   });
 })();
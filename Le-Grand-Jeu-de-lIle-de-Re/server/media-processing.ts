@@ -0,0 +1,195 @@
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { contentTypeOf, mediaKeyOf, mediaStore } from "./media";
+import { readExif } from "./exif";
+import { publish } from "./realtime";
+import { log } from "./vite";
+import type { MediaRenditionName, ProofMedia } from "@shared/proof-media";
+import type { Proof } from "@shared/schema";
+
+const run = promisify(execFile);
+
+// ffmpeg does the decoding and encoding; it must be installed on the server
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE = process.env.FFPROBE_PATH || "ffprobe";
+const FFMPEG_TIMEOUT_MS = 120_000;
+
+const MEDIA_CHECK_INTERVAL_MS = 60_000;
+
+const THUMBNAIL_SIZE = 320;
+const PREVIEW_SIZE = 1280;
+const WAVEFORM_SIZE = "640x120";
+
+// EXIF orientation -> filters that turn the photo upright; ffmpeg is told to
+// ignore the tag itself (-noautorotate) so every version behaves the same
+const ORIENTATION_FILTERS: Record<number, string[]> = {
+  2: ["hflip"],
+  3: ["hflip", "vflip"],
+  4: ["vflip"],
+  5: ["transpose=0"],
+  6: ["transpose=1"],
+  7: ["transpose=3"],
+  8: ["transpose=2"],
+};
+
+interface ProbeStream {
+  codec_type?: string;
+  width?: number;
+  height?: number;
+  duration?: string;
+  tags?: { rotate?: string };
+  side_data_list?: { rotation?: number }[];
+}
+
+async function probe(file: string): Promise<Pick<ProofMedia, "width" | "height" | "durationSeconds">> {
+  const { stdout } = await run(
+    FFPROBE,
+    ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", file],
+    { timeout: FFMPEG_TIMEOUT_MS },
+  );
+  const info = JSON.parse(stdout) as { streams?: ProbeStream[]; format?: { duration?: string } };
+  const video = info.streams?.find(stream => stream.codec_type === "video");
+  const duration = Number(info.format?.duration ?? video?.duration);
+
+  // Phones record portrait videos as rotated landscape frames
+  const rotation = Number(video?.side_data_list?.find(data => data.rotation !== undefined)?.rotation ?? video?.tags?.rotate ?? 0);
+  const sideways = Math.abs(rotation) % 180 === 90;
+
+  return {
+    width: sideways ? video?.height : video?.width,
+    height: sideways ? video?.width : video?.height,
+    durationSeconds: Number.isFinite(duration) && duration > 0 ? Math.round(duration * 10) / 10 : undefined,
+  };
+}
+
+// One JPEG frame, scaled down (never up) to fit in a size x size box, without metadata
+async function renderFrame(input: string, output: string, size: number, filters: string[], inputArgs: string[] = []) {
+  const scale = `scale='min(${size},iw)':'min(${size},ih)':force_original_aspect_ratio=decrease`;
+  await run(
+    FFMPEG,
+    ["-v", "error", "-y", ...inputArgs, "-i", input, "-vf", [...filters, scale].join(","),
+      "-frames:v", "1", "-map_metadata", "-1", "-q:v", "4", output],
+    { timeout: FFMPEG_TIMEOUT_MS },
+  );
+}
+
+async function renderWaveform(input: string, output: string) {
+  await run(
+    FFMPEG,
+    ["-v", "error", "-y", "-i", input,
+      "-filter_complex", `aformat=channel_layouts=mono,showwavespic=s=${WAVEFORM_SIZE}:colors=#2563eb`,
+      "-frames:v", "1", output],
+    { timeout: FFMPEG_TIMEOUT_MS },
+  );
+}
+
+// Renditions go next to the original: "proofs/<game>/<id>.jpg" -> "proofs/<game>/<id>.thumbnail.jpg"
+function renditionKey(originalKey: string, name: MediaRenditionName, extension: string): string {
+  return `${originalKey.replace(/\.[^./]+$/, "")}.${name}${extension}`;
+}
+
+async function processProof(proof: Proof): Promise<ProofMedia> {
+  const key = mediaKeyOf(proof.filePath!);
+  const contentType = proof.mimeType ?? contentTypeOf(proof.fileName) ?? "";
+  const kind = contentType.split("/")[0];
+  if (kind !== "image" && kind !== "video" && kind !== "audio") {
+    throw new Error(`Type de fichier non pris en charge : ${contentType || "inconnu"}`);
+  }
+
+  const original = await mediaStore.get(key);
+  const dir = await mkdtemp(path.join(tmpdir(), "proof-"));
+  try {
+    const input = path.join(dir, "original");
+    await writeFile(input, original);
+    const info = await probe(input);
+    const renditions: ProofMedia["renditions"] = {};
+
+    const store = async (name: MediaRenditionName, file: string, type: string) => {
+      const stored = { key: renditionKey(key, name, path.extname(file)), contentType: type };
+      await mediaStore.put(stored.key, await readFile(file), stored.contentType);
+      renditions[name] = stored;
+    };
+
+    if (kind === "audio") {
+      await renderWaveform(input, path.join(dir, "waveform.png"));
+      await store("waveform", path.join(dir, "waveform.png"), "image/png");
+      return { kind, durationSeconds: info.durationSeconds, renditions, exif: null };
+    }
+
+    // Photos are turned upright by hand; videos keep ffmpeg's own rotation
+    // and give their poster frame a second in (or halfway through a shorter clip)
+    const exif = kind === "image" ? readExif(original) : null;
+    const orientation = typeof exif?.Orientation === "number" ? exif.Orientation : 1;
+    const filters = ORIENTATION_FILTERS[orientation] ?? [];
+    const inputArgs = kind === "image"
+      ? ["-noautorotate"]
+      : ["-ss", String(Math.min(1, (info.durationSeconds ?? 0) / 2))];
+
+    for (const [name, size] of [["preview", PREVIEW_SIZE], ["thumbnail", THUMBNAIL_SIZE]] as const) {
+      await renderFrame(input, path.join(dir, `${name}.jpg`), size, filters, inputArgs);
+      await store(name, path.join(dir, `${name}.jpg`), "image/jpeg");
+    }
+
+    const sideways = orientation >= 5;
+    return {
+      kind,
+      width: sideways ? info.height : info.width,
+      height: sideways ? info.width : info.height,
+      durationSeconds: kind === "video" ? info.durationSeconds : undefined,
+      renditions,
+      exif,
+    };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Works through the uploads waiting for processing, one at a time
+export async function processPendingMedia() {
+  for (let proof = await storage.claimPendingProofMedia(); proof; proof = await storage.claimPendingProofMedia()) {
+    try {
+      const media = await processProof(proof);
+      await storage.completeProofMedia(proof.id, media);
+      publish({ type: "proof_processed", gameId: proof.gameId, proofId: proof.id });
+    } catch (error) {
+      // The original stays available to the reviewers
+      const message = error instanceof Error ? error.message : String(error);
+      await storage.failProofMedia(proof.id, message.slice(0, 500));
+      log(`proof ${proof.id}: ${message}`, "media");
+    }
+  }
+}
+
+let running = false;
+let rerun = false;
+
+// Starts on the queue now, or right after the run in progress, so an upload
+// does not wait for the next periodic check
+export function queueMediaProcessing() {
+  if (running) {
+    rerun = true;
+    return;
+  }
+  running = true;
+  processPendingMedia()
+    .catch(error => console.error("Media processing error:", error))
+    .finally(() => {
+      running = false;
+      if (rerun) {
+        rerun = false;
+        queueMediaProcessing();
+      }
+    });
+}
+
+export function startMediaProcessor() {
+  storage.requeueInterruptedProofMedia()
+    .then(count => count > 0 && log(`${count} interrupted upload(s) requeued`, "media"))
+    .catch(error => console.error("Media processing error:", error))
+    .finally(queueMediaProcessing);
+  return setInterval(queueMediaProcessing, MEDIA_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,127 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { sha256Hex, signRequest } from "./sigv4";
+import type { S3MediaStore as S3MediaStoreType } from "./media";
+
+// A MinIO-style stand-in: path-style objects in memory, and every request
+// refused unless its signature matches what the server recomputes from the
+// headers and query it actually received
+const credentials = { accessKeyId: "minio", secretAccessKey: "minio-secret", region: "us-east-1" };
+const objects = new Map<string, { body: Buffer; contentType: string }>();
+let server: Server;
+let store: S3MediaStoreType;
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+const amzDateToDate = (amzDate: string) =>
+  new Date(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, "$1-$2-$3T$4:$5:$6Z"));
+
+// Error message when the request is not signed as received, else null
+function checkSignature(req: IncomingMessage, url: URL, body: Buffer): string | null {
+  const presigned = url.searchParams.get("X-Amz-Signature");
+  if (presigned) {
+    const query = new URLSearchParams(url.searchParams);
+    query.delete("X-Amz-Signature");
+    const { signature } = signRequest(credentials, {
+      method: req.method!,
+      path: url.pathname,
+      query,
+      headers: { host: req.headers.host! },
+      payloadHash: "UNSIGNED-PAYLOAD",
+    }, amzDateToDate(query.get("X-Amz-Date")!));
+    return signature === presigned ? null : "presigned signature mismatch";
+  }
+
+  const authorization = req.headers.authorization ?? "";
+  const signedHeaders = /SignedHeaders=([^,]+)/.exec(authorization)?.[1].split(";") ?? [];
+  const payloadHash = String(req.headers["x-amz-content-sha256"]);
+  if (payloadHash !== sha256Hex(body)) return "payload hash mismatch";
+
+  const { authorization: expected } = signRequest(credentials, {
+    method: req.method!,
+    path: url.pathname,
+    headers: Object.fromEntries(signedHeaders.map(name => [name, String(req.headers[name])])),
+    payloadHash,
+  }, amzDateToDate(String(req.headers["x-amz-date"])));
+  return authorization === expected ? null : "signature mismatch";
+}
+
+before(async () => {
+  process.env.MEDIA_URL_SECRET ??= "test";
+  const { S3MediaStore } = await import("./media");
+
+  server = createServer(async (req, res) => {
+    const url = new URL(req.url!, `http://${req.headers.host}`);
+    const body = await readBody(req);
+    const error = checkSignature(req, url, body);
+    if (error) {
+      res.writeHead(403).end(error);
+      return;
+    }
+
+    const key = decodeURIComponent(url.pathname);
+    const object = objects.get(key);
+    if (req.method === "PUT") {
+      objects.set(key, { body, contentType: String(req.headers["content-type"]) });
+      res.writeHead(200).end();
+    } else if (!object) {
+      res.writeHead(404).end("NoSuchKey");
+    } else if (req.method === "GET") {
+      res.writeHead(200, { "content-type": url.searchParams.get("response-content-type") ?? object.contentType }).end(object.body);
+    } else if (req.method === "DELETE") {
+      objects.delete(key);
+      res.writeHead(204).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  store = new S3MediaStore({
+    endpoint: `http://127.0.0.1:${port}`,
+    bucket: "proofs-bucket",
+    forcePathStyle: true,
+    ...credentials,
+  });
+});
+
+after(() => {
+  server.close();
+});
+
+test("stores, reads and deletes an object with signed requests", async () => {
+  const key = "proofs/game 1/photo (1).jpg";
+  const body = Buffer.from("jpeg bytes");
+
+  await store.put(key, body, "image/jpeg");
+  assert.deepEqual(objects.get("/proofs-bucket/proofs/game 1/photo (1).jpg"), { body, contentType: "image/jpeg" });
+  assert.deepEqual(await store.get(key), body);
+
+  await store.delete(key);
+  assert.equal(objects.size, 0);
+  // Deleting what is already gone is not an error
+  await store.delete(key);
+  await assert.rejects(store.get(key), /404/);
+});
+
+test("hands out presigned URLs the stand-in accepts", async () => {
+  await store.put("proofs/g/clip.mp4", Buffer.from("mp4 bytes"), "video/mp4");
+
+  const url = store.signedUrl("proofs/g/clip.mp4", { contentType: "video/mp4", expiresIn: 300 });
+  const response = await fetch(url);
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("content-type"), "video/mp4");
+  assert.equal(await response.text(), "mp4 bytes");
+
+  const tampered = new URL(url);
+  tampered.searchParams.set("X-Amz-Expires", "999999");
+  assert.equal((await fetch(tampered)).status, 403);
+});
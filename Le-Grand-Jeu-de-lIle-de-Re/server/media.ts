@@ -0,0 +1,200 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { HttpError } from "./errors";
+import { awsEncode, presignUrl, sha256Hex, signRequest, toAmzDate } from "./sigv4";
+
+// Where proof media live. Keys are relative ("proofs/<gameId>/<uuid>.jpg");
+// browsers never see them, only short-lived signed URLs.
+export interface MediaStore {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  // URL the browser can fetch the object from until `expiresIn` seconds have passed
+  signedUrl(key: string, options: { contentType?: string; expiresIn: number }): string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "audio/mpeg": ".mp3",
+  "audio/wav": ".wav",
+  "audio/webm": ".weba",
+};
+
+export function proofMediaKey(gameId: string, id: string, contentType: string): string {
+  return `proofs/${gameId}/${id}${EXTENSIONS[contentType] ?? ""}`;
+}
+
+// Before the media store, multer's own path ("uploads/<name>") was stored
+export function mediaKeyOf(filePath: string): string {
+  return filePath.replace(/^uploads\//, "");
+}
+
+// Type of an upload recorded before mimeType was, from its original name
+export function contentTypeOf(fileName: string | null): string | undefined {
+  const extension = path.extname(fileName ?? "").toLowerCase();
+  if (extension === ".jpeg") return "image/jpeg";
+  return Object.keys(EXTENSIONS).find(type => EXTENSIONS[type] === extension);
+}
+
+// Files under a directory on this machine; signed URLs point back at
+// LOCAL_MEDIA_PATH, served by the route of the same name
+export const LOCAL_MEDIA_PATH = "/api/media/files";
+
+export class LocalMediaStore implements MediaStore {
+  constructor(private root: string, private secret: string) {}
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.root);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new HttpError(400, "Clé de fichier invalide");
+    }
+    return file;
+  }
+
+  private sign(key: string, expires: number, contentType: string): string {
+    return createHmac("sha256", this.secret).update(`${key}\n${expires}\n${contentType}`).digest("hex");
+  }
+
+  async put(key: string, body: Buffer) {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body);
+  }
+
+  async get(key: string) {
+    return await readFile(this.resolve(key));
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  signedUrl(key: string, { contentType = "", expiresIn }: { contentType?: string; expiresIn: number }) {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const query = new URLSearchParams({
+      expires: String(expires),
+      type: contentType,
+      signature: this.sign(key, expires, contentType),
+    });
+    return `${LOCAL_MEDIA_PATH}/${key.split("/").map(encodeURIComponent).join("/")}?${query}`;
+  }
+
+  // Checks a signed URL's query and returns the file to send and its type
+  verify(key: string, query: { expires?: unknown; type?: unknown; signature?: unknown }): { file: string; contentType: string } {
+    const expires = Number(query.expires);
+    const contentType = typeof query.type === "string" ? query.type : "";
+    const signature = Buffer.from(typeof query.signature === "string" ? query.signature : "", "hex");
+    const expected = Buffer.from(this.sign(key, expires, contentType), "hex");
+
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw new HttpError(403, "Lien invalide");
+    }
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      throw new HttpError(403, "Lien expiré");
+    }
+    return { file: this.resolve(key), contentType };
+  }
+}
+
+export interface S3MediaConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // MinIO and most self-hosted stand-ins only understand <endpoint>/<bucket>/<key>
+  forcePathStyle: boolean;
+}
+
+// Any S3-compatible object storage, signed with AWS Signature Version 4 so no
+// SDK is needed
+export class S3MediaStore implements MediaStore {
+  constructor(private config: S3MediaConfig) {}
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint);
+    const encodedKey = key.split("/").map(awsEncode).join("/");
+    const basePath = endpoint.pathname.replace(/\/$/, "");
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.protocol}//${endpoint.host}${basePath}/${this.config.bucket}/${encodedKey}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}${basePath}/${encodedKey}`);
+  }
+
+  private async request(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const url = this.objectUrl(key);
+    const now = new Date();
+    const payloadHash = sha256Hex(body ?? "");
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": toAmzDate(now),
+    };
+    if (contentType) headers["content-type"] = contentType;
+
+    const { authorization } = signRequest(this.config, { method, path: url.pathname, headers, payloadHash }, now);
+    // fetch sets Host from the URL itself
+    const { host: _host, ...sentHeaders } = headers;
+    const response = await fetch(url, { method, headers: { ...sentHeaders, authorization }, body });
+    if (!response.ok && !(method === "DELETE" && response.status === 404)) {
+      throw new Error(`S3 ${method} ${key} a échoué (${response.status}) : ${await response.text()}`);
+    }
+    return response;
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.request("PUT", key, body, contentType);
+  }
+
+  async get(key: string) {
+    const response = await this.request("GET", key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string) {
+    await this.request("DELETE", key);
+  }
+
+  signedUrl(key: string, { contentType, expiresIn }: { contentType?: string; expiresIn: number }) {
+    return presignUrl(this.config, this.objectUrl(key), expiresIn, new Date(),
+      contentType ? { "response-content-type": contentType } : {});
+  }
+}
+
+// MEDIA_STORE=s3 stores proofs in a bucket (S3_* variables); otherwise they
+// stay on disk under MEDIA_DIR
+function createMediaStore(): MediaStore {
+  if (process.env.MEDIA_STORE === "s3") {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error(
+        "S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set when MEDIA_STORE=s3",
+      );
+    }
+    return new S3MediaStore({
+      endpoint: S3_ENDPOINT,
+      region: S3_REGION || "us-east-1",
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      forcePathStyle: S3_FORCE_PATH_STYLE !== "false",
+    });
+  }
+
+  const secret = process.env.MEDIA_URL_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("MEDIA_URL_SECRET (or SESSION_SECRET) must be set to sign media URLs");
+  }
+  return new LocalMediaStore(process.env.MEDIA_DIR || "uploads", secret);
+}
+
+// Lifetime of the URLs handed out by /api/media/:proofId
+export const MEDIA_URL_TTL_SECONDS = parseInt(process.env.MEDIA_URL_TTL || "300", 10);
+
+export const mediaStore = createMediaStore();
@@ -0,0 +1,34 @@
+import fs from "fs/promises";
+import path from "path";
+import { pool } from "./db";
+
+// Runs the hand-written migrations in server/migrations, in file name order.
+// They move existing data where drizzle-kit push cannot (see each file), so
+// run this before `npm run db:push`; each one does nothing once applied.
+async function migrate() {
+  const dir = path.resolve(import.meta.dirname, "migrations");
+  const files = (await fs.readdir(dir)).filter(file => file.endsWith(".sql")).sort();
+
+  for (const file of files) {
+    const client = await pool.connect();
+    client.on("notice", notice => console.log(`${file}: ${notice.message}`));
+    try {
+      await client.query("begin");
+      await client.query(await fs.readFile(path.join(dir, file), "utf8"));
+      await client.query("commit");
+    } catch (error) {
+      await client.query("rollback");
+      throw new Error(`${file} failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      client.release();
+    }
+  }
+}
+
+migrate()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error(error.message);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,95 @@
+-- Moves a database created before editions existed into a first edition.
+--
+-- drizzle-kit push cannot add the NOT NULL game_id columns to tables that
+-- already hold rows, so this runs first: it creates the games and
+-- game_participants tables as shared/schema.ts declares them, adds game_id as
+-- a nullable column, puts every existing row in a default edition, enrols the
+-- existing players and only then applies NOT NULL. Push then finds these
+-- tables as it expects them and adds the rest of the schema.
+--
+-- Nothing happens on a database that already has editions, so it can be run
+-- more than once.
+DO $$
+DECLARE
+  default_game_id varchar;
+  scoped_table text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'challenges')
+     OR EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'challenges' AND column_name = 'game_id') THEN
+    RAISE NOTICE 'Editions already in place, nothing to migrate';
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'game_phase') THEN
+    CREATE TYPE game_phase AS ENUM ('setup', 'draw_published', 'running', 'judging', 'closed');
+  END IF;
+
+  CREATE TABLE IF NOT EXISTS games (
+    id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    description text,
+    is_active boolean DEFAULT false NOT NULL,
+    phase game_phase DEFAULT 'setup' NOT NULL,
+    phase_changed_at timestamp DEFAULT now() NOT NULL,
+    starts_at timestamp,
+    ends_at timestamp,
+    archived_at timestamp,
+    created_at timestamp DEFAULT now() NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS game_participants (
+    id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+    game_id varchar NOT NULL,
+    user_id varchar NOT NULL,
+    joined_at timestamp DEFAULT now() NOT NULL,
+    CONSTRAINT game_participants_game_id_user_id_unique UNIQUE (game_id, user_id),
+    CONSTRAINT game_participants_game_id_games_id_fk FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE,
+    CONSTRAINT game_participants_user_id_users_id_fk FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+
+  -- A game that already has a draw is under way
+  INSERT INTO games (name, description, is_active, phase)
+  VALUES (
+    'Grand Jeu ' || extract(year FROM now())::int,
+    'Édition reprise des données existantes',
+    true,
+    CASE WHEN EXISTS (SELECT 1 FROM assignments) THEN 'running'::game_phase ELSE 'setup'::game_phase END
+  )
+  RETURNING id INTO default_game_id;
+
+  FOREACH scoped_table IN ARRAY ARRAY['challenges', 'teams', 'assignments', 'assignment_seeds', 'proofs', 'audit_log'] LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN game_id varchar', scoped_table);
+    EXECUTE format('UPDATE %I SET game_id = $1', scoped_table) USING default_game_id;
+    EXECUTE format(
+      'ALTER TABLE %I ADD CONSTRAINT %I FOREIGN KEY (game_id) REFERENCES games(id)',
+      scoped_table, scoped_table || '_game_id_games_id_fk'
+    );
+    -- The audit log also records actions on no edition in particular
+    IF scoped_table <> 'audit_log' THEN
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN game_id SET NOT NULL', scoped_table);
+    END IF;
+  END LOOP;
+
+  -- Rules saved before they were scoped to editions become the default edition's
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'game_settings')
+     AND NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'game_settings' AND column_name = 'game_id') THEN
+    DELETE FROM game_settings WHERE id NOT IN (SELECT id FROM game_settings ORDER BY updated_at DESC LIMIT 1);
+    ALTER TABLE game_settings ADD COLUMN game_id varchar;
+    UPDATE game_settings SET game_id = default_game_id;
+    ALTER TABLE game_settings
+      ADD CONSTRAINT game_settings_game_id_games_id_fk FOREIGN KEY (game_id) REFERENCES games(id),
+      ADD CONSTRAINT game_settings_game_id_unique UNIQUE (game_id),
+      ALTER COLUMN game_id SET NOT NULL;
+  END IF;
+
+  -- Every player takes part in the default edition
+  INSERT INTO game_participants (game_id, user_id)
+  SELECT default_game_id, id FROM users WHERE NOT is_admin;
+
+  -- Seeds stored before commit–reveal were drawn as soon as they were
+  -- generated; left without drawn_at they would pass for pending commitments
+  ALTER TABLE assignment_seeds ADD COLUMN IF NOT EXISTS drawn_at timestamp;
+  UPDATE assignment_seeds SET drawn_at = generated_at WHERE drawn_at IS NULL;
+
+  RAISE NOTICE 'Existing data moved into edition %', default_game_id;
+END $$;
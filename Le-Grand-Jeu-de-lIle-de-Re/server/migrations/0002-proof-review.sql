@@ -0,0 +1,48 @@
+-- Moves proof validations to proof review.
+--
+-- Proofs used to carry is_validated, validated_by and validated_at; they now
+-- have a status (pending, approved, rejected) with reviewed_by and
+-- reviewed_at. drizzle-kit push would drop the old columns and leave every
+-- proof pending, so this adds the review columns as shared/schema.ts declares
+-- them, marks the validated proofs approved with their validator and date,
+-- and only then drops the old columns.
+--
+-- Nothing happens once the old columns are gone, so it can be run more than
+-- once.
+DO $$
+DECLARE
+  approved_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'proofs' AND column_name = 'is_validated') THEN
+    RAISE NOTICE 'Proof review already in place, nothing to migrate';
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'proof_status') THEN
+    CREATE TYPE proof_status AS ENUM ('pending', 'approved', 'rejected');
+  END IF;
+
+  ALTER TABLE proofs ADD COLUMN IF NOT EXISTS status proof_status DEFAULT 'pending' NOT NULL;
+  ALTER TABLE proofs ADD COLUMN IF NOT EXISTS review_comment text;
+  ALTER TABLE proofs ADD COLUMN IF NOT EXISTS reviewed_by varchar;
+  ALTER TABLE proofs ADD COLUMN IF NOT EXISTS reviewed_at timestamp;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'proofs_reviewed_by_users_id_fk') THEN
+    ALTER TABLE proofs
+      ADD CONSTRAINT proofs_reviewed_by_users_id_fk FOREIGN KEY (reviewed_by) REFERENCES users(id);
+  END IF;
+
+  -- Validations were never rejected: a proof not validated is still to review
+  UPDATE proofs
+  SET status = 'approved',
+      reviewed_by = validated_by,
+      reviewed_at = coalesce(validated_at, submitted_at)
+  WHERE is_validated;
+  GET DIAGNOSTICS approved_count = ROW_COUNT;
+
+  ALTER TABLE proofs
+    DROP COLUMN is_validated,
+    DROP COLUMN validated_by,
+    DROP COLUMN validated_at;
+
+  RAISE NOTICE '% validated proofs kept as approved', approved_count;
+END $$;
@@ -0,0 +1,44 @@
+import { scrypt, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+// Hash a password with a random salt, stored as "<hash>.<salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+// "<128 hex>.<32 hex>", as written by hashPassword
+const HASHED_PASSWORD = /^[0-9a-f]{128}\.[0-9a-f]{32}$/;
+
+// Accounts created before passwords were hashed still hold them in clear;
+// they are rehashed on their next login
+export function isHashedPassword(stored: string): boolean {
+  return HASHED_PASSWORD.test(stored);
+}
+
+// Compare a plain password with a stored "<hash>.<salt>" value in constant time
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  if (!isHashedPassword(stored)) {
+    const suppliedBuf = Buffer.from(supplied);
+    const storedBuf = Buffer.from(stored);
+    return stored !== "" && suppliedBuf.length === storedBuf.length && timingSafeEqual(suppliedBuf, storedBuf);
+  }
+
+  const [hashed, salt] = stored.split(".");
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Letters and digits that cannot be confused with each other when read aloud or printed
+const TEMPORARY_PASSWORD_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+// Random password handed to a new participant, who can change it once logged in
+// (POST /api/auth/password); randomInt keeps every character equally likely
+export function generateTemporaryPassword(length = 10): string {
+  return Array.from({ length }, () => TEMPORARY_PASSWORD_ALPHABET[randomInt(TEMPORARY_PASSWORD_ALPHABET.length)]).join("");
+}
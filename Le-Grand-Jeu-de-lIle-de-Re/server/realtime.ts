@@ -0,0 +1,107 @@
+import type { Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+
+declare module "express-session" {
+  interface SessionData {
+    // Written by passport.serializeUser
+    passport?: { user?: string };
+  }
+}
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: string;
+  isAdmin: boolean;
+  alive: boolean;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+const clients = new Set<RealtimeClient>();
+
+// Accepts WebSocket connections on REALTIME_PATH for logged-in users, using
+// the same session cookie as the REST API. Other upgrades (Vite HMR in
+// development) are left to their own handlers.
+export function setupRealtime(httpServer: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as Request).session?.passport?.user;
+        const user = userId ? await storage.getUser(userId) : undefined;
+        if (!user) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          const client: RealtimeClient = { socket: ws, userId: user.id, isAdmin: user.isAdmin, alive: true };
+          clients.add(client);
+          ws.on("pong", () => { client.alive = true; });
+          ws.on("close", () => clients.delete(client));
+        });
+      } catch (error) {
+        console.error("WebSocket upgrade error:", error);
+        socket.destroy();
+      }
+    });
+  });
+
+  // Drop connections that stopped answering (closed laptops, lost mobile networks)
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  httpServer.on("close", () => clearInterval(heartbeat));
+}
+
+// Admins receive every event; players only those of the active edition that
+// concern everyone or themselves
+function isRecipient(client: RealtimeClient, event: RealtimeEvent, activeGameId: string | undefined): boolean {
+  if (client.isAdmin) return true;
+  if (event.gameId !== activeGameId) return false;
+
+  switch (event.type) {
+    case "proof_submitted":
+    case "proof_processed":
+      return false;
+    case "proof_reviewed":
+    case "assignment_updated":
+      return event.userId === client.userId;
+    default:
+      return true;
+  }
+}
+
+async function broadcast(events: RealtimeEvent[]) {
+  if (clients.size === 0) return;
+
+  const activeGame = await storage.getActiveGame();
+  for (const event of events) {
+    const payload = JSON.stringify(event);
+    for (const client of Array.from(clients)) {
+      if (client.socket.readyState === WebSocket.OPEN && isRecipient(client, event, activeGame?.id)) {
+        client.socket.send(payload);
+      }
+    }
+  }
+}
+
+// Fire and forget: a failed push must never fail the request that caused it
+export function publish(...events: RealtimeEvent[]) {
+  broadcast(events).catch(error => console.error("Realtime publish error:", error));
+}
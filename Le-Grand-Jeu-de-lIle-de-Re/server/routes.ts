@@ -1,14 +1,51 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, toPublicUser } from "./storage";
+import { setupAuth } from "./auth";
+import { ensureActiveGame, requirePhase, resolveGame } from "./games";
+import { generateTemporaryPassword } from "./passwords";
+import { publish, setupRealtime } from "./realtime";
+import { HttpError } from "./errors";
+import { CHALLENGE_FILE_TYPES, parseChallengeFile, serializeChallenges } from "./challenge-files";
+import { parseCsv } from "./csv";
+import {
+  LOCAL_MEDIA_PATH,
+  LocalMediaStore,
+  MEDIA_URL_TTL_SECONDS,
+  contentTypeOf,
+  mediaKeyOf,
+  mediaStore,
+  proofMediaKey,
+} from "./media";
+import { queueMediaProcessing } from "./media-processing";
+import { readExif } from "./exif";
 import multer from "multer";
-import path from "path";
+import { randomUUID } from "crypto";
 import { z } from "zod";
-import { insertProofSchema, insertAuditLogSchema, insertChallengeSchema } from "@shared/schema";
+import {
+  insertProofSchema,
+  proofReviewSchema,
+  insertAuditLogSchema,
+  gamePhaseEnum,
+  challengeStatusEnum,
+  insertChallengeSchema,
+  updateChallengeSchema,
+  createIdentificationMissionSchema,
+  updateIdentificationMissionSchema,
+  insertTeamConstraintSchema,
+  insertGameSchema,
+  gameScheduleSchema,
+  updateGameSettingsSchema,
+  createUserSchema,
+} from "@shared/schema";
+import { CHALLENGE_FILE_FORMATS, challengeImportSchema } from "@shared/challenge-import";
+import { credentialsResetSchema, participantImportSchema } from "@shared/participant-import";
+import { MEDIA_RENDITIONS } from "@shared/proof-media";
+import { captureFromExif } from "@shared/proof-checks";
 
-// Configure multer for file uploads
+// Uploads are kept in memory until they are written to the media store
 const upload = multer({
-  dest: 'uploads/',
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
@@ -27,49 +64,243 @@ const upload = multer({
   }
 });
 
+const drawExpectationSchema = z.object({
+  seedHash: z.string(),
+  inputFingerprint: z.string(),
+});
+
+const drawOptionsSchema = z.object({
+  challengeReuse: z.object({
+    allowReuse: z.boolean(),
+    maxPlayersPerChallenge: z.number().int().positive().nullable(),
+    maxTeamsPerChallenge: z.number().int().positive().nullable(),
+  }).optional(),
+});
+
+// Regenerating a running game must say why; the reason goes to the audit log
+const regenerationOverrideSchema = z.object({
+  reason: z.string().trim().min(1),
+});
+
+const assignmentStatusSchema = z.object({
+  status: z.enum(challengeStatusEnum.enumValues),
+});
+
+const gamePhaseSchema = z.object({
+  phase: z.enum(gamePhaseEnum.enumValues),
+});
+
+// Authorization middleware. The acting user always comes from the session,
+// never from the request body.
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentification requise" });
+  }
+  next();
+}
+
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentification requise" });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: "Accès réservé aux administrateurs" });
+  }
+  next();
+}
+
+// Players may only read resources keyed by their own user id
+function requireSelfOrAdmin(param: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentification requise" });
+    }
+    if (!req.user.isAdmin && req.params[param] !== req.user.id) {
+      return res.status(403).json({ message: "Accès refusé" });
+    }
+    next();
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // User routes
-  app.get("/api/user/:id", async (req, res) => {
+  // Sessions, passport and /api/auth/* routes
+  const sessionMiddleware = await setupAuth(app);
+
+  // Every game-scoped route below works on req.gameId
+  await ensureActiveGame();
+  app.use("/api", resolveGame);
+
+  // Edition routes
+  app.get("/api/games", requireAdmin, async (req, res) => {
+    try {
+      const games = await storage.getGames();
+      res.json(games);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Edition the current user is looking at (the active one for players)
+  app.get("/api/games/current", requireAuth, async (req, res) => {
+    try {
+      const game = await storage.getGame(req.gameId!);
+      res.json(game);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/games", requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertGameSchema.parse(req.body);
+      const copyFromGameId = typeof req.body.copyFromGameId === "string" ? req.body.copyFromGameId : undefined;
+      const game = await storage.createGame(validatedData, copyFromGameId);
+
+      await storage.createAuditLogEntry({
+        action: 'create_game',
+        gameId: game.id,
+        adminId: req.user!.id,
+        details: `Édition « ${game.name} » créée`,
+        metadata: { copyFromGameId },
+      });
+
+      res.json(game);
+    } catch (error) {
+      res.status(400).json({ message: "Données d'édition invalides" });
+    }
+  });
+
+  // Switch the edition players see
+  app.post("/api/games/:id/activate", requireAdmin, async (req, res) => {
+    try {
+      const game = await storage.activateGame(req.params.id);
+      await storage.createAuditLogEntry({
+        action: 'activate_game',
+        gameId: game.id,
+        adminId: req.user!.id,
+        details: `Édition « ${game.name} » activée`,
+      });
+      res.json(game);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(500).json({ message: "Erreur lors de l'activation" });
+    }
+  });
+
+  app.post("/api/games/:id/archive", requireAdmin, async (req, res) => {
+    try {
+      const game = await storage.archiveGame(req.params.id);
+      await storage.createAuditLogEntry({
+        action: 'archive_game',
+        gameId: game.id,
+        adminId: req.user!.id,
+        details: `Édition « ${game.name} » archivée`,
+      });
+      res.json(game);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(500).json({ message: "Erreur lors de l'archivage" });
+    }
+  });
+
+  // Manual phase change; timed ones are applied by the scheduler
+  app.post("/api/games/:id/phase", requireAdmin, async (req, res) => {
+    try {
+      const { phase } = gamePhaseSchema.parse(req.body);
+      const game = await storage.changeGamePhase(req.params.id, phase, req.user!.id);
+      publish({ type: "phase_changed", gameId: game.id });
+      res.json(game);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Phase invalide" });
+      }
+      res.status(500).json({ message: "Erreur lors du changement de phase" });
+    }
+  });
+
+  app.put("/api/games/:id/schedule", requireAdmin, async (req, res) => {
+    try {
+      const schedule = gameScheduleSchema.parse(req.body);
+      const game = await storage.scheduleGame(req.params.id, schedule, req.user!.id);
+      res.json(game);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Calendrier invalide" });
+      }
+      res.status(500).json({ message: "Erreur lors de la mise à jour du calendrier" });
+    }
+  });
+
+  // Admin pages then work on this edition, without changing what players see
+  app.post("/api/games/:id/select", requireAdmin, async (req, res) => {
+    try {
+      const game = await storage.getGame(req.params.id);
+      if (!game) {
+        return res.status(404).json({ message: "Édition non trouvée" });
+      }
+      req.session.gameId = game.id;
+      res.json(game);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // User routes: a profile holds contact details, so only admins and its owner read it
+  app.get("/api/user/:id", requireSelfOrAdmin("id"), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
         return res.status(404).json({ message: "Utilisateur non trouvé" });
       }
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       res.status(500).json({ message: "Erreur serveur" });
     }
   });
 
-  app.get("/api/users", async (req, res) => {
+  app.get("/api/users", requireAdmin, async (req, res) => {
     try {
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(users.map(toPublicUser));
     } catch (error) {
       res.status(500).json({ message: "Erreur serveur" });
     }
   });
 
-  app.post("/api/users", async (req, res) => {
+  // New participants join the edition being worked on; without a password a
+  // temporary one is generated and returned once
+  app.post("/api/users", requireAdmin, async (req, res) => {
     try {
-      const { username, password, displayName, isAdmin = false } = req.body;
-      if (!username || !password || !displayName) {
-        return res.status(400).json({ message: "Tous les champs sont requis" });
-      }
+      const { password, ...account } = createUserSchema.parse(req.body);
+      const initialPassword = password ?? generateTemporaryPassword();
 
       const user = await storage.createUser({
-        username,
-        password, // In real app, this would be hashed
-        displayName,
-        isAdmin,
+        ...account,
+        password: initialPassword, // hashed by storage.createUser
       });
-      res.json(user);
+      if (!user.isAdmin) {
+        await storage.addParticipant(req.gameId!, user.id);
+      }
+      res.json({ ...toPublicUser(user), temporaryPassword: password === undefined ? initialPassword : undefined });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Données invalides" });
+      }
       res.status(500).json({ message: "Erreur lors de la création de l'utilisateur" });
     }
   });
 
-  app.delete("/api/users/:id", async (req, res) => {
+  app.delete("/api/users/:id", requireAdmin, async (req, res) => {
     try {
       await storage.deleteUser(req.params.id);
       res.json({ message: "Utilisateur supprimé avec succès" });
@@ -78,10 +309,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Challenge routes
-  app.get("/api/challenges", async (req, res) => {
+  // Participant routes (users enrolled in the edition)
+  app.get("/api/participants", requireAdmin, async (req, res) => {
     try {
-      const challenges = await storage.getAllChallenges();
+      const participants = await storage.getParticipants(req.gameId!);
+      res.json(participants);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Enrol an existing account, e.g. a player from last year's edition
+  app.post("/api/participants", requireAdmin, async (req, res) => {
+    try {
+      const user = typeof req.body.userId === "string" ? await storage.getUser(req.body.userId) : undefined;
+      if (!user || user.isAdmin) {
+        return res.status(400).json({ message: "Participant invalide" });
+      }
+      await storage.addParticipant(req.gameId!, user.id);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de l'inscription" });
+    }
+  });
+
+  // CSV with displayName, username, email, phone, together, apart columns
+  app.post("/api/participants/import/preview", requireAdmin, async (req, res) => {
+    try {
+      const { content } = participantImportSchema.parse(req.body);
+      const { records } = parseCsv(content);
+      const plan = await storage.previewParticipantImport(req.gameId!, records.map(({ line, data }) => ({ row: line, data })));
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Fichier d'import invalide" });
+      }
+      console.error('Error previewing participant import:', error);
+      res.status(500).json({ message: "Erreur lors de l'analyse du fichier" });
+    }
+  });
+
+  // Returns the generated passwords once, for the login cards
+  app.post("/api/participants/import", requireAdmin, async (req, res) => {
+    try {
+      const { content } = participantImportSchema.parse(req.body);
+      const { records } = parseCsv(content);
+      const result = await storage.importParticipants(
+        req.gameId!,
+        records.map(({ line, data }) => ({ row: line, data })),
+        req.user!.id,
+      );
+      res.json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Fichier d'import invalide" });
+      }
+      console.error('Error importing participants:', error);
+      res.status(500).json({ message: "Erreur lors de l'import" });
+    }
+  });
+
+  // Replaces the passwords of the given participants, e.g. to reprint lost cards
+  app.post("/api/participants/credentials", requireAdmin, async (req, res) => {
+    try {
+      const { userIds } = credentialsResetSchema.parse(req.body);
+      const credentials = await storage.resetCredentials(req.gameId!, userIds, req.user!.id);
+      res.json(credentials);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Sélection invalide" });
+      }
+      res.status(500).json({ message: "Erreur lors de la génération des identifiants" });
+    }
+  });
+
+  app.delete("/api/participants/:userId", requireAdmin, async (req, res) => {
+    try {
+      await storage.removeParticipant(req.gameId!, req.params.userId);
+      res.json({ message: "Participant retiré de l'édition" });
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors du retrait" });
+    }
+  });
+
+  // Challenge routes; the bank shows archived challenges too
+  app.get("/api/challenges", requireAdmin, async (req, res) => {
+    try {
+      const challenges = await storage.getAllChallenges(req.gameId!, { includeArchived: true });
       res.json(challenges);
     } catch (error) {
       res.status(500).json({ message: "Erreur serveur" });
@@ -89,38 +412,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Assignment routes
-  app.get("/api/assignments/:userId", async (req, res) => {
+  app.get("/api/assignments/:userId", requireSelfOrAdmin("userId"), async (req, res) => {
     try {
-      const assignments = await storage.getAssignmentsByUserId(req.params.userId);
+      const assignments = await storage.getAssignmentsByUserId(req.gameId!, req.params.userId);
       res.json(assignments);
     } catch (error) {
       res.status(500).json({ message: "Erreur serveur" });
     }
   });
 
-  app.post("/api/assignments/generate", async (req, res) => {
+  // Dry run: same draw as /generate, nothing is written
+  app.post("/api/assignments/preview", requireAdmin, async (req, res) => {
     try {
-      const { adminId } = req.body;
-      if (!adminId) {
-        return res.status(400).json({ message: "ID administrateur requis" });
+      const options = drawOptionsSchema.parse(req.body ?? {});
+      const preview = await storage.previewAssignments(req.gameId!, options);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Options de tirage invalides" });
       }
+      console.error('Error previewing assignments:', error);
+      res.status(500).json({ message: "Erreur lors de l'aperçu du tirage" });
+    }
+  });
 
-      const seedRecord = await storage.generateAssignments(adminId);
+  app.post("/api/assignments/generate", requireAdmin, async (req, res) => {
+    try {
+      // When committing a preview, both values must still match the current draw
+      const expected = drawExpectationSchema.optional().parse(
+        req.body?.seedHash ? req.body : undefined,
+      );
+      const options = drawOptionsSchema.parse(req.body ?? {});
+      const override = regenerationOverrideSchema.optional().parse(req.body?.override);
+      const seedRecord = await storage.generateAssignments(req.gameId!, req.user!.id, expected, options, override?.reason);
+      publish(
+        { type: "draw_generated", gameId: req.gameId! },
+        { type: "leaderboard_changed", gameId: req.gameId! },
+      );
       res.json({ 
         message: "Assignations générées avec succès",
         seedHash: seedRecord.seedHash,
         participantCount: seedRecord.participantCount
       });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Options de tirage invalides" });
+      }
       console.error('Error generating assignments:', error);
       res.status(500).json({ message: "Erreur lors de la génération des assignations" });
     }
   });
 
+  // Individual, team and overall rankings of the edition
+  app.get("/api/leaderboard", requireAuth, async (req, res) => {
+    try {
+      const leaderboard = await storage.getLeaderboard(req.gameId!);
+      res.json(leaderboard);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Per-player "times targeted" counts of the stored draw
+  app.get("/api/targets", requireAdmin, async (req, res) => {
+    try {
+      const counts = await storage.getTargetCounts(req.gameId!);
+      res.json(counts);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
   // Team routes
-  app.get("/api/team/:userId", async (req, res) => {
+  app.get("/api/team/:userId", requireSelfOrAdmin("userId"), async (req, res) => {
     try {
-      const team = await storage.getTeamByUserId(req.params.userId);
+      const team = await storage.getTeamByUserId(req.gameId!, req.params.userId);
       if (!team) {
         return res.status(404).json({ message: "Équipe non trouvée" });
       }
@@ -130,59 +502,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/team/:teamId/validate-mission", async (req, res) => {
+  // Team constraint routes (must / must not be together)
+  app.get("/api/team-constraints", requireAdmin, async (req, res) => {
     try {
-      const { teamId } = req.params;
-      const { adminId } = req.body;
+      const constraints = await storage.getTeamConstraints(req.gameId!);
+      res.json(constraints);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
 
-      await storage.validateTeamMission(teamId);
-      
-      // Log audit entry
-      await storage.createAuditLogEntry({
-        action: 'validate_team_mission',
-        adminId,
-        details: `Mission d'identification validée pour l'équipe ${teamId}`,
-      });
+  // Infeasible constraints are reported here before anyone tries to draw
+  app.get("/api/team-constraints/check", requireAdmin, async (req, res) => {
+    try {
+      const issues = await storage.checkTeamConstraints(req.gameId!);
+      res.json({ feasible: issues.length === 0, issues });
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
 
-      res.json({ message: "Mission d'équipe validée avec succès" });
+  app.post("/api/team-constraints", requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertTeamConstraintSchema.parse(req.body);
+      const constraint = await storage.createTeamConstraint(req.gameId!, validatedData);
+      res.json(constraint);
     } catch (error) {
-      res.status(500).json({ message: "Erreur lors de la validation" });
+      res.status(400).json({ message: "Contrainte d'équipe invalide" });
+    }
+  });
+
+  app.delete("/api/team-constraints/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteTeamConstraint(req.gameId!, req.params.id);
+      res.json({ message: "Contrainte supprimée avec succès" });
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la suppression" });
     }
   });
 
   // Proof routes
-  app.post("/api/proofs", upload.single('file'), async (req, res) => {
+  app.post("/api/proofs", requireAuth, requirePhase("submit_proof"), upload.single('file'), async (req, res) => {
     try {
+      const file = req.file;
       const proofData = JSON.parse(req.body.proofData || '{}');
-      const schema = insertProofSchema.extend({
+      // Players cannot mark their own proof as validated, nor point it at a stored file
+      const schema = insertProofSchema.omit({
+        status: true,
+        reviewComment: true,
+        reviewedBy: true,
+        filePath: true,
+        mimeType: true,
+        mediaStatus: true,
+        mediaError: true,
+      }).extend({
         metadata: z.any().optional(),
       });
 
       const validatedData = schema.parse({
         ...proofData,
-        fileName: req.file?.originalname,
-        filePath: req.file?.path,
+        userId: req.user!.id,
+        fileName: file?.originalname,
       });
 
-      const proof = await storage.createProof(validatedData);
+      if (validatedData.assignmentId) {
+        const assignment = await storage.getAssignment(validatedData.assignmentId);
+        if (!assignment || assignment.userId !== req.user!.id || assignment.gameId !== req.gameId) {
+          return res.status(403).json({ message: "Ce défi ne vous est pas assigné" });
+        }
+      }
+      if (validatedData.teamId && !(await storage.isTeamMember(req.gameId!, validatedData.teamId, req.user!.id))) {
+        return res.status(403).json({ message: "Vous ne faites pas partie de cette équipe" });
+      }
+
+      // Stored once the proof is known to be acceptable, and removed if it cannot be saved
+      const mediaKey = file ? proofMediaKey(req.gameId!, randomUUID(), file.mimetype) : undefined;
+      if (file && mediaKey) {
+        await mediaStore.put(mediaKey, file.buffer, file.mimetype);
+      }
+      // When and where the photo was taken, from the file rather than the browser
+      const capture = file?.mimetype.startsWith("image/") ? captureFromExif(readExif(file.buffer)) : null;
+      const proof = await storage
+        .createProof(req.gameId!, {
+          ...validatedData,
+          filePath: mediaKey,
+          mimeType: file?.mimetype,
+          mediaStatus: file ? "pending" : undefined,
+        }, capture)
+        .catch(async (error) => {
+          if (mediaKey) await mediaStore.delete(mediaKey).catch(() => undefined);
+          throw error;
+        });
+      if (file) queueMediaProcessing();
+      publish({ type: "proof_submitted", gameId: req.gameId!, proofId: proof.id });
       res.json(proof);
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
       console.error('Error creating proof:', error);
       res.status(400).json({ message: "Erreur lors de la soumission de la preuve" });
     }
   });
 
-  app.get("/api/proofs/assignment/:assignmentId", async (req, res) => {
+  app.get("/api/proofs/assignment/:assignmentId", requireAuth, async (req, res) => {
     try {
-      const proofs = await storage.getProofsByAssignmentId(req.params.assignmentId);
+      const assignment = await storage.getAssignment(req.params.assignmentId);
+      if (!assignment || assignment.gameId !== req.gameId) {
+        return res.status(404).json({ message: "Assignation non trouvée" });
+      }
+      if (!req.user!.isAdmin && assignment.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Accès refusé" });
+      }
+
+      const proofs = await storage.getProofsByAssignmentId(assignment.id);
       res.json(proofs);
     } catch (error) {
       res.status(500).json({ message: "Erreur serveur" });
     }
   });
 
-  app.get("/api/proofs/team/:teamId", async (req, res) => {
+  app.get("/api/proofs/team/:teamId", requireAuth, async (req, res) => {
     try {
+      if (!req.user!.isAdmin && !(await storage.isTeamMember(req.gameId!, req.params.teamId, req.user!.id))) {
+        return res.status(403).json({ message: "Accès refusé" });
+      }
+
       const proofs = await storage.getProofsByTeamId(req.params.teamId);
       res.json(proofs);
     } catch (error) {
@@ -190,31 +635,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/proofs/:proofId/validate", async (req, res) => {
+  // Moderation queue: proofs nobody has approved or rejected yet
+  app.get("/api/proofs/pending", requireAdmin, async (req, res) => {
+    try {
+      const pending = await storage.getPendingProofs(req.gameId!);
+      res.json(pending);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Uploaded media of a proof, for its author, their team and the admins:
+  // redirects to a signed URL of the media store that soon expires.
+  // ?rendition=thumbnail|preview|waveform asks for a processed version instead
+  app.get("/api/media/:proofId", requireAuth, async (req, res) => {
     try {
-      const { validatorId } = req.body;
-      await storage.validateProof(req.params.proofId, validatorId);
-      res.json({ message: "Preuve validée avec succès" });
+      const rendition = z.enum(MEDIA_RENDITIONS).optional().parse(req.query.rendition);
+      const proof = await storage.getProof(req.gameId!, req.params.proofId);
+      if (!proof || !proof.filePath) {
+        return res.status(404).json({ message: "Fichier non trouvé" });
+      }
+      const user = req.user!;
+      const submitterTeam = user.isAdmin || proof.userId === user.id
+        ? undefined
+        : await storage.getTeamByUserId(req.gameId!, proof.userId);
+      const allowed = user.isAdmin
+        || proof.userId === user.id
+        || !!submitterTeam?.members.some(member => member.userId === user.id)
+        || (!!proof.teamId && await storage.isTeamMember(req.gameId!, proof.teamId, user.id));
+      if (!allowed) {
+        return res.status(403).json({ message: "Accès refusé" });
+      }
+
+      const derived = rendition ? proof.media?.renditions[rendition] : undefined;
+      if (rendition && !derived) {
+        return res.status(404).json({ message: "Aperçu non disponible" });
+      }
+      const url = derived
+        ? mediaStore.signedUrl(derived.key, { contentType: derived.contentType, expiresIn: MEDIA_URL_TTL_SECONDS })
+        : mediaStore.signedUrl(mediaKeyOf(proof.filePath), {
+          contentType: proof.mimeType ?? contentTypeOf(proof.fileName),
+          expiresIn: MEDIA_URL_TTL_SECONDS,
+        });
+      res.set("Cache-Control", "private, no-store");
+      res.redirect(url);
     } catch (error) {
-      res.status(500).json({ message: "Erreur lors de la validation" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Aperçu inconnu" });
+      }
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Signed URLs of the local media store; the signature stands in for the session
+  app.get(`${LOCAL_MEDIA_PATH}/*`, async (req, res) => {
+    if (!(mediaStore instanceof LocalMediaStore)) {
+      return res.status(404).json({ message: "Fichier non trouvé" });
+    }
+    try {
+      const key = decodeURIComponent(req.path.slice(LOCAL_MEDIA_PATH.length + 1));
+      const { file, contentType } = mediaStore.verify(key, req.query);
+      if (contentType) res.type(contentType);
+      res.sendFile(file, (error) => {
+        if (error && !res.headersSent) res.status(404).json({ message: "Fichier non trouvé" });
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/proofs/:proofId/review", requireAdmin, requirePhase("validate_proof"), async (req, res) => {
+    try {
+      const review = proofReviewSchema.parse(req.body);
+      const { proof, effects } = await storage.reviewProof(req.gameId!, req.params.proofId, review, req.user!.id);
+
+      publish({ type: "proof_reviewed", gameId: req.gameId!, proofId: proof.id, userId: proof.userId, decision: review.decision });
+      for (const effect of effects) {
+        publish(
+          effect.kind === "validate_team_mission" ? { type: "team_revealed", gameId: req.gameId!, teamId: effect.teamId }
+          : effect.kind === "validate_team_challenge" ? { type: "team_challenge_validated", gameId: req.gameId!, teamId: effect.teamId }
+          : { type: "assignment_updated", gameId: req.gameId!, userId: proof.userId },
+        );
+      }
+      if (effects.length > 0) {
+        publish({ type: "leaderboard_changed", gameId: req.gameId! });
+      }
+
+      res.json(proof);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Décision invalide" });
+      }
+      res.status(500).json({ message: "Erreur lors de l'examen de la preuve" });
+    }
+  });
+
+  // Notifications of the logged-in player
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const list = await storage.getNotifications(req.gameId!, req.user!.id);
+      res.json(list);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/notifications/read", requireAuth, async (req, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.gameId!, req.user!.id);
+      res.json({ message: "Notifications lues" });
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      await storage.markNotificationRead(req.user!.id, req.params.id);
+      res.json({ message: "Notification lue" });
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
     }
   });
 
   // Assignment status updates
-  app.patch("/api/assignments/:assignmentId/status", async (req, res) => {
+  app.patch("/api/assignments/:assignmentId/status", requireAuth, requirePhase("update_assignment_status"), async (req, res) => {
     try {
-      const { status } = req.body;
-      await storage.updateAssignmentStatus(req.params.assignmentId, status);
-      res.json({ message: "Statut mis à jour avec succès" });
+      const { status } = assignmentStatusSchema.parse(req.body);
+      const assignment = await storage.getAssignment(req.params.assignmentId);
+      if (!assignment || assignment.gameId !== req.gameId) {
+        return res.status(404).json({ message: "Assignation non trouvée" });
+      }
+      if (!req.user!.isAdmin && assignment.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Accès refusé" });
+      }
+
+      const updated = await storage.updateAssignmentStatus(assignment, status, req.user!);
+      publish({ type: "assignment_updated", gameId: assignment.gameId, userId: assignment.userId });
+      if (status === "validated" || assignment.status === "validated") {
+        publish({ type: "leaderboard_changed", gameId: assignment.gameId });
+      }
+      res.json(updated);
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Statut invalide" });
+      }
       res.status(500).json({ message: "Erreur lors de la mise à jour" });
     }
   });
 
-  // Seed verification routes
-  app.get("/api/seed/current", async (req, res) => {
+  // Seed routes (commit–reveal)
+  app.post("/api/seed/commit", requireAdmin, async (req, res) => {
     try {
-      const seed = await storage.getCurrentSeed();
+      const seed = await storage.commitSeed(req.gameId!, req.user!.id);
+      res.json({
+        seedHash: seed.seedHash,
+        generatedAt: seed.generatedAt,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error committing seed:', error);
+      res.status(500).json({ message: "Erreur lors de la publication du seed" });
+    }
+  });
+
+  // Hash published before the draw, so players can note it down
+  app.get("/api/seed/commitment", requireAuth, async (req, res) => {
+    try {
+      const seed = await storage.getPendingCommitment(req.gameId!);
+      if (!seed) {
+        return res.status(404).json({ message: "Aucune empreinte en attente" });
+      }
+      res.json({
+        seedHash: seed.seedHash,
+        generatedAt: seed.generatedAt,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.get("/api/seed/current", requireAuth, async (req, res) => {
+    try {
+      const seed = await storage.getCurrentSeed(req.gameId!);
       if (!seed) {
         return res.status(404).json({ message: "Aucun seed actif" });
       }
@@ -222,16 +836,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         seedHash: seed.seedHash,
         participantCount: seed.participantCount,
         generatedAt: seed.generatedAt,
+        drawnAt: seed.drawnAt,
+        revealedAt: seed.revealedAt,
       });
     } catch (error) {
       res.status(500).json({ message: "Erreur serveur" });
     }
   });
 
-  app.post("/api/seed/verify", async (req, res) => {
+  app.post("/api/seed/reveal", requireAdmin, requirePhase("reveal_seed"), async (req, res) => {
     try {
-      const { seedHash } = req.body;
-      const isValid = await storage.verifySeed(seedHash);
+      const seed = await storage.revealSeed(req.gameId!, req.user!.id);
+      res.json({
+        seedHash: seed.seedHash,
+        revealedAt: seed.revealedAt,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(500).json({ message: "Erreur lors de la révélation du seed" });
+    }
+  });
+
+  // Seed, draw inputs and stored draw, available once the seed is revealed
+  app.get("/api/seed/reveal", requireAuth, async (req, res) => {
+    try {
+      const revealed = await storage.getRevealedDraw(req.gameId!);
+      if (!revealed) {
+        return res.status(404).json({ message: "Le seed n'a pas encore été révélé" });
+      }
+      res.json(revealed);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/seed/verify", requireAuth, async (req, res) => {
+    try {
+      const { seed } = req.body;
+      if (typeof seed !== "string") {
+        return res.status(400).json({ message: "Seed requis" });
+      }
+      const isValid = await storage.verifySeed(seed);
       res.json({ isValid });
     } catch (error) {
       res.status(500).json({ message: "Erreur lors de la vérification" });
@@ -239,20 +886,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Audit routes
-  app.get("/api/audit", async (req, res) => {
+  app.get("/api/audit", requireAuth, async (req, res) => {
     try {
-      const auditEntries = await storage.getAuditLog();
+      const auditEntries = await storage.getAuditLog(req.gameId!);
       res.json(auditEntries);
     } catch (error) {
       res.status(500).json({ message: "Erreur serveur" });
     }
   });
 
-  app.post("/api/challenges", async (req, res) => {
+  // Game rules: read by every page, edited by admins
+  app.get("/api/settings", requireAuth, async (req, res) => {
+    try {
+      const settings = await storage.getGameSettings(req.gameId!);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.patch("/api/settings", requireAdmin, async (req, res) => {
+    try {
+      const changes = updateGameSettingsSchema.parse(req.body);
+      const settings = await storage.updateGameSettings(req.gameId!, changes, req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      console.error('Error updating settings:', error);
+      res.status(400).json({ message: "Paramètres invalides" });
+    }
+  });
+
+  app.post("/api/challenges", requireAdmin, async (req, res) => {
     try {
       const schema = insertChallengeSchema;
       const validatedData = schema.parse(req.body);
-      const challenge = await storage.createChallenge(validatedData);
+      const challenge = await storage.createChallenge(req.gameId!, validatedData, req.user!.id);
       res.json(challenge);
     } catch (error) {
       console.error('Error creating challenge:', error);
@@ -260,10 +931,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/audit", async (req, res) => {
+  app.put("/api/challenges/:id", requireAdmin, async (req, res) => {
+    try {
+      const changes = updateChallengeSchema.parse(req.body);
+      const challenge = await storage.updateChallenge(req.gameId!, req.params.id, changes, req.user!.id);
+      res.json(challenge);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données de défi invalides" });
+      }
+      console.error('Error updating challenge:', error);
+      res.status(500).json({ message: "Erreur lors de la modification du défi" });
+    }
+  });
+
+  app.post("/api/challenges/:id/archive", requireAdmin, async (req, res) => {
+    try {
+      const challenge = await storage.setChallengeActive(req.gameId!, req.params.id, false);
+      res.json(challenge);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(500).json({ message: "Erreur lors de l'archivage du défi" });
+    }
+  });
+
+  app.post("/api/challenges/:id/restore", requireAdmin, async (req, res) => {
+    try {
+      const challenge = await storage.setChallengeActive(req.gameId!, req.params.id, true);
+      res.json(challenge);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(500).json({ message: "Erreur lors de la restauration du défi" });
+    }
+  });
+
+  app.delete("/api/challenges/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteChallenge(req.gameId!, req.params.id);
+      res.json({ message: "Défi supprimé" });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(500).json({ message: "Erreur lors de la suppression" });
+    }
+  });
+
+  // The whole bank, archived challenges included, to maintain in a spreadsheet
+  app.get("/api/challenges/export", requireAdmin, async (req, res) => {
+    try {
+      const format = z.enum(CHALLENGE_FILE_FORMATS).parse(req.query.format ?? "csv");
+      const challenges = await storage.getAllChallenges(req.gameId!, { includeArchived: true });
+      res.type(CHALLENGE_FILE_TYPES[format]);
+      res.attachment(`defis.${format}`);
+      res.send(serializeChallenges(format, challenges));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Format d'export invalide" });
+      }
+      res.status(500).json({ message: "Erreur lors de l'export" });
+    }
+  });
+
+  // What an import would add, change or skip, without writing anything
+  app.post("/api/challenges/import/preview", requireAdmin, async (req, res) => {
+    try {
+      const { format, content } = challengeImportSchema.parse(req.body);
+      const plan = await storage.previewChallengeImport(req.gameId!, parseChallengeFile(format, content));
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Fichier d'import invalide" });
+      }
+      console.error('Error previewing challenge import:', error);
+      res.status(500).json({ message: "Erreur lors de l'analyse du fichier" });
+    }
+  });
+
+  app.post("/api/challenges/import", requireAdmin, async (req, res) => {
+    try {
+      const { format, content } = challengeImportSchema.parse(req.body);
+      const plan = await storage.importChallenges(req.gameId!, parseChallengeFile(format, content), req.user!.id);
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Fichier d'import invalide" });
+      }
+      console.error('Error importing challenges:', error);
+      res.status(500).json({ message: "Erreur lors de l'import" });
+    }
+  });
+
+  app.get("/api/challenges/:id/versions", requireAdmin, async (req, res) => {
+    try {
+      const versions = await storage.getChallengeVersions(req.gameId!, req.params.id);
+      res.json(versions);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Identification mission routes; archived missions are listed but not drawn
+  app.get("/api/identification-missions", requireAdmin, async (req, res) => {
+    try {
+      const missions = await storage.getIdentificationMissions(req.gameId!);
+      res.json(missions);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/identification-missions", requireAdmin, async (req, res) => {
+    try {
+      const mission = createIdentificationMissionSchema.parse(req.body);
+      res.json(await storage.createIdentificationMission(req.gameId!, mission));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Données de mission invalides" });
+      }
+      console.error('Error creating identification mission:', error);
+      res.status(500).json({ message: "Erreur lors de la création de la mission" });
+    }
+  });
+
+  app.post("/api/identification-missions/defaults", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.addDefaultIdentificationMissions(req.gameId!));
+    } catch (error) {
+      console.error('Error adding default missions:', error);
+      res.status(500).json({ message: "Erreur lors de l'ajout des missions" });
+    }
+  });
+
+  app.put("/api/identification-missions/:id", requireAdmin, async (req, res) => {
+    try {
+      const changes = updateIdentificationMissionSchema.parse(req.body);
+      res.json(await storage.updateIdentificationMission(req.gameId!, req.params.id, changes));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Données de mission invalides" });
+      }
+      console.error('Error updating identification mission:', error);
+      res.status(500).json({ message: "Erreur lors de la modification de la mission" });
+    }
+  });
+
+  app.delete("/api/identification-missions/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteIdentificationMission(req.gameId!, req.params.id);
+      res.json({ message: "Mission supprimée" });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(500).json({ message: "Erreur lors de la suppression" });
+    }
+  });
+
+  app.post("/api/audit", requireAdmin, async (req, res) => {
     try {
       const schema = insertAuditLogSchema;
-      const validatedData = schema.parse(req.body);
+      const validatedData = schema.parse({ ...req.body, gameId: req.gameId, adminId: req.user!.id });
       const entry = await storage.createAuditLogEntry(validatedData);
       res.json(entry);
     } catch (error) {
@@ -272,5 +1119,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
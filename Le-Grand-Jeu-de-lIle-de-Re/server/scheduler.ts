@@ -0,0 +1,36 @@
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { log } from "./vite";
+import { publish } from "./realtime";
+import { dueTransition } from "@shared/game-phase";
+
+const PHASE_CHECK_INTERVAL_MS = 30_000;
+
+// Applies the timed transitions (draw published → running at startsAt,
+// running → judging at endsAt) of every edition that is not archived
+export async function applyDueTransitions(now = new Date()) {
+  const games = await storage.getGames();
+  for (const game of games) {
+    if (game.archivedAt) continue;
+
+    const next = dueTransition(game, now);
+    if (!next) continue;
+
+    try {
+      await storage.changeGamePhase(game.id, next, null);
+      publish({ type: "phase_changed", gameId: game.id });
+      log(`game ${game.id}: ${game.phase} -> ${next}`, "scheduler");
+    } catch (error) {
+      // An admin changed the phase in the meantime; the next tick re-evaluates
+      if (!(error instanceof HttpError)) throw error;
+    }
+  }
+}
+
+export function startPhaseScheduler() {
+  const tick = () => {
+    applyDueTransitions().catch(error => console.error("Phase scheduler error:", error));
+  };
+  tick();
+  return setInterval(tick, PHASE_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,115 @@
+import { createHash, createHmac } from "crypto";
+
+// AWS Signature Version 4 for S3 requests and presigned URLs, kept apart from
+// the media store so it can be checked against AWS's published examples
+// (server/sigv4.test.ts).
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export interface SigV4Request {
+  method: string;
+  // Already encoded, as in URL.pathname
+  path: string;
+  query?: URLSearchParams;
+  // Every header to sign, host included
+  headers: Record<string, string>;
+  // Hex SHA-256 of the body, or "UNSIGNED-PAYLOAD" for presigned URLs
+  payloadHash: string;
+}
+
+export const sha256Hex = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+
+// "20261019T143000Z"
+export const toAmzDate = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// RFC 3986 encoding, as AWS Signature Version 4 expects
+export const awsEncode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+export const credentialScope = (date: Date, region: string) => `${toAmzDate(date).slice(0, 8)}/${region}/s3/aws4_request`;
+
+// Parameters encoded one by one and sorted by name, then by value
+export function canonicalQueryString(query: URLSearchParams): string {
+  return Array.from(query.entries())
+    .map(([name, value]) => [awsEncode(name), awsEncode(value)])
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+}
+
+export function canonicalRequest(request: SigV4Request): { canonicalRequest: string; signedHeaders: string } {
+  const headers = new Map(Object.entries(request.headers).map(([name, value]) =>
+    [name.toLowerCase(), value.trim().replace(/\s+/g, " ")]));
+  const headerNames = Array.from(headers.keys()).sort();
+  const signedHeaders = headerNames.join(";");
+
+  return {
+    signedHeaders,
+    canonicalRequest: [
+      request.method,
+      request.path,
+      canonicalQueryString(request.query ?? new URLSearchParams()),
+      headerNames.map(name => `${name}:${headers.get(name)}\n`).join(""),
+      signedHeaders,
+      request.payloadHash,
+    ].join("\n"),
+  };
+}
+
+// The signature goes in the Authorization header or, for a presigned URL, in the query
+export function signRequest(
+  credentials: SigV4Credentials,
+  request: SigV4Request,
+  now: Date,
+): { authorization: string; signature: string } {
+  const amzDate = toAmzDate(now);
+  const scope = credentialScope(now, credentials.region);
+  const { canonicalRequest: canonical, signedHeaders } = canonicalRequest(request);
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonical)].join("\n");
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, amzDate.slice(0, 8)), credentials.region),
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return {
+    signature,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+// GET URL carrying its own signature, valid for expiresIn seconds
+export function presignUrl(
+  credentials: SigV4Credentials,
+  url: URL,
+  expiresIn: number,
+  now: Date,
+  extraQuery: Record<string, string> = {},
+): string {
+  const query = new URLSearchParams({
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${credentials.accessKeyId}/${credentialScope(now, credentials.region)}`,
+    "X-Amz-Date": toAmzDate(now),
+    "X-Amz-Expires": String(expiresIn),
+    "X-Amz-SignedHeaders": "host",
+    ...extraQuery,
+  });
+  const { signature } = signRequest(credentials, {
+    method: "GET",
+    path: url.pathname,
+    query,
+    headers: { host: url.host },
+    payloadHash: "UNSIGNED-PAYLOAD",
+  }, now);
+  query.set("X-Amz-Signature", signature);
+
+  const signed = new URL(url);
+  signed.search = canonicalQueryString(query);
+  return signed.toString();
+}
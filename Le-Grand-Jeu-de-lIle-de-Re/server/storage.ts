@@ -1,70 +1,442 @@
 import {
   users,
+  games,
+  gameParticipants,
   challenges,
+  challengeVersions,
+  identificationMissions,
   teams,
   teamMembers,
+  teamConstraints,
   assignments,
   assignmentSeeds,
   proofs,
   auditLog,
+  gameSettings,
+  notifications,
+  type Game,
+  type InsertGame,
+  type GameSchedule,
   type User,
   type InsertUser,
+  type PublicUser,
   type Challenge,
   type InsertChallenge,
+  type UpdateChallenge,
+  type ChallengeVersion,
+  type IdentificationMission,
+  type InsertIdentificationMission,
+  type UpdateIdentificationMission,
   type Team,
   type InsertTeam,
   type TeamMember,
+  type TeamConstraint,
+  type InsertTeamConstraint,
   type Assignment,
   type InsertAssignment,
   type AssignmentSeed,
   type Proof,
   type InsertProof,
+  type ProofReview,
+  type Notification,
   type AuditLogEntry,
   type InsertAuditLogEntry,
+  type GameSettings,
+  type UpdateGameSettings,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
-import { randomBytes, createHash } from "crypto";
+import { db, pool } from "./db";
+import { eq, ne, and, or, desc, sql, isNull, isNotNull, inArray } from "drizzle-orm";
+import { randomBytes, createHash, randomUUID } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { generateTemporaryPassword, hashPassword } from "./passwords";
+import { HttpError } from "./errors";
+import {
+  drawAssignments,
+  normalizeDrawInput,
+  fingerprintDrawInput,
+  computeDrawStats,
+  type DrawPreview,
+  type DrawResult,
+  type DrawRules,
+  type RevealedDraw,
+} from "@shared/draw";
+import { DrawError, type DrawIssue } from "@shared/draw-error";
+import { DEFAULT_IDENTIFICATION_MISSIONS } from "@shared/identification-missions";
+import { checkTeamFormation } from "@shared/team-formation";
+import { DEFAULT_GAME_RULES, challengePoints, drawRulesFrom, type GameRules } from "@shared/game-rules";
+import { computeLeaderboard, type Leaderboard } from "@shared/scoring";
+import { planChallengeImport, type ChallengeImportPlan, type ChallengeImportRecord } from "@shared/challenge-import";
+import {
+  planParticipantImport,
+  type LoginCredential,
+  type ParticipantImportPlan,
+  type ParticipantImportRecord,
+} from "@shared/participant-import";
+import { approvalEffects, type ApprovalContext, type ApprovalEffect } from "@shared/proof-rules";
+import { MEDIA_RENDITIONS, type MediaRenditionName, type ProofMedia } from "@shared/proof-media";
+import { checkProof, type ProofCapture, type ProofFlag } from "@shared/proof-checks";
+import { checkLocation, declaredPositionSchema, type Geofence, type LocationCheck } from "@shared/geofence";
+import {
+  ASSIGNMENT_STATUS_LABELS,
+  checkStatusTransition,
+  statusTimestamps,
+  type AssignmentStatus,
+} from "@shared/assignment-status";
+import {
+  PHASE_LABELS,
+  canTransition,
+  phaseAllows,
+  regenerationNeedsOverride,
+  type GamePhase,
+} from "@shared/game-phase";
+
+const PostgresSessionStore = connectPg(session);
+
+// pg advisory lock key held for the duration of an assignment draw
+const GENERATE_ASSIGNMENTS_LOCK = 740_251_001;
+
+// Commitments of an edition published but not used by a draw yet
+const pendingCommitment = (gameId: string) =>
+  and(eq(assignmentSeeds.gameId, gameId), isNull(assignmentSeeds.drawnAt), isNull(assignmentSeeds.supersededAt));
+
+// Either the database or an open transaction
+type DbExecutor = Pick<typeof db, "select" | "selectDistinct">;
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// What the admin saw in the preview; the commit is refused if it no longer holds
+export interface DrawExpectation {
+  seedHash: string;
+  inputFingerprint: string;
+}
+
+// Per-draw choices made by the admin when previewing or generating
+export type DrawOptions = Pick<Partial<DrawRules>, "challengeReuse">;
+
+// How often each participant is the target of someone else's challenge
+export interface TargetCount {
+  userId: string;
+  displayName: string;
+  timesTargeted: number;
+}
+
+// A player's team; the mission's wording is the one drawn, its place and
+// time window are the current ones
+export interface TeamDetails extends Team {
+  members: (TeamMember & { user: PublicUser })[];
+  identificationMission: IdentificationMission | null;
+  teamChallenge: Challenge | null;
+}
+
+// A proof awaiting review, with what the admin needs to judge it
+export interface PendingProof extends Proof {
+  submitterName: string;
+  challengeTitle: string | null;
+  teamName: string | null;
+  mediaUrl: string | null;
+  // Lighter versions of the upload, once processed
+  renditionUrls: Partial<Record<MediaRenditionName, string>>;
+  // What looks off in the photo's EXIF (see shared/proof-checks.ts)
+  flags: ProofFlag[];
+}
+
+// A reviewed proof and what its approval changed
+export interface ProofReviewResult {
+  proof: Proof;
+  effects: ApprovalEffect[];
+}
+
+// Strip the password hash before a user leaves the server
+export function toPublicUser(user: User): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Game (edition) operations
+  getGames(): Promise<Game[]>;
+  getGame(id: string): Promise<Game | undefined>;
+  getActiveGame(): Promise<Game | undefined>;
+  createGame(game: InsertGame, copyFromGameId?: string): Promise<Game>;
+  activateGame(id: string): Promise<Game>;
+  archiveGame(id: string): Promise<Game>;
+  changeGamePhase(id: string, phase: GamePhase, adminId: string | null): Promise<Game>;
+  scheduleGame(id: string, schedule: GameSchedule, adminId: string): Promise<Game>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  setUserPassword(id: string, password: string): Promise<void>;
   getAllUsers(): Promise<User[]>;
   deleteUser(id: string): Promise<void>;
 
+  // Participant operations (users taking part in an edition)
+  getParticipants(gameId: string): Promise<PublicUser[]>;
+  addParticipant(gameId: string, userId: string): Promise<void>;
+  removeParticipant(gameId: string, userId: string): Promise<void>;
+  previewParticipantImport(gameId: string, records: ParticipantImportRecord[]): Promise<ParticipantImportPlan>;
+  importParticipants(
+    gameId: string,
+    records: ParticipantImportRecord[],
+    adminId: string,
+  ): Promise<{ plan: ParticipantImportPlan; credentials: LoginCredential[] }>;
+  resetCredentials(gameId: string, userIds: string[], adminId: string): Promise<LoginCredential[]>;
+
   // Challenge operations
-  getAllChallenges(): Promise<Challenge[]>;
-  getChallengesByDifficulty(difficulty: string): Promise<Challenge[]>;
-  createChallenge(challenge: InsertChallenge): Promise<Challenge>;
+  getAllChallenges(gameId: string, options?: { includeArchived?: boolean }): Promise<Challenge[]>;
+  getChallengesByDifficulty(gameId: string, difficulty: Challenge["difficulty"]): Promise<Challenge[]>;
+  createChallenge(gameId: string, challenge: InsertChallenge, adminId?: string): Promise<Challenge>;
+  updateChallenge(gameId: string, id: string, changes: UpdateChallenge, adminId: string): Promise<Challenge>;
+  setChallengeActive(gameId: string, id: string, isActive: boolean): Promise<Challenge>;
+  deleteChallenge(gameId: string, id: string): Promise<void>;
+  getChallengeVersions(gameId: string, id: string): Promise<(ChallengeVersion & { editorName: string | null })[]>;
+  previewChallengeImport(gameId: string, records: ChallengeImportRecord[]): Promise<ChallengeImportPlan>;
+  importChallenges(gameId: string, records: ChallengeImportRecord[], adminId: string): Promise<ChallengeImportPlan>;
+
+  // Identification mission operations
+  getIdentificationMissions(gameId: string): Promise<(IdentificationMission & { teamCount: number })[]>;
+  createIdentificationMission(gameId: string, mission: InsertIdentificationMission): Promise<IdentificationMission>;
+  addDefaultIdentificationMissions(gameId: string): Promise<IdentificationMission[]>;
+  updateIdentificationMission(gameId: string, id: string, changes: UpdateIdentificationMission): Promise<IdentificationMission>;
+  deleteIdentificationMission(gameId: string, id: string): Promise<void>;
 
   // Team operations
-  getTeamByUserId(userId: string): Promise<(Team & { members: (TeamMember & { user: User })[] }) | undefined>;
+  getTeamByUserId(gameId: string, userId: string): Promise<TeamDetails | undefined>;
   createTeam(team: InsertTeam): Promise<Team>;
   addTeamMember(teamId: string, userId: string): Promise<TeamMember>;
-  validateTeamMission(teamId: string): Promise<void>;
+  isTeamMember(gameId: string, teamId: string, userId: string): Promise<boolean>;
+
+  // Team constraint operations
+  getTeamConstraints(gameId: string): Promise<TeamConstraint[]>;
+  createTeamConstraint(gameId: string, constraint: InsertTeamConstraint): Promise<TeamConstraint>;
+  deleteTeamConstraint(gameId: string, id: string): Promise<void>;
+  checkTeamConstraints(gameId: string): Promise<DrawIssue[]>;
 
   // Assignment operations
-  getAssignmentsByUserId(userId: string): Promise<(Assignment & { challenge: Challenge; targetUser?: User })[]>;
+  getAssignment(id: string): Promise<Assignment | undefined>;
+  getAssignmentsByUserId(gameId: string, userId: string): Promise<(Assignment & { challenge: Challenge; targetUser?: PublicUser })[]>;
   createAssignment(assignment: InsertAssignment): Promise<Assignment>;
-  updateAssignmentStatus(assignmentId: string, status: string): Promise<void>;
-  generateAssignments(adminId: string): Promise<AssignmentSeed>;
-  getCurrentSeed(): Promise<AssignmentSeed | undefined>;
+  updateAssignmentStatus(assignment: Assignment, status: AssignmentStatus, actor: User): Promise<Assignment>;
+  getTargetCounts(gameId: string): Promise<TargetCount[]>;
+  getLeaderboard(gameId: string): Promise<Leaderboard>;
+  commitSeed(gameId: string, adminId: string): Promise<AssignmentSeed>;
+  getPendingCommitment(gameId: string): Promise<AssignmentSeed | undefined>;
+  previewAssignments(gameId: string, options?: DrawOptions): Promise<DrawPreview>;
+  generateAssignments(
+    gameId: string,
+    adminId: string,
+    expected?: DrawExpectation,
+    options?: DrawOptions,
+    overrideReason?: string,
+  ): Promise<AssignmentSeed>;
+  revealSeed(gameId: string, adminId: string): Promise<AssignmentSeed>;
+  getRevealedDraw(gameId: string): Promise<RevealedDraw | undefined>;
+  getCurrentSeed(gameId: string): Promise<AssignmentSeed | undefined>;
 
   // Proof operations
-  createProof(proof: InsertProof): Promise<Proof>;
+  createProof(gameId: string, proof: InsertProof, capture?: ProofCapture | null): Promise<Proof>;
   getProofsByAssignmentId(assignmentId: string): Promise<Proof[]>;
   getProofsByTeamId(teamId: string): Promise<Proof[]>;
-  validateProof(proofId: string, validatorId: string): Promise<void>;
+  getProof(gameId: string, proofId: string): Promise<Proof | undefined>;
+  getPendingProofs(gameId: string): Promise<PendingProof[]>;
+  reviewProof(gameId: string, proofId: string, review: ProofReview, reviewerId: string): Promise<ProofReviewResult>;
+
+  // Media processing queue (server/media-processing.ts)
+  claimPendingProofMedia(): Promise<Proof | undefined>;
+  completeProofMedia(proofId: string, media: ProofMedia): Promise<void>;
+  failProofMedia(proofId: string, error: string): Promise<void>;
+  requeueInterruptedProofMedia(): Promise<number>;
+
+  // Notification operations
+  getNotifications(gameId: string, userId: string): Promise<Notification[]>;
+  markNotificationRead(userId: string, id: string): Promise<void>;
+  markAllNotificationsRead(gameId: string, userId: string): Promise<void>;
+
+  // Game settings operations
+  getGameSettings(gameId: string): Promise<GameSettings>;
+  updateGameSettings(gameId: string, changes: UpdateGameSettings, adminId: string): Promise<GameSettings>;
 
   // Audit operations
   createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
-  getAuditLog(): Promise<AuditLogEntry[]>;
-  verifySeed(seedHash: string): Promise<boolean>;
+  getAuditLog(gameId: string): Promise<AuditLogEntry[]>;
+  verifySeed(seed: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getGames(): Promise<Game[]> {
+    return await db.select().from(games).orderBy(desc(games.createdAt));
+  }
+
+  async getGame(id: string): Promise<Game | undefined> {
+    const [game] = await db.select().from(games).where(eq(games.id, id));
+    return game || undefined;
+  }
+
+  async getActiveGame(): Promise<Game | undefined> {
+    const [game] = await db.select().from(games).where(eq(games.isActive, true)).limit(1);
+    return game || undefined;
+  }
+
+  // A new edition can start from another one's challenge bank and rules
+  async createGame(game: InsertGame, copyFromGameId?: string): Promise<Game> {
+    return await db.transaction(async (tx) => {
+      const [newGame] = await tx.insert(games).values(game).returning();
+      if (!copyFromGameId) {
+        await tx.insert(identificationMissions).values(DEFAULT_IDENTIFICATION_MISSIONS.map(mission => ({ ...mission, gameId: newGame.id })));
+        return newGame;
+      }
+
+      const sourceChallenges = await tx
+        .select()
+        .from(challenges)
+        .where(and(eq(challenges.gameId, copyFromGameId), eq(challenges.isActive, true)));
+      if (sourceChallenges.length > 0) {
+        // The copies start a fresh history from the current wording
+        const copies = sourceChallenges.map(({ id, version, createdAt, updatedAt, ...challenge }) => ({
+          ...challenge,
+          id: randomUUID(),
+          gameId: newGame.id,
+        }));
+        await tx.insert(challenges).values(copies);
+        await tx.insert(challengeVersions).values(copies.map(copy => ({
+          challengeId: copy.id,
+          version: 1,
+          title: copy.title,
+          description: copy.description,
+        })));
+      }
+
+      // Last edition's time windows would be in the past
+      const sourceMissions = await tx
+        .select()
+        .from(identificationMissions)
+        .where(and(eq(identificationMissions.gameId, copyFromGameId), eq(identificationMissions.isActive, true)));
+      if (sourceMissions.length > 0) {
+        await tx.insert(identificationMissions).values(sourceMissions.map(({ id, createdAt, updatedAt, ...mission }) => ({
+          ...mission,
+          gameId: newGame.id,
+          startsAt: null,
+          endsAt: null,
+        })));
+      }
+
+      const [sourceSettings] = await tx.select().from(gameSettings).where(eq(gameSettings.gameId, copyFromGameId));
+      if (sourceSettings) {
+        const { id, updatedBy, updatedAt, ...rules } = sourceSettings;
+        await tx.insert(gameSettings).values({ ...rules, gameId: newGame.id });
+      }
+
+      return newGame;
+    });
+  }
+
+  // Exactly one edition is active at a time
+  async activateGame(id: string): Promise<Game> {
+    return await db.transaction(async (tx) => {
+      const [game] = await tx.select().from(games).where(eq(games.id, id));
+      if (!game) {
+        throw new HttpError(404, "Édition non trouvée");
+      }
+      if (game.archivedAt) {
+        throw new HttpError(409, "Une édition archivée ne peut pas être activée");
+      }
+
+      await tx.update(games).set({ isActive: false }).where(eq(games.isActive, true));
+      const [activated] = await tx.update(games).set({ isActive: true }).where(eq(games.id, id)).returning();
+      return activated;
+    });
+  }
+
+  async archiveGame(id: string): Promise<Game> {
+    const game = await this.getGame(id);
+    if (!game) {
+      throw new HttpError(404, "Édition non trouvée");
+    }
+    if (game.isActive) {
+      throw new HttpError(409, "Activez une autre édition avant d'archiver celle-ci");
+    }
+
+    const [archived] = await db
+      .update(games)
+      .set({ archivedAt: sql`now()` })
+      .where(eq(games.id, id))
+      .returning();
+    return archived;
+  }
+
+  // Moves the edition along its lifecycle; adminId is null when the scheduler
+  // applies a timed transition
+  async changeGamePhase(id: string, phase: GamePhase, adminId: string | null): Promise<Game> {
+    return await db.transaction(async (tx) => {
+      const [game] = await tx.select().from(games).where(eq(games.id, id));
+      if (!game) {
+        throw new HttpError(404, "Édition non trouvée");
+      }
+      if (!canTransition(game.phase, phase)) {
+        throw new HttpError(409, `Impossible de passer de « ${PHASE_LABELS[game.phase]} » à « ${PHASE_LABELS[phase]} »`);
+      }
+
+      // Conditional on the phase we read, so an admin and the scheduler cannot both apply a transition
+      const [updated] = await tx
+        .update(games)
+        .set({ phase, phaseChangedAt: sql`now()` })
+        .where(and(eq(games.id, id), eq(games.phase, game.phase)))
+        .returning();
+      if (!updated) {
+        throw new HttpError(409, "La phase a changé entre-temps, rechargez la page");
+      }
+
+      await tx.insert(auditLog).values({
+        action: 'change_phase',
+        gameId: id,
+        adminId,
+        details: `Phase : ${PHASE_LABELS[game.phase]} → ${PHASE_LABELS[phase]}${adminId ? "" : " (automatique)"}`,
+        metadata: { from: game.phase, to: phase },
+      });
+
+      return updated;
+    });
+  }
+
+  async scheduleGame(id: string, schedule: GameSchedule, adminId: string): Promise<Game> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(games)
+        .set({ startsAt: schedule.startsAt, endsAt: schedule.endsAt })
+        .where(eq(games.id, id))
+        .returning();
+      if (!updated) {
+        throw new HttpError(404, "Édition non trouvée");
+      }
+
+      await tx.insert(auditLog).values({
+        action: 'schedule_game',
+        gameId: id,
+        adminId,
+        details: "Calendrier du jeu modifié",
+        metadata: {
+          startsAt: schedule.startsAt?.toISOString() ?? null,
+          endsAt: schedule.endsAt?.toISOString() ?? null,
+        },
+      });
+
+      return updated;
+    });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -76,10 +448,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const [user] = await db
+      .insert(users)
+      .values({ ...insertUser, password: await hashPassword(insertUser.password) })
+      .returning();
     return user;
   }
 
+  async setUserPassword(id: string, password: string): Promise<void> {
+    await db.update(users).set({ password: await hashPassword(password) }).where(eq(users.id, id));
+  }
+
   async getAllUsers(): Promise<User[]> {
     return await db.select().from(users);
   }
@@ -88,23 +467,454 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
-  async getAllChallenges(): Promise<Challenge[]> {
-    return await db.select().from(challenges).where(eq(challenges.isActive, true));
+  async getParticipants(gameId: string): Promise<PublicUser[]> {
+    const rows = await db
+      .select({ user: users })
+      .from(gameParticipants)
+      .innerJoin(users, eq(gameParticipants.userId, users.id))
+      .where(and(eq(gameParticipants.gameId, gameId), eq(users.isAdmin, false)))
+      .orderBy(users.displayName);
+    return rows.map(r => toPublicUser(r.user));
+  }
+
+  async addParticipant(gameId: string, userId: string): Promise<void> {
+    await db.insert(gameParticipants).values({ gameId, userId }).onConflictDoNothing();
   }
 
-  async getChallengesByDifficulty(difficulty: string): Promise<Challenge[]> {
+  async removeParticipant(gameId: string, userId: string): Promise<void> {
+    await db
+      .delete(gameParticipants)
+      .where(and(eq(gameParticipants.gameId, gameId), eq(gameParticipants.userId, userId)));
+  }
+
+  private async planParticipantImport(gameId: string, records: ParticipantImportRecord[]): Promise<ParticipantImportPlan> {
+    const existingUsers = await db
+      .select({ id: users.id, username: users.username, isAdmin: users.isAdmin })
+      .from(users);
+    const enrolled = await db
+      .select({ userId: gameParticipants.userId })
+      .from(gameParticipants)
+      .where(eq(gameParticipants.gameId, gameId));
+    return planParticipantImport(records, existingUsers, new Set(enrolled.map(row => row.userId)));
+  }
+
+  async previewParticipantImport(gameId: string, records: ParticipantImportRecord[]): Promise<ParticipantImportPlan> {
+    return await this.planParticipantImport(gameId, records);
+  }
+
+  // Creates the new accounts with a generated password each, enrols everyone
+  // and adds the team constraints; the passwords are returned once, for the
+  // login cards
+  async importParticipants(
+    gameId: string,
+    records: ParticipantImportRecord[],
+    adminId: string,
+  ): Promise<{ plan: ParticipantImportPlan; credentials: LoginCredential[] }> {
+    const plan = await this.planParticipantImport(gameId, records);
+
+    // Hashing is slow, so it happens before the transaction opens
+    const accounts = await Promise.all(plan.rows
+      .filter(row => row.status === "new")
+      .map(async row => {
+        const password = generateTemporaryPassword();
+        return { ...row.participant!, password, passwordHash: await hashPassword(password) };
+      }));
+
+    const credentials = await db.transaction(async (tx) => {
+      const created = accounts.length > 0
+        ? await tx
+            .insert(users)
+            .values(accounts.map(({ password, passwordHash, ...account }) => ({ ...account, password: passwordHash })))
+            .onConflictDoNothing({ target: users.username })
+            .returning()
+        : [];
+      if (created.length < accounts.length) {
+        throw new HttpError(409, "Des identifiants viennent d'être pris par ailleurs : relancez l'aperçu");
+      }
+
+      const userIdOf = new Map(created.map(user => [user.username, user.id]));
+      for (const row of plan.rows) {
+        if (row.existingId) userIdOf.set(row.participant!.username, row.existingId);
+      }
+      const enrolledIds = plan.rows.flatMap(row =>
+        row.status === "new" || row.status === "enroll" ? [userIdOf.get(row.participant!.username)!] : []);
+      if (enrolledIds.length > 0) {
+        await tx
+          .insert(gameParticipants)
+          .values(enrolledIds.map(userId => ({ gameId, userId })))
+          .onConflictDoNothing();
+      }
+
+      // Participants already enrolled before the import are looked up by username
+      const missing = plan.constraints
+        .flatMap(c => [c.username, c.otherUsername])
+        .filter(username => !userIdOf.has(username));
+      if (missing.length > 0) {
+        const found = await tx
+          .select({ id: users.id, username: users.username })
+          .from(users)
+          .where(inArray(users.username, Array.from(new Set(missing))));
+        found.forEach(user => userIdOf.set(user.username, user.id));
+      }
+
+      const existingConstraints = await tx.select().from(teamConstraints).where(eq(teamConstraints.gameId, gameId));
+      const pairKey = (kind: string, a: string, b: string) => `${kind}|${[a, b].sort().join("|")}`;
+      const existingPairs = new Set(existingConstraints.map(c => pairKey(c.kind, c.userId, c.otherUserId)));
+      const constraintRows = plan.constraints
+        .map(c => ({ gameId, userId: userIdOf.get(c.username)!, otherUserId: userIdOf.get(c.otherUsername)!, kind: c.kind }))
+        .filter(c => c.userId && c.otherUserId && !existingPairs.has(pairKey(c.kind, c.userId, c.otherUserId)));
+      if (constraintRows.length > 0) {
+        await tx.insert(teamConstraints).values(constraintRows.map(c => ({ ...c, reason: "Import CSV" })));
+      }
+
+      await tx.insert(auditLog).values({
+        action: "import_participants",
+        gameId,
+        adminId,
+        details: `Import de participants : ${plan.counts.new} comptes créés, ${plan.counts.enroll} comptes existants inscrits`,
+        metadata: { counts: plan.counts, constraints: constraintRows.length },
+      });
+
+      return created.map(user => ({
+        userId: user.id,
+        displayName: user.displayName,
+        username: user.username,
+        password: accounts.find(account => account.username === user.username)!.password,
+      }));
+    });
+
+    return { plan, credentials };
+  }
+
+  // New passwords for participants of the edition, e.g. to reprint lost cards
+  async resetCredentials(gameId: string, userIds: string[], adminId: string): Promise<LoginCredential[]> {
+    const participants = (await this.getParticipants(gameId)).filter(p => userIds.includes(p.id));
+    if (participants.length === 0) {
+      throw new HttpError(404, "Aucun participant de cette édition sélectionné");
+    }
+
+    const accounts = await Promise.all(participants.map(async participant => {
+      const password = generateTemporaryPassword();
+      return { participant, password, passwordHash: await hashPassword(password) };
+    }));
+
+    await db.transaction(async (tx) => {
+      for (const { participant, passwordHash } of accounts) {
+        await tx.update(users).set({ password: passwordHash }).where(eq(users.id, participant.id));
+      }
+      await tx.insert(auditLog).values({
+        action: "reset_credentials",
+        gameId,
+        adminId,
+        details: `Nouveaux mots de passe pour ${accounts.length} participant${accounts.length > 1 ? "s" : ""}`,
+        metadata: { userIds: participants.map(p => p.id) },
+      });
+    });
+
+    return accounts.map(({ participant, password }) => ({
+      userId: participant.id,
+      displayName: participant.displayName,
+      username: participant.username,
+      password,
+    }));
+  }
+
+  async getAllChallenges(gameId: string, options: { includeArchived?: boolean } = {}): Promise<Challenge[]> {
+    return await db
+      .select()
+      .from(challenges)
+      .where(options.includeArchived
+        ? eq(challenges.gameId, gameId)
+        : and(eq(challenges.gameId, gameId), eq(challenges.isActive, true)))
+      .orderBy(challenges.createdAt);
+  }
+
+  async getChallengesByDifficulty(gameId: string, difficulty: Challenge["difficulty"]): Promise<Challenge[]> {
     return await db
       .select()
       .from(challenges)
-      .where(and(eq(challenges.difficulty, difficulty as any), eq(challenges.isActive, true)));
+      .where(and(
+        eq(challenges.gameId, gameId),
+        eq(challenges.difficulty, difficulty),
+        eq(challenges.isActive, true),
+      ));
+  }
+
+  async createChallenge(gameId: string, challenge: InsertChallenge, adminId?: string): Promise<Challenge> {
+    // Points always follow the game settings for the difficulty
+    const settings = await this.getGameSettings(gameId);
+    return await db.transaction(async (tx) => {
+      const [newChallenge] = await tx
+        .insert(challenges)
+        .values({ ...challenge, gameId, points: challengePoints(settings, challenge.difficulty) })
+        .returning();
+      await tx.insert(challengeVersions).values({
+        challengeId: newChallenge.id,
+        version: 1,
+        title: newChallenge.title,
+        description: newChallenge.description,
+        editedBy: adminId,
+      });
+      return newChallenge;
+    });
+  }
+
+  private async getChallengeOrThrow(executor: DbExecutor, gameId: string, id: string): Promise<Challenge> {
+    const [challenge] = await executor
+      .select()
+      .from(challenges)
+      .where(and(eq(challenges.id, id), eq(challenges.gameId, gameId)));
+    if (!challenge) {
+      throw new HttpError(404, "Défi introuvable");
+    }
+    return challenge;
+  }
+
+  // Whether a stored draw uses the challenge, as an assignment or a team challenge
+  private async isChallengeDrawn(executor: DbExecutor, id: string): Promise<boolean> {
+    const [assigned] = await executor
+      .select({ id: assignments.id })
+      .from(assignments)
+      .where(eq(assignments.challengeId, id))
+      .limit(1);
+    if (assigned) return true;
+    const [team] = await executor
+      .select({ id: teams.id })
+      .from(teams)
+      .where(eq(teams.teamChallengeId, id))
+      .limit(1);
+    return !!team;
+  }
+
+  // A new title or description becomes a new version; drawn assignments keep
+  // theirs. Difficulty and target are part of the draw and are frozen once drawn.
+  async updateChallenge(gameId: string, id: string, changes: UpdateChallenge, adminId: string): Promise<Challenge> {
+    const settings = await this.getGameSettings(gameId);
+
+    return await db.transaction(async (tx) => {
+      const current = await this.getChallengeOrThrow(tx, gameId, id);
+
+      const changesDrawRules =
+        (changes.difficulty !== undefined && changes.difficulty !== current.difficulty) ||
+        (changes.needsTarget !== undefined && changes.needsTarget !== current.needsTarget);
+      if (changesDrawRules && await this.isChallengeDrawn(tx, id)) {
+        throw new HttpError(409, "Ce défi a déjà été tiré : seuls son titre et sa description peuvent changer");
+      }
+
+      const title = changes.title ?? current.title;
+      const description = changes.description ?? current.description;
+      const rewords = title !== current.title || description !== current.description;
+      const version = rewords ? current.version + 1 : current.version;
+      const difficulty = changes.difficulty ?? current.difficulty;
+
+      const [updated] = await tx
+        .update(challenges)
+        .set({
+          title,
+          description,
+          difficulty,
+          needsTarget: changes.needsTarget ?? current.needsTarget,
+          // Not part of the draw, so it may change at any time; null removes it
+          geofence: changes.geofence !== undefined ? changes.geofence : current.geofence,
+          points: challengePoints(settings, difficulty),
+          version,
+          updatedAt: sql`now()`,
+        })
+        .where(and(eq(challenges.id, id), eq(challenges.version, current.version)))
+        .returning();
+      if (!updated) {
+        throw new HttpError(409, "Le défi vient d'être modifié, rechargez la page");
+      }
+
+      if (rewords) {
+        await tx.insert(challengeVersions).values({ challengeId: id, version, title, description, editedBy: adminId });
+      }
+      return updated;
+    });
+  }
+
+  // Archived challenges are left out of future draws; existing assignments keep them
+  async setChallengeActive(gameId: string, id: string, isActive: boolean): Promise<Challenge> {
+    await this.getChallengeOrThrow(db, gameId, id);
+    const [updated] = await db
+      .update(challenges)
+      .set({ isActive, updatedAt: sql`now()` })
+      .where(eq(challenges.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Only a challenge no draw has used can go; the others are archived instead
+  async deleteChallenge(gameId: string, id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.getChallengeOrThrow(tx, gameId, id);
+      if (await this.isChallengeDrawn(tx, id)) {
+        throw new HttpError(409, "Ce défi a déjà été tiré : archivez-le plutôt que de le supprimer");
+      }
+      await tx.delete(challenges).where(eq(challenges.id, id));
+    });
+  }
+
+  // Active missions first, each with the number of teams the current draw sent there
+  async getIdentificationMissions(gameId: string): Promise<(IdentificationMission & { teamCount: number })[]> {
+    const missions = await db
+      .select()
+      .from(identificationMissions)
+      .where(eq(identificationMissions.gameId, gameId))
+      .orderBy(desc(identificationMissions.isActive), identificationMissions.title);
+    const counts = await db
+      .select({ missionId: teams.identificationMissionId, count: sql<number>`count(*)::int` })
+      .from(teams)
+      .where(eq(teams.gameId, gameId))
+      .groupBy(teams.identificationMissionId);
+    const countOf = new Map(counts.map(row => [row.missionId, row.count]));
+    return missions.map(mission => ({ ...mission, teamCount: countOf.get(mission.id) ?? 0 }));
+  }
+
+  async createIdentificationMission(gameId: string, mission: InsertIdentificationMission): Promise<IdentificationMission> {
+    const [created] = await db.insert(identificationMissions).values({ ...mission, gameId }).returning();
+    return created;
+  }
+
+  // The usual rendez-vous, for an edition created before missions were managed here
+  async addDefaultIdentificationMissions(gameId: string): Promise<IdentificationMission[]> {
+    return await db
+      .insert(identificationMissions)
+      .values(DEFAULT_IDENTIFICATION_MISSIONS.map(mission => ({ ...mission, gameId })))
+      .returning();
+  }
+
+  private async getIdentificationMissionOrThrow(executor: DbExecutor, gameId: string, id: string): Promise<IdentificationMission> {
+    const [mission] = await executor
+      .select()
+      .from(identificationMissions)
+      .where(and(eq(identificationMissions.id, id), eq(identificationMissions.gameId, gameId)));
+    if (!mission) {
+      throw new HttpError(404, "Mission introuvable");
+    }
+    return mission;
+  }
+
+  // Drawn teams keep the wording they received; the place, zone and time
+  // window are read from the mission, so correcting them reaches the teams
+  async updateIdentificationMission(gameId: string, id: string, changes: UpdateIdentificationMission): Promise<IdentificationMission> {
+    const current = await this.getIdentificationMissionOrThrow(db, gameId, id);
+    const startsAt = changes.startsAt !== undefined ? changes.startsAt : current.startsAt;
+    const endsAt = changes.endsAt !== undefined ? changes.endsAt : current.endsAt;
+    if (startsAt && endsAt && startsAt >= endsAt) {
+      throw new HttpError(400, "La fin du créneau doit être postérieure à son début");
+    }
+
+    const [updated] = await db
+      .update(identificationMissions)
+      .set({ ...changes, updatedAt: sql`now()` })
+      .where(eq(identificationMissions.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Only a mission no draw has used can go; the others are archived instead
+  async deleteIdentificationMission(gameId: string, id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.getIdentificationMissionOrThrow(tx, gameId, id);
+      const [team] = await tx
+        .select({ id: teams.id })
+        .from(teams)
+        .where(eq(teams.identificationMissionId, id))
+        .limit(1);
+      if (team) {
+        throw new HttpError(409, "Des équipes ont été envoyées sur cette mission : archivez-la plutôt que de la supprimer");
+      }
+      await tx.delete(identificationMissions).where(eq(identificationMissions.id, id));
+    });
+  }
+
+  private async planChallengeImport(executor: DbExecutor, gameId: string, records: ChallengeImportRecord[]): Promise<ChallengeImportPlan> {
+    const bank = await executor.select().from(challenges).where(eq(challenges.gameId, gameId));
+    const assigned = await executor
+      .selectDistinct({ id: assignments.challengeId })
+      .from(assignments)
+      .where(eq(assignments.gameId, gameId));
+    const teamChallenges = await executor
+      .select({ id: teams.teamChallengeId })
+      .from(teams)
+      .where(eq(teams.gameId, gameId));
+    const drawnIds = new Set([...assigned, ...teamChallenges].flatMap(row => (row.id ? [row.id] : [])));
+    return planChallengeImport(records, bank, drawnIds);
+  }
+
+  async previewChallengeImport(gameId: string, records: ChallengeImportRecord[]): Promise<ChallengeImportPlan> {
+    return await this.planChallengeImport(db, gameId, records);
+  }
+
+  // Adds the new records and applies the changed ones (a new wording becomes a
+  // new version); duplicates and invalid records are skipped
+  async importChallenges(gameId: string, records: ChallengeImportRecord[], adminId: string): Promise<ChallengeImportPlan> {
+    const settings = await this.getGameSettings(gameId);
+
+    return await db.transaction(async (tx) => {
+      const plan = await this.planChallengeImport(tx, gameId, records);
+
+      const additions = plan.rows.flatMap(row => (row.status === "new" && row.challenge ? [row.challenge] : []));
+      if (additions.length > 0) {
+        const inserted = await tx
+          .insert(challenges)
+          .values(additions.map(challenge => ({
+            ...challenge,
+            gameId,
+            points: challengePoints(settings, challenge.difficulty),
+          })))
+          .returning();
+        await tx.insert(challengeVersions).values(inserted.map(challenge => ({
+          challengeId: challenge.id,
+          version: 1,
+          title: challenge.title,
+          description: challenge.description,
+          editedBy: adminId,
+        })));
+      }
+
+      for (const row of plan.rows) {
+        if (row.status !== "changed" || !row.challenge || !row.existingId) continue;
+        const rewords = row.changes?.some(field => field === "title" || field === "description");
+        const [updated] = await tx
+          .update(challenges)
+          .set({
+            ...row.challenge,
+            points: challengePoints(settings, row.challenge.difficulty),
+            version: rewords ? sql`${challenges.version} + 1` : challenges.version,
+            updatedAt: sql`now()`,
+          })
+          .where(eq(challenges.id, row.existingId))
+          .returning();
+        if (rewords) {
+          await tx.insert(challengeVersions).values({
+            challengeId: updated.id,
+            version: updated.version,
+            title: updated.title,
+            description: updated.description,
+            editedBy: adminId,
+          });
+        }
+      }
+
+      return plan;
+    });
   }
 
-  async createChallenge(challenge: InsertChallenge): Promise<Challenge> {
-    const [newChallenge] = await db.insert(challenges).values(challenge).returning();
-    return newChallenge;
+  // Newest first
+  async getChallengeVersions(gameId: string, id: string): Promise<(ChallengeVersion & { editorName: string | null })[]> {
+    await this.getChallengeOrThrow(db, gameId, id);
+    const rows = await db
+      .select({ version: challengeVersions, editorName: users.displayName })
+      .from(challengeVersions)
+      .leftJoin(users, eq(challengeVersions.editedBy, users.id))
+      .where(eq(challengeVersions.challengeId, id))
+      .orderBy(desc(challengeVersions.version));
+    return rows.map(row => ({ ...row.version, editorName: row.editorName }));
   }
 
-  async getTeamByUserId(userId: string): Promise<(Team & { members: (TeamMember & { user: User })[] }) | undefined> {
+  async getTeamByUserId(gameId: string, userId: string): Promise<TeamDetails | undefined> {
     const teamMember = await db
       .select({
         team: teams,
@@ -114,7 +924,7 @@ export class DatabaseStorage implements IStorage {
       .from(teamMembers)
       .innerJoin(teams, eq(teamMembers.teamId, teams.id))
       .innerJoin(users, eq(teamMembers.userId, users.id))
-      .where(eq(teamMembers.userId, userId));
+      .where(and(eq(teamMembers.userId, userId), eq(teams.gameId, gameId)));
 
     if (teamMember.length === 0) return undefined;
 
@@ -127,10 +937,18 @@ export class DatabaseStorage implements IStorage {
       .from(teamMembers)
       .innerJoin(users, eq(teamMembers.userId, users.id))
       .where(eq(teamMembers.teamId, team.id));
+    const [mission] = team.identificationMissionId
+      ? await db.select().from(identificationMissions).where(eq(identificationMissions.id, team.identificationMissionId))
+      : [];
+    const [teamChallenge] = team.teamChallengeId
+      ? await db.select().from(challenges).where(eq(challenges.id, team.teamChallengeId))
+      : [];
 
     return {
       ...team,
-      members: allMembers.map(m => ({ ...m.member, user: m.user })),
+      members: allMembers.map(m => ({ ...m.member, user: toPublicUser(m.user) })),
+      identificationMission: mission ?? null,
+      teamChallenge: teamChallenge ?? null,
     };
   }
 
@@ -144,29 +962,72 @@ export class DatabaseStorage implements IStorage {
     return member;
   }
 
-  async validateTeamMission(teamId: string): Promise<void> {
+  // Only true for a team of the given edition, so a team id from another edition never grants access
+  async isTeamMember(gameId: string, teamId: string, userId: string): Promise<boolean> {
+    const [member] = await db
+      .select({ id: teamMembers.id })
+      .from(teamMembers)
+      .innerJoin(teams, eq(teams.id, teamMembers.teamId))
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId), eq(teams.gameId, gameId)));
+    return !!member;
+  }
+
+  async getTeamConstraints(gameId: string): Promise<TeamConstraint[]> {
+    return await db
+      .select()
+      .from(teamConstraints)
+      .where(eq(teamConstraints.gameId, gameId))
+      .orderBy(teamConstraints.createdAt);
+  }
+
+  async createTeamConstraint(gameId: string, constraint: InsertTeamConstraint): Promise<TeamConstraint> {
+    const [newConstraint] = await db.insert(teamConstraints).values({ ...constraint, gameId }).returning();
+    return newConstraint;
+  }
+
+  async deleteTeamConstraint(gameId: string, id: string): Promise<void> {
     await db
-      .update(teams)
-      .set({ identificationMissionValidated: true })
-      .where(eq(teams.id, teamId));
+      .delete(teamConstraints)
+      .where(and(eq(teamConstraints.id, id), eq(teamConstraints.gameId, gameId)));
   }
 
-  async getAssignmentsByUserId(userId: string): Promise<(Assignment & { challenge: Challenge; targetUser?: User })[]> {
+  // Problems the next draw would hit when forming teams
+  async checkTeamConstraints(gameId: string): Promise<DrawIssue[]> {
+    const participants = await this.getParticipants(gameId);
+    const constraints = await this.getTeamConstraints(gameId);
+    const { teamSize } = drawRulesFrom(await this.readGameRules(db, gameId));
+    return checkTeamFormation(participants.map(p => p.id), teamSize, constraints);
+  }
+
+  async getAssignment(id: string): Promise<Assignment | undefined> {
+    const [assignment] = await db.select().from(assignments).where(eq(assignments.id, id));
+    return assignment || undefined;
+  }
+
+  async getAssignmentsByUserId(gameId: string, userId: string): Promise<(Assignment & { challenge: Challenge; targetUser?: PublicUser })[]> {
     const result = await db
       .select({
         assignment: assignments,
         challenge: challenges,
+        wording: challengeVersions,
         targetUser: users,
       })
       .from(assignments)
       .innerJoin(challenges, eq(assignments.challengeId, challenges.id))
+      .leftJoin(challengeVersions, and(
+        eq(challengeVersions.challengeId, assignments.challengeId),
+        eq(challengeVersions.version, assignments.challengeVersion),
+      ))
       .leftJoin(users, eq(assignments.targetUserId, users.id))
-      .where(eq(assignments.userId, userId));
+      .where(and(eq(assignments.userId, userId), eq(assignments.gameId, gameId)));
 
+    // The wording in force at draw time, not the latest edit
     return result.map(r => ({
       ...r.assignment,
-      challenge: r.challenge,
-      targetUser: r.targetUser || undefined,
+      challenge: r.wording
+        ? { ...r.challenge, title: r.wording.title, description: r.wording.description }
+        : r.challenge,
+      targetUser: r.targetUser ? toPublicUser(r.targetUser) : undefined,
     }));
   }
 
@@ -175,173 +1036,502 @@ export class DatabaseStorage implements IStorage {
     return newAssignment;
   }
 
-  async updateAssignmentStatus(assignmentId: string, status: string): Promise<void> {
-    await db
-      .update(assignments)
-      .set({ status: status as any })
-      .where(eq(assignments.id, assignmentId));
+  // Applies one step of the status machine (shared/assignment-status.ts);
+  // changes made by an admin affect scores and are logged
+  async updateAssignmentStatus(assignment: Assignment, status: AssignmentStatus, actor: User): Promise<Assignment> {
+    const refusal = checkStatusTransition(assignment.status, status, actor.isAdmin);
+    if (refusal) {
+      throw new HttpError(409, refusal);
+    }
+
+    const timestamp = (column: typeof assignments.completedAt | typeof assignments.validatedAt, change: "set" | "clear") =>
+      change === "set" ? sql`coalesce(${column}, now())` : null;
+    const timestamps = statusTimestamps(status);
+
+    return await db.transaction(async (tx) => {
+      // Conditional on the status we checked, so two concurrent requests cannot both apply
+      const [updated] = await tx
+        .update(assignments)
+        .set({
+          status,
+          completedAt: timestamp(assignments.completedAt, timestamps.completedAt),
+          validatedAt: timestamp(assignments.validatedAt, timestamps.validatedAt),
+        })
+        .where(and(eq(assignments.id, assignment.id), eq(assignments.status, assignment.status)))
+        .returning();
+      if (!updated) {
+        throw new HttpError(409, "Le statut de ce défi a changé entre-temps, rechargez la page");
+      }
+
+      if (actor.isAdmin) {
+        await tx.insert(auditLog).values({
+          action: 'change_assignment_status',
+          gameId: assignment.gameId,
+          adminId: actor.id,
+          details: `Défi ${assignment.id} : ${ASSIGNMENT_STATUS_LABELS[assignment.status]} → ${ASSIGNMENT_STATUS_LABELS[status]}`,
+          metadata: { assignmentId: assignment.id, from: assignment.status, to: status },
+        });
+      }
+
+      return updated;
+    });
   }
 
-  async generateAssignments(adminId: string): Promise<AssignmentSeed> {
-    // Generate cryptographic seed
-    const seed = randomBytes(128).toString('hex');
-    const seedHash = createHash('sha256').update(seed).digest('hex');
+  async getTargetCounts(gameId: string): Promise<TargetCount[]> {
+    const rows = await db
+      .select({
+        userId: users.id,
+        displayName: users.displayName,
+        timesTargeted: sql<number>`count(${assignments.id})::int`,
+      })
+      .from(gameParticipants)
+      .innerJoin(users, eq(gameParticipants.userId, users.id))
+      .leftJoin(assignments, and(eq(assignments.targetUserId, users.id), eq(assignments.gameId, gameId)))
+      .where(and(eq(gameParticipants.gameId, gameId), eq(users.isAdmin, false)))
+      .groupBy(users.id, users.displayName);
 
-    // Get all users and challenges
-    const allUsers = await db.select().from(users).where(eq(users.isAdmin, false));
-    const easyChallenges = await this.getChallengesByDifficulty('easy');
-    const mediumChallenges = await this.getChallengesByDifficulty('medium');
-    const hardChallenges = await this.getChallengesByDifficulty('hard');
-    const teamChallenges = await this.getChallengesByDifficulty('team');
-
-    // Clear existing assignments
-    await db.delete(assignments);
-    await db.delete(teamMembers);
-    await db.delete(teams);
-    await db.update(assignmentSeeds).set({ isActive: false });
-
-    // Create new seed record
-    const [seedRecord] = await db.insert(assignmentSeeds).values({
-      seed,
-      seedHash,
-      participantCount: allUsers.length,
-      generatedBy: adminId,
-      isActive: true,
-    }).returning();
-
-    // Seed random number generator for deterministic assignment
-    let seedIndex = 0;
-    const seededRandom = () => {
-      const value = parseInt(seed.substr(seedIndex % seed.length, 8), 16) / 0xffffffff;
-      seedIndex += 8;
-      return value;
-    };
+    return rows.sort((a, b) => b.timesTargeted - a.timesTargeted || a.displayName.localeCompare(b.displayName));
+  }
 
-    // Shuffle users deterministically
-    const shuffledUsers = [...allUsers];
-    for (let i = shuffledUsers.length - 1; i > 0; i--) {
-      const j = Math.floor(seededRandom() * (i + 1));
-      [shuffledUsers[i], shuffledUsers[j]] = [shuffledUsers[j], shuffledUsers[i]];
-    }
+  // Rankings of the edition's participants and teams from validated work
+  async getLeaderboard(gameId: string): Promise<Leaderboard> {
+    const participants = await this.getParticipants(gameId);
+    const scoredAssignments = await db
+      .select({
+        userId: assignments.userId,
+        points: challenges.points,
+        status: assignments.status,
+        validatedAt: assignments.validatedAt,
+      })
+      .from(assignments)
+      .innerJoin(challenges, eq(assignments.challengeId, challenges.id))
+      .where(eq(assignments.gameId, gameId));
+    const gameTeams = await db.select().from(teams).where(eq(teams.gameId, gameId));
+    const members = gameTeams.length > 0
+      ? await db.select().from(teamMembers).where(inArray(teamMembers.teamId, gameTeams.map(t => t.id)))
+      : [];
+    const rules = await this.readGameRules(db, gameId);
 
-    // Form teams (2-3 members each)
-    const teamAssignments: string[][] = [];
-    let currentTeamIndex = 0;
-    
-    for (let i = 0; i < shuffledUsers.length; i += 3) {
-      const teamSize = Math.min(3, shuffledUsers.length - i);
-      const teamMembers = shuffledUsers.slice(i, i + teamSize);
-      teamAssignments.push(teamMembers.map(u => u.id));
-    }
+    return computeLeaderboard(
+      participants.map(p => ({ userId: p.id, displayName: p.displayName })),
+      scoredAssignments,
+      gameTeams.map(team => ({
+        teamId: team.id,
+        name: team.name,
+        memberIds: members.filter(m => m.teamId === team.id).map(m => m.userId),
+        missionValidated: team.identificationMissionValidated,
+        challengeValidatedAt: team.teamChallengeValidatedAt,
+      })),
+      rules,
+    );
+  }
 
-    // Create teams with identification missions
-    const identificationMissions = [
-      {
-        title: "Retrouvez-vous au marché de Saint-Martin",
-        description: "Rendez-vous ensemble au marché de Saint-Martin-de-Ré entre 9h et 11h. Prenez une photo de groupe devant l'entrée principale."
-      },
-      {
-        title: "Rassemblement au Phare des Baleines",
-        description: "Retrouvez-vous tous au pied du Phare des Baleines. Prenez une photo de groupe avec le phare en arrière-plan."
-      },
-      {
-        title: "Réunion à la Plage de la Conche",
-        description: "Rendez-vous sur la plage de la Conche des Baleines. Prenez une photo de groupe sur le sable."
-      }
-    ];
-
-    for (let i = 0; i < teamAssignments.length; i++) {
-      const missionIndex = Math.floor(seededRandom() * identificationMissions.length);
-      const mission = identificationMissions[missionIndex];
-      const teamChallengeIndex = Math.floor(seededRandom() * teamChallenges.length);
-      const teamChallenge = teamChallenges[teamChallengeIndex];
-
-      const [team] = await db.insert(teams).values({
-        name: `Équipe #${i + 1}`,
-        identificationMissionTitle: mission.title,
-        identificationMissionDescription: mission.description,
-        teamChallengeId: teamChallenge.id,
+  async commitSeed(gameId: string, adminId: string): Promise<AssignmentSeed> {
+    // One commitment per draw: publishing a fresh one while another is pending
+    // would let an admin preview draw after draw and keep the seed they like.
+    // The lock is the draw's, so a generation cannot consume the pending
+    // commitment between the check and the insert.
+    return await db.transaction(async (tx) => {
+      const lock = await tx.execute(
+        sql`select pg_try_advisory_xact_lock(${GENERATE_ASSIGNMENTS_LOCK}, hashtext(${gameId})) as locked`,
+      );
+      if (!lock.rows[0]?.locked) {
+        throw new HttpError(409, "Un tirage est en cours, réessayez dans un instant");
+      }
+
+      const [pending] = await tx
+        .select({ id: assignmentSeeds.id })
+        .from(assignmentSeeds)
+        .where(pendingCommitment(gameId))
+        .limit(1);
+      if (pending) {
+        throw new HttpError(409, "Une empreinte est déjà publiée pour ce tirage : elle ne peut pas être remplacée");
+      }
+
+      // Generate cryptographic seed; only its hash is published until the reveal
+      const seed = randomBytes(128).toString('hex');
+      const seedHash = createHash('sha256').update(seed).digest('hex');
+
+      const [seedRecord] = await tx.insert(assignmentSeeds).values({
+        gameId,
+        seed,
+        seedHash,
+        generatedBy: adminId,
+        isActive: false,
       }).returning();
 
-      // Add team members
-      for (const userId of teamAssignments[i]) {
-        await this.addTeamMember(team.id, userId);
+      await tx.insert(auditLog).values({
+        action: 'commit_seed',
+        gameId,
+        adminId,
+        details: `Empreinte du seed publiée avant le tirage`,
+        seedHash,
+      });
+
+      return seedRecord;
+    });
+  }
+
+  async getPendingCommitment(gameId: string): Promise<AssignmentSeed | undefined> {
+    const [seed] = await db
+      .select()
+      .from(assignmentSeeds)
+      .where(pendingCommitment(gameId))
+      .orderBy(desc(assignmentSeeds.generatedAt))
+      .limit(1);
+    return seed || undefined;
+  }
+
+  // Pending commitment plus the participants, active challenges and missions the draw runs on
+  private async loadDrawSource(executor: DbExecutor, gameId: string, options: DrawOptions = {}) {
+    // The draw must use a seed whose hash was published beforehand
+    const [commitment] = await executor
+      .select()
+      .from(assignmentSeeds)
+      .where(pendingCommitment(gameId))
+      .orderBy(desc(assignmentSeeds.generatedAt))
+      .limit(1);
+    if (!commitment) {
+      throw new HttpError(409, "Aucune empreinte de seed publiée : publiez-la avant de lancer le tirage");
+    }
+
+    const participants = await executor
+      .select({ id: users.id, displayName: users.displayName })
+      .from(gameParticipants)
+      .innerJoin(users, eq(gameParticipants.userId, users.id))
+      .where(and(eq(gameParticipants.gameId, gameId), eq(users.isAdmin, false)));
+    const activeChallenges = await executor
+      .select()
+      .from(challenges)
+      .where(and(eq(challenges.gameId, gameId), eq(challenges.isActive, true)));
+    const activeMissions = await executor
+      .select()
+      .from(identificationMissions)
+      .where(and(eq(identificationMissions.gameId, gameId), eq(identificationMissions.isActive, true)));
+    const pairConstraints = await executor.select().from(teamConstraints).where(eq(teamConstraints.gameId, gameId));
+    const rules = await this.readGameRules(executor, gameId);
+    const input = normalizeDrawInput(participants, activeChallenges, {
+      ...drawRulesFrom(rules),
+      pairConstraints,
+      challengeReuse: options.challengeReuse,
+    }, activeMissions);
+
+    let draw: DrawResult;
+    try {
+      draw = drawAssignments(commitment.seed, input.participants, input.challenges, input, input.missions);
+    } catch (error) {
+      if (error instanceof DrawError) {
+        throw new HttpError(422, "Le tirage est impossible avec les paramètres actuels", error.issues);
       }
+      throw error;
     }
 
-    // Assign individual challenges
-    for (const user of allUsers) {
-      // 2 easy challenges
-      const userEasyChallenges = [...easyChallenges].sort(() => seededRandom() - 0.5).slice(0, 2);
-      for (const challenge of userEasyChallenges) {
-        await this.createAssignment({
-          userId: user.id,
-          challengeId: challenge.id,
-          status: 'not_started',
-        });
+    return { commitment, participants, activeChallenges, input, draw };
+  }
+
+  async previewAssignments(gameId: string, options: DrawOptions = {}): Promise<DrawPreview> {
+    const { commitment, participants, activeChallenges, input, draw } = await this.loadDrawSource(db, gameId, options);
+    const nameOf = new Map(participants.map(p => [p.id, p.displayName]));
+    const challengeOf = new Map(activeChallenges.map(c => [c.id, c]));
+    const teamOf = new Map(draw.teams.flatMap(t => t.memberIds.map(id => [id, t.name] as const)));
+    const targetedCount = (id: string) => draw.assignments.filter(a => a.targetUserId === id).length;
+
+    return {
+      seedHash: commitment.seedHash,
+      inputFingerprint: fingerprintDrawInput(input),
+      stats: computeDrawStats(input, draw),
+      teams: draw.teams.map(team => ({
+        name: team.name,
+        members: team.memberIds.map(id => ({ id, displayName: nameOf.get(id) ?? id })),
+        identificationMissionTitle: team.identificationMissionTitle,
+        teamChallengeTitle: team.teamChallengeId ? challengeOf.get(team.teamChallengeId)?.title ?? null : null,
+      })),
+      players: input.participants.map(({ id }) => ({
+        userId: id,
+        displayName: nameOf.get(id) ?? id,
+        teamName: teamOf.get(id) ?? null,
+        timesTargeted: targetedCount(id),
+        challenges: draw.assignments
+          .filter(a => a.userId === id)
+          .map(a => ({
+            challengeId: a.challengeId,
+            title: challengeOf.get(a.challengeId)!.title,
+            difficulty: challengeOf.get(a.challengeId)!.difficulty,
+            targetDisplayName: a.targetUserId ? nameOf.get(a.targetUserId) ?? a.targetUserId : null,
+          })),
+      })),
+    };
+  }
+
+  async generateAssignments(
+    gameId: string,
+    adminId: string,
+    expected?: DrawExpectation,
+    options: DrawOptions = {},
+    overrideReason?: string,
+  ): Promise<AssignmentSeed> {
+    // The whole draw runs in one transaction: a failure rolls everything back,
+    // and the advisory lock makes a concurrent generation fail fast instead of
+    // interleaving its deletes and inserts with ours.
+    return await db.transaction(async (tx) => {
+      const lock = await tx.execute(
+        sql`select pg_try_advisory_xact_lock(${GENERATE_ASSIGNMENTS_LOCK}, hashtext(${gameId})) as locked`,
+      );
+      if (!lock.rows[0]?.locked) {
+        throw new HttpError(409, "Un tirage est déjà en cours, réessayez dans un instant");
       }
 
-      // 2 medium challenges
-      const userMediumChallenges = [...mediumChallenges].sort(() => seededRandom() - 0.5).slice(0, 2);
-      for (const challenge of userMediumChallenges) {
-        let targetUserId: string | undefined = undefined;
-        if (challenge.needsTarget) {
-          const possibleTargets = allUsers.filter(u => u.id !== user.id);
-          targetUserId = possibleTargets[Math.floor(seededRandom() * possibleTargets.length)].id;
-        }
-        
-        await this.createAssignment({
-          userId: user.id,
-          challengeId: challenge.id,
-          targetUserId,
-          status: 'not_started',
-        });
+      // Once the game is running, redoing the draw needs an explicit, logged override
+      const [game] = await tx.select().from(games).where(eq(games.id, gameId));
+      const isOverride = regenerationNeedsOverride(game.phase);
+      if (!phaseAllows(game.phase, "generate_assignments") && !(isOverride && overrideReason)) {
+        throw new HttpError(409, isOverride
+          ? "Le jeu a commencé : une régénération doit être justifiée"
+          : `Tirage impossible en phase « ${PHASE_LABELS[game.phase]} »`);
       }
 
-      // 2 hard challenges
-      const userHardChallenges = [...hardChallenges].sort(() => seededRandom() - 0.5).slice(0, 2);
-      for (const challenge of userHardChallenges) {
-        let targetUserId: string | undefined = undefined;
-        if (challenge.needsTarget) {
-          const possibleTargets = allUsers.filter(u => u.id !== user.id);
-          targetUserId = possibleTargets[Math.floor(seededRandom() * possibleTargets.length)].id;
-        }
-        
-        await this.createAssignment({
-          userId: user.id,
-          challengeId: challenge.id,
-          targetUserId,
-          status: 'not_started',
-        });
+      const { commitment, activeChallenges, input, draw } = await this.loadDrawSource(tx, gameId, options);
+      if (expected && (
+        expected.seedHash !== commitment.seedHash ||
+        expected.inputFingerprint !== fingerprintDrawInput(input)
+      )) {
+        throw new HttpError(409, "Les participants, les défis ou les missions ont changé depuis l'aperçu : relancez l'aperçu");
       }
+
+      // Proofs already sent for the previous draw would block its deletion:
+      // they are archived and detached from the assignments and teams that go
+      const archivedProofs = await tx
+        .update(proofs)
+        .set({ archivedAt: sql`now()`, assignmentId: null, teamId: null })
+        .where(and(
+          eq(proofs.gameId, gameId),
+          or(isNotNull(proofs.assignmentId), isNotNull(proofs.teamId)),
+        ))
+        .returning({ id: proofs.id });
+
+      // Clear this edition's previous draw; other editions are left untouched
+      const previousTeams = tx.select({ id: teams.id }).from(teams).where(eq(teams.gameId, gameId));
+      await tx.delete(assignments).where(eq(assignments.gameId, gameId));
+      await tx.delete(teamMembers).where(inArray(teamMembers.teamId, previousTeams));
+      await tx.delete(teams).where(eq(teams.gameId, gameId));
+      await tx.update(assignmentSeeds).set({ isActive: false }).where(eq(assignmentSeeds.gameId, gameId));
+
+      // Commitments published before this one and never drawn (only possible
+      // before commitSeed allowed a single one) have their seeds published,
+      // so the draws they could have produced can be checked too
+      const superseded = await tx
+        .update(assignmentSeeds)
+        .set({ supersededAt: sql`now()` })
+        .where(and(pendingCommitment(gameId), ne(assignmentSeeds.id, commitment.id)))
+        .returning();
+      if (superseded.length > 0) {
+        await tx.insert(auditLog).values(superseded.map(abandoned => ({
+          action: 'supersede_seed' as const,
+          gameId,
+          adminId,
+          details: `Empreinte abandonnée sans tirage, seed publié : ${abandoned.seed}`,
+          seedHash: abandoned.seedHash,
+          metadata: { seed: abandoned.seed, generatedAt: abandoned.generatedAt, supersededBy: commitment.seedHash },
+        })));
+      }
+
+      // Activate the committed seed and keep a snapshot of the draw inputs
+      const [seedRecord] = await tx
+        .update(assignmentSeeds)
+        .set({
+          isActive: true,
+          drawnAt: sql`now()`,
+          participantCount: input.participants.length,
+          drawInput: input,
+        })
+        .where(eq(assignmentSeeds.id, commitment.id))
+        .returning();
+
+      // Batched inserts; team ids are generated here so members can reference them
+      const teamRows = draw.teams.map(drawnTeam => ({
+        id: randomUUID(),
+        gameId,
+        name: drawnTeam.name,
+        identificationMissionId: drawnTeam.identificationMissionId,
+        identificationMissionTitle: drawnTeam.identificationMissionTitle,
+        identificationMissionDescription: drawnTeam.identificationMissionDescription,
+        teamChallengeId: drawnTeam.teamChallengeId,
+      }));
+      const memberRows = draw.teams.flatMap((drawnTeam, i) =>
+        drawnTeam.memberIds.map(userId => ({ teamId: teamRows[i].id, userId })),
+      );
+      const versionOf = new Map(activeChallenges.map(c => [c.id, c.version]));
+      const assignmentRows = draw.assignments.map(drawnAssignment => ({
+        ...drawnAssignment,
+        gameId,
+        challengeVersion: versionOf.get(drawnAssignment.challengeId)!,
+        status: 'not_started' as const,
+      }));
+
+      if (teamRows.length > 0) await tx.insert(teams).values(teamRows);
+      if (memberRows.length > 0) await tx.insert(teamMembers).values(memberRows);
+      if (assignmentRows.length > 0) await tx.insert(assignments).values(assignmentRows);
+
+      // Generating publishes the draw
+      if (game.phase === "setup") {
+        await tx.update(games).set({ phase: "draw_published", phaseChangedAt: sql`now()` }).where(eq(games.id, gameId));
+      }
+
+      // Log audit entry
+      await tx.insert(auditLog).values(isOverride
+        ? {
+            action: 'regenerate_assignments',
+            gameId,
+            adminId,
+            details: `Assignations régénérées en phase « ${PHASE_LABELS[game.phase]} » : ${overrideReason}`
+              + (archivedProofs.length > 0 ? ` (${archivedProofs.length} preuve(s) archivée(s))` : ''),
+            seedHash: seedRecord.seedHash,
+            metadata: { phase: game.phase, reason: overrideReason, archivedProofIds: archivedProofs.map(p => p.id) },
+          }
+        : {
+            action: 'generate_assignments',
+            gameId,
+            adminId,
+            details: `Assignations générées pour ${input.participants.length} participants`
+              + (archivedProofs.length > 0 ? ` (${archivedProofs.length} preuve(s) archivée(s))` : ''),
+            seedHash: seedRecord.seedHash,
+            metadata: archivedProofs.length > 0 ? { archivedProofIds: archivedProofs.map(p => p.id) } : undefined,
+          });
+
+      return seedRecord;
+    });
+  }
+
+  async revealSeed(gameId: string, adminId: string): Promise<AssignmentSeed> {
+    const game = await this.getGame(gameId);
+    if (!game || !phaseAllows(game.phase, "reveal_seed")) {
+      throw new HttpError(409, "Le seed ne peut être révélé qu'une fois le jeu terminé (délibération ou clôture)");
     }
+    const current = await this.getCurrentSeed(gameId);
+    if (!current) {
+      throw new HttpError(404, "Aucun tirage actif à révéler");
+    }
+    if (current.revealedAt) {
+      return current;
+    }
+
+    const [seedRecord] = await db
+      .update(assignmentSeeds)
+      .set({ revealedAt: sql`now()` })
+      .where(eq(assignmentSeeds.id, current.id))
+      .returning();
 
-    // Log audit entry
     await this.createAuditLogEntry({
-      action: 'generate_assignments',
+      action: 'reveal_seed',
+      gameId,
       adminId,
-      details: `Assignations générées pour ${allUsers.length} participants`,
-      seedHash,
+      details: `Seed révélé : le tirage peut être recalculé par tous`,
+      seedHash: seedRecord.seedHash,
     });
 
     return seedRecord;
   }
 
-  async getCurrentSeed(): Promise<AssignmentSeed | undefined> {
+  async getRevealedDraw(gameId: string): Promise<RevealedDraw | undefined> {
+    const seed = await this.getCurrentSeed(gameId);
+    if (!seed?.revealedAt || !seed.drawInput) return undefined;
+
+    const storedTeams = await db.select().from(teams).where(eq(teams.gameId, gameId)).orderBy(teams.name);
+    const storedMembers = storedTeams.length > 0
+      ? await db.select().from(teamMembers).where(inArray(teamMembers.teamId, storedTeams.map(t => t.id)))
+      : [];
+    const storedAssignments = await db.select().from(assignments).where(eq(assignments.gameId, gameId));
+
+    return {
+      seed: seed.seed,
+      seedHash: seed.seedHash,
+      generatedAt: seed.generatedAt.toISOString(),
+      drawnAt: seed.drawnAt?.toISOString() ?? null,
+      revealedAt: seed.revealedAt.toISOString(),
+      input: seed.drawInput,
+      result: {
+        teams: storedTeams.map(team => ({
+          name: team.name,
+          memberIds: storedMembers.filter(m => m.teamId === team.id).map(m => m.userId),
+          identificationMissionId: team.identificationMissionId,
+          identificationMissionTitle: team.identificationMissionTitle,
+          identificationMissionDescription: team.identificationMissionDescription,
+          teamChallengeId: team.teamChallengeId,
+        })),
+        assignments: storedAssignments.map(a => ({
+          userId: a.userId,
+          challengeId: a.challengeId,
+          targetUserId: a.targetUserId,
+        })),
+      },
+    };
+  }
+
+  async getCurrentSeed(gameId: string): Promise<AssignmentSeed | undefined> {
     const [seed] = await db
       .select()
       .from(assignmentSeeds)
-      .where(eq(assignmentSeeds.isActive, true))
+      .where(and(eq(assignmentSeeds.gameId, gameId), eq(assignmentSeeds.isActive, true)))
       .orderBy(desc(assignmentSeeds.generatedAt))
       .limit(1);
     return seed || undefined;
   }
 
-  async createProof(proof: InsertProof): Promise<Proof> {
-    const [newProof] = await db.insert(proofs).values(proof).returning();
+  // Geolocation proofs are checked against the zone of their challenge or of
+  // the team's identification mission, when it has one
+  async createProof(gameId: string, proof: InsertProof, capture?: ProofCapture | null): Promise<Proof> {
+    if (proof.teamChallenge) {
+      const [team] = proof.teamId ? await db.select().from(teams).where(eq(teams.id, proof.teamId)) : [];
+      if (!team?.teamChallengeId) {
+        throw new HttpError(400, "Aucun défi d'équipe pour cette preuve");
+      }
+      if (!team.identificationMissionValidated) {
+        throw new HttpError(409, "Le défi d'équipe commence une fois la mission d'identification validée");
+      }
+    }
+
+    let locationCheck: LocationCheck | null = null;
+    if (proof.type === "geolocation") {
+      const position = declaredPositionSchema.safeParse(proof.metadata);
+      if (!position.success) {
+        throw new HttpError(400, "Position manquante ou invalide");
+      }
+      const geofence = await this.getProofGeofence(proof);
+      locationCheck = geofence ? checkLocation(geofence, position.data) : null;
+    }
+
+    const [newProof] = await db.insert(proofs).values({ ...proof, gameId, capture, locationCheck }).returning();
     return newProof;
   }
 
+  private async getProofGeofence(proof: InsertProof): Promise<Geofence | null> {
+    if (proof.assignmentId) {
+      const [row] = await db
+        .select({ geofence: challenges.geofence })
+        .from(assignments)
+        .innerJoin(challenges, eq(assignments.challengeId, challenges.id))
+        .where(eq(assignments.id, proof.assignmentId));
+      return row?.geofence ?? null;
+    }
+    if (proof.teamId && proof.teamChallenge) {
+      const [row] = await db
+        .select({ geofence: challenges.geofence })
+        .from(teams)
+        .innerJoin(challenges, eq(teams.teamChallengeId, challenges.id))
+        .where(eq(teams.id, proof.teamId));
+      return row?.geofence ?? null;
+    }
+    if (proof.teamId) {
+      const [row] = await db
+        .select({ geofence: identificationMissions.geofence })
+        .from(teams)
+        .innerJoin(identificationMissions, eq(teams.identificationMissionId, identificationMissions.id))
+        .where(eq(teams.id, proof.teamId));
+      return row?.geofence ?? null;
+    }
+    return null;
+  }
+
   async getProofsByAssignmentId(assignmentId: string): Promise<Proof[]> {
     return await db.select().from(proofs).where(eq(proofs.assignmentId, assignmentId));
   }
@@ -350,36 +1540,329 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(proofs).where(eq(proofs.teamId, teamId));
   }
 
-  async validateProof(proofId: string, validatorId: string): Promise<void> {
+  async getProof(gameId: string, proofId: string): Promise<Proof | undefined> {
+    const [proof] = await db.select().from(proofs).where(and(eq(proofs.id, proofId), eq(proofs.gameId, gameId)));
+    return proof || undefined;
+  }
+
+  // Oldest first, so proofs are reviewed in the order they were submitted
+  async getPendingProofs(gameId: string): Promise<PendingProof[]> {
+    const game = await this.getGame(gameId);
+    const rows = await db
+      .select({
+        proof: proofs,
+        submitterName: users.displayName,
+        // Wording the player was given, as in getAssignmentsByUserId
+        challengeTitle: sql<string | null>`coalesce(${challengeVersions.title}, ${challenges.title})`,
+        teamName: teams.name,
+      })
+      .from(proofs)
+      .innerJoin(users, eq(proofs.userId, users.id))
+      .leftJoin(assignments, eq(proofs.assignmentId, assignments.id))
+      .leftJoin(challenges, eq(assignments.challengeId, challenges.id))
+      .leftJoin(challengeVersions, and(
+        eq(challengeVersions.challengeId, assignments.challengeId),
+        eq(challengeVersions.version, assignments.challengeVersion),
+      ))
+      .leftJoin(teams, eq(proofs.teamId, teams.id))
+      .where(and(eq(proofs.gameId, gameId), eq(proofs.status, "pending"), isNull(proofs.archivedAt)))
+      .orderBy(proofs.submittedAt);
+
+    return rows.map(row => ({
+      ...row.proof,
+      submitterName: row.submitterName,
+      challengeTitle: row.challengeTitle,
+      teamName: row.teamName,
+      mediaUrl: row.proof.filePath ? `/api/media/${row.proof.id}` : null,
+      renditionUrls: Object.fromEntries(
+        MEDIA_RENDITIONS
+          .filter(name => row.proof.media?.renditions[name])
+          .map(name => [name, `/api/media/${row.proof.id}?rendition=${name}`]),
+      ),
+      flags: checkProof({
+        type: row.proof.type,
+        capture: row.proof.capture,
+        declared: row.proof.metadata,
+        submittedAt: row.proof.submittedAt,
+        startsAt: game?.startsAt ?? null,
+        endsAt: game?.endsAt ?? null,
+      }),
+    }));
+  }
+
+  // Oldest upload first; the conditional update makes sure a single worker
+  // takes each proof
+  async claimPendingProofMedia(): Promise<Proof | undefined> {
+    for (;;) {
+      const [next] = await db
+        .select({ id: proofs.id })
+        .from(proofs)
+        .where(eq(proofs.mediaStatus, "pending"))
+        .orderBy(proofs.submittedAt)
+        .limit(1);
+      if (!next) return undefined;
+
+      const [claimed] = await db
+        .update(proofs)
+        .set({ mediaStatus: "processing" })
+        .where(and(eq(proofs.id, next.id), eq(proofs.mediaStatus, "pending")))
+        .returning();
+      if (claimed) return claimed;
+    }
+  }
+
+  async completeProofMedia(proofId: string, media: ProofMedia): Promise<void> {
     await db
       .update(proofs)
-      .set({
-        isValidated: true,
-        validatedBy: validatorId,
-        validatedAt: sql`now()`,
-      })
+      .set({ mediaStatus: "ready", media, mediaError: null })
       .where(eq(proofs.id, proofId));
   }
 
+  async failProofMedia(proofId: string, error: string): Promise<void> {
+    await db
+      .update(proofs)
+      .set({ mediaStatus: "failed", mediaError: error })
+      .where(eq(proofs.id, proofId));
+  }
+
+  // Work cut short by a restart is started over
+  async requeueInterruptedProofMedia(): Promise<number> {
+    const requeued = await db
+      .update(proofs)
+      .set({ mediaStatus: "pending" })
+      .where(eq(proofs.mediaStatus, "processing"))
+      .returning({ id: proofs.id });
+    return requeued.length;
+  }
+
+  // Records the decision, tells the player, applies what an approval entails
+  // (see shared/proof-rules.ts) and logs it all, all or nothing
+  async reviewProof(gameId: string, proofId: string, review: ProofReview, reviewerId: string): Promise<ProofReviewResult> {
+    return await db.transaction(async (tx) => {
+      const [reviewed] = await tx
+        .update(proofs)
+        .set({
+          status: review.decision,
+          reviewComment: review.comment ?? null,
+          reviewedBy: reviewerId,
+          reviewedAt: sql`now()`,
+        })
+        .where(and(
+          eq(proofs.id, proofId),
+          eq(proofs.gameId, gameId),
+          eq(proofs.status, "pending"),
+          isNull(proofs.archivedAt),
+        ))
+        .returning();
+      if (!reviewed) {
+        const [existing] = await tx
+          .select({ id: proofs.id, archivedAt: proofs.archivedAt })
+          .from(proofs)
+          .where(and(eq(proofs.id, proofId), eq(proofs.gameId, gameId)));
+        if (!existing) throw new HttpError(404, "Preuve non trouvée");
+        throw new HttpError(409, existing.archivedAt
+          ? "Cette preuve a été archivée : son défi a disparu lors d'une régénération du tirage"
+          : "Cette preuve a déjà été examinée");
+      }
+
+      const approved = review.decision === "approved";
+      await tx.insert(notifications).values({
+        gameId,
+        userId: reviewed.userId,
+        kind: approved ? "proof_approved" : "proof_rejected",
+        title: approved ? "Preuve acceptée" : "Preuve refusée",
+        message: review.comment
+          ? review.comment
+          : "Votre preuve a été acceptée par les organisateurs.",
+        proofId: reviewed.id,
+      });
+
+      await tx.insert(auditLog).values({
+        action: 'review_proof',
+        gameId,
+        adminId: reviewerId,
+        details: `Preuve ${reviewed.id} ${approved ? "acceptée" : "refusée"}`,
+        metadata: { proofId: reviewed.id, decision: review.decision, comment: review.comment ?? null },
+      });
+
+      const effects = approved ? await this.applyApprovalEffects(tx, gameId, reviewed, reviewerId) : [];
+      return { proof: reviewed, effects };
+    });
+  }
+
+  private async applyApprovalEffects(tx: DbTransaction, gameId: string, proof: Proof, adminId: string): Promise<ApprovalEffect[]> {
+    const context: ApprovalContext = {};
+
+    if (proof.assignmentId) {
+      const [assignment] = await tx.select().from(assignments).where(eq(assignments.id, proof.assignmentId));
+      if (assignment) context.assignment = { id: assignment.id, status: assignment.status };
+    }
+
+    const [team] = proof.teamId ? await tx.select().from(teams).where(eq(teams.id, proof.teamId)) : [];
+    if (team && proof.teamChallenge) {
+      context.teamChallenge = { teamId: team.id, validated: team.teamChallengeValidatedAt !== null };
+    } else if (team) {
+      const [{ memberCount }] = await tx
+        .select({ memberCount: sql<number>`count(*)::int` })
+        .from(teamMembers)
+        .where(eq(teamMembers.teamId, team.id));
+      const [{ approvedMembers }] = await tx
+        .select({ approvedMembers: sql<number>`count(distinct ${proofs.userId})::int` })
+        .from(proofs)
+        .where(and(eq(proofs.teamId, team.id), eq(proofs.teamChallenge, false), eq(proofs.status, "approved")));
+      context.team = {
+        id: team.id,
+        missionValidated: team.identificationMissionValidated,
+        memberCount,
+        approvedMembers,
+      };
+    }
+
+    const rules = await this.readGameRules(tx, gameId);
+    const effects = approvalEffects(context, rules);
+    for (const effect of effects) {
+      if (effect.kind === "validate_assignment") {
+        await tx
+          .update(assignments)
+          .set({
+            status: "validated",
+            completedAt: sql`coalesce(${assignments.completedAt}, now())`,
+            validatedAt: sql`now()`,
+          })
+          .where(eq(assignments.id, effect.assignmentId));
+        await tx.insert(auditLog).values({
+          action: 'validate_assignment',
+          gameId,
+          adminId,
+          details: `Défi validé par l'acceptation de la preuve ${proof.id}`,
+          metadata: { assignmentId: effect.assignmentId, proofId: proof.id, from: effect.fromStatus },
+        });
+      } else if (effect.kind === "validate_team_challenge") {
+        await tx
+          .update(teams)
+          .set({ teamChallengeValidatedAt: sql`now()` })
+          .where(eq(teams.id, effect.teamId));
+        await tx.insert(auditLog).values({
+          action: 'validate_team_challenge',
+          gameId,
+          adminId,
+          details: `Défi d'équipe de l'équipe ${team!.name} validé par l'acceptation de la preuve ${proof.id}`,
+          metadata: { teamId: effect.teamId, proofId: proof.id, challengeId: team!.teamChallengeId },
+        });
+      } else {
+        await tx
+          .update(teams)
+          .set({ identificationMissionValidated: true })
+          .where(eq(teams.id, effect.teamId));
+        await tx.insert(auditLog).values({
+          action: 'validate_team_mission',
+          gameId,
+          adminId,
+          details: `Mission d'identification de l'équipe ${team!.name} validée : ${effect.approvedMembers}/${effect.required} preuves acceptées`,
+          metadata: { teamId: effect.teamId, proofId: proof.id, approvedMembers: effect.approvedMembers, required: effect.required },
+        });
+      }
+    }
+    return effects;
+  }
+
+  async getNotifications(gameId: string, userId: string): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.gameId, gameId), eq(notifications.userId, userId)))
+      .orderBy(desc(notifications.createdAt))
+      .limit(50);
+  }
+
+  async markNotificationRead(userId: string, id: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: sql`now()` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async markAllNotificationsRead(gameId: string, userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: sql`now()` })
+      .where(and(eq(notifications.gameId, gameId), eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  // Settings are read inside the draw transaction too; defaults apply until saved once
+  private async readGameRules(executor: DbExecutor, gameId: string): Promise<GameRules> {
+    const [settings] = await executor.select().from(gameSettings).where(eq(gameSettings.gameId, gameId));
+    return settings ?? DEFAULT_GAME_RULES;
+  }
+
+  async getGameSettings(gameId: string): Promise<GameSettings> {
+    const [settings] = await db.select().from(gameSettings).where(eq(gameSettings.gameId, gameId));
+    if (settings) return settings;
+
+    const [created] = await db
+      .insert(gameSettings)
+      .values({ gameId })
+      .onConflictDoNothing()
+      .returning();
+    return created ?? (await this.getGameSettings(gameId));
+  }
+
+  async updateGameSettings(gameId: string, changes: UpdateGameSettings, adminId: string): Promise<GameSettings> {
+    const current = await this.getGameSettings(gameId);
+    const next = { ...current, ...changes };
+    if (next.minTeamSize > next.maxTeamSize) {
+      throw new HttpError(400, "La taille minimale d'équipe dépasse la taille maximale");
+    }
+
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(gameSettings)
+        .set({ ...changes, updatedBy: adminId, updatedAt: sql`now()` })
+        .where(eq(gameSettings.id, current.id))
+        .returning();
+
+      // Challenge points are kept in line with the settings so scores follow them
+      for (const difficulty of ["easy", "medium", "hard", "team"] as const) {
+        await tx
+          .update(challenges)
+          .set({ points: challengePoints(updated, difficulty) })
+          .where(and(eq(challenges.gameId, gameId), eq(challenges.difficulty, difficulty)));
+      }
+
+      await tx.insert(auditLog).values({
+        action: "update_settings",
+        gameId,
+        adminId,
+        details: "Règles du jeu modifiées",
+        metadata: { changes },
+      });
+
+      return updated;
+    });
+  }
+
   async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
     const [logEntry] = await db.insert(auditLog).values(entry).returning();
     return logEntry;
   }
 
-  async getAuditLog(): Promise<AuditLogEntry[]> {
+  async getAuditLog(gameId: string): Promise<AuditLogEntry[]> {
     return await db
       .select()
       .from(auditLog)
+      .where(eq(auditLog.gameId, gameId))
       .orderBy(desc(auditLog.timestamp));
   }
 
-  async verifySeed(seedHash: string): Promise<boolean> {
-    const [seed] = await db
+  async verifySeed(seed: string): Promise<boolean> {
+    // A seed is genuine if it hashes to a commitment we published
+    const seedHash = createHash('sha256').update(seed).digest('hex');
+    const [record] = await db
       .select()
       .from(assignmentSeeds)
-      .where(eq(assignmentSeeds.seedHash, seedHash));
-    return !!seed;
+      .where(and(eq(assignmentSeeds.seedHash, seedHash), eq(assignmentSeeds.seed, seed)));
+    return !!record;
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkStatusTransition, statusTimestamps, type AssignmentStatus } from "./assignment-status";
+
+const STATUSES: AssignmentStatus[] = ["not_started", "in_progress", "completed", "validated"];
+
+// Every pair of statuses: who may make the move (none when it is illegal)
+const TRANSITIONS: [AssignmentStatus, AssignmentStatus, "both" | "admin" | "none"][] = [
+  ["not_started", "not_started", "none"],
+  ["not_started", "in_progress", "both"],
+  ["not_started", "completed", "none"],
+  ["not_started", "validated", "none"],
+  ["in_progress", "not_started", "admin"],
+  ["in_progress", "in_progress", "none"],
+  ["in_progress", "completed", "both"],
+  ["in_progress", "validated", "none"],
+  ["completed", "not_started", "none"],
+  ["completed", "in_progress", "admin"],
+  ["completed", "completed", "none"],
+  ["completed", "validated", "admin"],
+  ["validated", "not_started", "none"],
+  ["validated", "in_progress", "none"],
+  ["validated", "completed", "admin"],
+  ["validated", "validated", "none"],
+];
+
+test("the table covers every pair of statuses", () => {
+  assert.equal(TRANSITIONS.length, STATUSES.length ** 2);
+});
+
+for (const [from, to, allowed] of TRANSITIONS) {
+  test(`${from} → ${to}: ${allowed}`, () => {
+    const player = checkStatusTransition(from, to, false);
+    const admin = checkStatusTransition(from, to, true);
+
+    assert.equal(admin === null, allowed !== "none");
+    assert.equal(player === null, allowed === "both");
+    if (allowed === "none") {
+      assert.match(player!, /^Impossible de passer de/);
+      assert.equal(admin, player);
+    }
+    if (allowed === "admin") {
+      assert.match(player!, /^Seul un organisateur/);
+    }
+  });
+}
+
+test("timestamps follow the status entered", () => {
+  assert.deepEqual(STATUSES.map(statusTimestamps), [
+    { completedAt: "clear", validatedAt: "clear" },
+    { completedAt: "clear", validatedAt: "clear" },
+    { completedAt: "set", validatedAt: "clear" },
+    { completedAt: "set", validatedAt: "set" },
+  ]);
+});
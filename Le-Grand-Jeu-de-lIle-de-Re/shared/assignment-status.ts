@@ -0,0 +1,61 @@
+// Status of an assignment: players move their own challenge forward
+// (not_started → in_progress → completed), only admins validate it or move it
+// back a step. Validation normally comes from an approved proof
+// (shared/proof-rules.ts).
+
+import type { Assignment } from "./schema";
+
+export type AssignmentStatus = Assignment["status"];
+
+export const ASSIGNMENT_STATUS_LABELS: Record<AssignmentStatus, string> = {
+  not_started: "Pas commencé",
+  in_progress: "En cours",
+  completed: "Terminé",
+  validated: "Validé",
+};
+
+type Actor = "player" | "admin";
+
+interface StatusTransition {
+  from: AssignmentStatus;
+  to: AssignmentStatus;
+  allowed: Actor[];
+}
+
+const STATUS_TRANSITIONS: StatusTransition[] = [
+  { from: "not_started", to: "in_progress", allowed: ["player", "admin"] },
+  { from: "in_progress", to: "completed", allowed: ["player", "admin"] },
+  { from: "completed", to: "validated", allowed: ["admin"] },
+  // Reversals
+  { from: "in_progress", to: "not_started", allowed: ["admin"] },
+  { from: "completed", to: "in_progress", allowed: ["admin"] },
+  { from: "validated", to: "completed", allowed: ["admin"] },
+];
+
+// Why the transition is refused, or null when the actor may perform it
+export function checkStatusTransition(from: AssignmentStatus, to: AssignmentStatus, isAdmin: boolean): string | null {
+  const transition = STATUS_TRANSITIONS.find(t => t.from === from && t.to === to);
+  if (!transition) {
+    return `Impossible de passer de « ${ASSIGNMENT_STATUS_LABELS[from]} » à « ${ASSIGNMENT_STATUS_LABELS[to]} »`;
+  }
+  if (!transition.allowed.includes(isAdmin ? "admin" : "player")) {
+    return `Seul un organisateur peut passer un défi à « ${ASSIGNMENT_STATUS_LABELS[to]} »`;
+  }
+  return null;
+}
+
+// Timestamps entering a status sets (keeping an earlier value) or clears
+export function statusTimestamps(to: AssignmentStatus): {
+  completedAt: "set" | "clear";
+  validatedAt: "set" | "clear";
+} {
+  switch (to) {
+    case "not_started":
+    case "in_progress":
+      return { completedAt: "clear", validatedAt: "clear" };
+    case "completed":
+      return { completedAt: "set", validatedAt: "clear" };
+    case "validated":
+      return { completedAt: "set", validatedAt: "set" };
+  }
+}
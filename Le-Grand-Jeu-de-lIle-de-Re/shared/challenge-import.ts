@@ -0,0 +1,164 @@
+// Bulk import of the challenge bank: each record of an uploaded file is
+// validated and compared with the bank, so the admin sees what would be
+// added, changed or skipped before anything is written. Records are matched
+// to existing challenges by title, which survives copying the bank to a new
+// edition (ids do not).
+
+import { z } from "zod";
+import { geofenceSchema, type Geofence } from "./geofence";
+import { insertChallengeSchema, type Challenge } from "./schema";
+
+export const CHALLENGE_FILE_FORMATS = ["csv", "json", "yaml"] as const;
+export type ChallengeFileFormat = (typeof CHALLENGE_FILE_FORMATS)[number];
+
+// Columns of an exported file, in order; points follow the game settings
+export const CHALLENGE_FILE_FIELDS = ["title", "description", "difficulty", "needsTarget", "isActive", "geofence"] as const;
+type ChallengeField = (typeof CHALLENGE_FILE_FIELDS)[number];
+
+export const challengeImportSchema = z.object({
+  format: z.enum(CHALLENGE_FILE_FORMATS),
+  content: z.string().min(1),
+});
+
+export type ChallengeImportRequest = z.infer<typeof challengeImportSchema>;
+
+// Spreadsheets write booleans in many ways
+const TRUE_VALUES = ["true", "1", "oui", "yes", "vrai", "x"];
+const FALSE_VALUES = ["false", "0", "non", "no", "faux"];
+
+const spreadsheetBoolean = z.preprocess((value) => {
+  if (typeof value !== "string") return value;
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return value;
+}, z.boolean());
+
+// A CSV cell holds the zone as JSON, JSON and YAML files as an object; an
+// empty cell or null removes the zone
+const importedGeofence = z.unknown().transform((value, ctx): Geofence | null => {
+  let zone = value;
+  if (typeof value === "string") {
+    try {
+      zone = value.trim() === "" ? null : JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Zone illisible : un objet JSON est attendu" });
+      return z.NEVER;
+    }
+  }
+  const parsed = geofenceSchema.nullable().safeParse(zone);
+  if (!parsed.success) {
+    parsed.error.errors.forEach(issue => ctx.addIssue(issue));
+    return z.NEVER;
+  }
+  return parsed.data;
+});
+
+export const importedChallengeSchema = insertChallengeSchema
+  .pick({ title: true, description: true, difficulty: true })
+  .extend({
+    title: z.string().trim().min(1, "Titre manquant"),
+    description: z.string().trim().min(1, "Description manquante"),
+    needsTarget: spreadsheetBoolean.optional().default(false),
+    isActive: spreadsheetBoolean.optional().default(true),
+    // Left out by files exported before zones were: the existing zone is kept
+    geofence: importedGeofence.optional(),
+  });
+
+export type ImportedChallenge = z.infer<typeof importedChallengeSchema>;
+
+// One record of the file; row is the CSV line or the item number
+export interface ChallengeImportRecord {
+  row: number;
+  data: unknown;
+}
+
+export type ChallengeImportStatus = "new" | "changed" | "duplicate" | "invalid";
+
+export interface ChallengeImportRow {
+  row: number;
+  status: ChallengeImportStatus;
+  challenge?: ImportedChallenge;
+  // The challenge a changed or duplicate record matches
+  existingId?: string;
+  changes?: ChallengeField[];
+  messages: string[];
+}
+
+export interface ChallengeImportPlan {
+  rows: ChallengeImportRow[];
+  counts: Record<ChallengeImportStatus, number>;
+}
+
+type ExistingChallenge = Pick<Challenge, "id" | ChallengeField>;
+
+const titleKey = (title: string) => title.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Parsing puts the keys in schema order, which jsonb does not keep
+const geofenceKey = (geofence: Geofence | null) => {
+  if (!geofence) return "";
+  const parsed = geofenceSchema.safeParse(geofence);
+  return JSON.stringify(parsed.success ? parsed.data : geofence);
+};
+
+function differs(field: ChallengeField, challenge: ImportedChallenge, existing: ExistingChallenge): boolean {
+  if (field === "geofence") {
+    return challenge.geofence !== undefined && geofenceKey(challenge.geofence) !== geofenceKey(existing.geofence);
+  }
+  return challenge[field] !== existing[field];
+}
+
+export function planChallengeImport(
+  records: ChallengeImportRecord[],
+  existing: ExistingChallenge[],
+  // Challenges a stored draw uses: their difficulty and target are frozen
+  drawnIds: Set<string>,
+): ChallengeImportPlan {
+  const byTitle = new Map(existing.map(c => [titleKey(c.title), c]));
+  const seen = new Map<string, number>();
+
+  const rows = records.map(({ row, data }): ChallengeImportRow => {
+    const parsed = importedChallengeSchema.safeParse(data);
+    if (!parsed.success) {
+      return {
+        row,
+        status: "invalid",
+        messages: parsed.error.errors.map(e => (e.path.length > 0 ? `${e.path.join(".")} : ${e.message}` : e.message)),
+      };
+    }
+
+    const challenge = parsed.data;
+    const key = titleKey(challenge.title);
+    const earlierRow = seen.get(key);
+    if (earlierRow !== undefined) {
+      return { row, status: "duplicate", challenge, messages: [`Même titre qu'à la ligne ${earlierRow}`] };
+    }
+    seen.set(key, row);
+
+    const match = byTitle.get(key);
+    if (!match) {
+      return { row, status: "new", challenge, messages: [] };
+    }
+
+    const changes = CHALLENGE_FILE_FIELDS.filter(field => differs(field, challenge, match));
+    if (changes.length === 0) {
+      return { row, status: "duplicate", challenge, existingId: match.id, messages: ["Identique au défi existant"] };
+    }
+    if (drawnIds.has(match.id) && changes.some(field => field === "difficulty" || field === "needsTarget")) {
+      return {
+        row,
+        status: "invalid",
+        challenge,
+        existingId: match.id,
+        changes,
+        messages: ["Ce défi a déjà été tiré : sa difficulté et sa cible ne peuvent plus changer"],
+      };
+    }
+    return { row, status: "changed", challenge, existingId: match.id, changes, messages: [] };
+  });
+
+  const counts: Record<ChallengeImportStatus, number> = { new: 0, changed: 0, duplicate: 0, invalid: 0 };
+  for (const row of rows) counts[row.status]++;
+
+  return { rows, counts };
+}
@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SeededRandom } from "./prng";
+import {
+  challengeShareCap,
+  checkChallengeBank,
+  selectChallenges,
+  DEFAULT_CHALLENGE_QUOTA,
+  DEFAULT_CHALLENGE_REUSE,
+  type ChallengeReuseRules,
+} from "./challenge-selection";
+
+const bank = (n: number) => Array.from({ length: n }, (_, i) => ({ id: `c${i + 1}` }));
+const available = (easy: number, medium: number, hard: number, team: number) => ({ easy, medium, hard, team });
+const reuse = (maxPlayersPerChallenge: number | null, maxTeamsPerChallenge: number | null = null): ChallengeReuseRules =>
+  ({ allowReuse: true, maxPlayersPerChallenge, maxTeamsPerChallenge });
+
+// How many holders got each challenge
+function usage(selections: { id: string }[][]): Map<string, number> {
+  const uses = new Map<string, number>();
+  for (const challenge of selections.flat()) uses.set(challenge.id, (uses.get(challenge.id) ?? 0) + 1);
+  return uses;
+}
+
+function eachSeed(run: (random: SeededRandom) => void) {
+  for (let i = 0; i < 50; i++) run(SeededRandom.fromSeed(`challenges-${i}`));
+}
+
+test("without reuse no challenge is given twice", () => {
+  eachSeed(random => {
+    // Exactly as many challenges as needed: 7 players × 2
+    const selections = selectChallenges(random, bank(14), 7, 2, 1);
+    assert.equal(selections.length, 7);
+    for (const chosen of selections) assert.equal(chosen.length, 2);
+    assert.ok([...usage(selections).values()].every(uses => uses === 1));
+    assert.equal(usage(selections).size, 14);
+  });
+});
+
+test("with reuse a holder never gets the same challenge twice and caps hold", () => {
+  eachSeed(random => {
+    const selections = selectChallenges(random, bank(5), 6, 3, 4);
+    for (const chosen of selections) assert.equal(new Set(chosen.map(c => c.id)).size, 3);
+    const uses = [...usage(selections).values()];
+    assert.ok(uses.every(count => count <= 4));
+    // 18 picks over 5 challenges stay balanced: 3 or 4 each
+    assert.ok(Math.max(...uses) - Math.min(...uses) <= 1, `uses ${uses.join(", ")}`);
+  });
+});
+
+test("a bank just large enough for the check never makes the draw fail", () => {
+  // Players, challenges per player, share cap, smallest bank the check accepts
+  const cases: [number, number, number | null, number][] = [[9, 2, 1, 18], [10, 3, 4, 8], [5, 2, 3, 4], [3, 3, null, 3]];
+  for (const [players, perPlayer, cap, size] of cases) {
+    const quota = { easy: perPlayer, medium: 0, hard: 0, team: 0 };
+    assert.deepEqual(checkChallengeBank(available(size, 0, 0, 0), quota, reuse(cap), players, 0), []);
+    assert.equal(checkChallengeBank(available(size - 1, 0, 0, 0), quota, reuse(cap), players, 0).length, 1);
+
+    eachSeed(random => {
+      const selections = selectChallenges(random, bank(size), players, perPlayer, cap ?? Infinity);
+      assert.equal(selections.flat().length, players * perPlayer);
+    });
+  }
+});
+
+test("the same seed gives the same selection", () => {
+  const draw = () => selectChallenges(SeededRandom.fromSeed("repeat"), bank(20), 8, 2, 1).map(chosen => chosen.map(c => c.id));
+  assert.deepEqual(draw(), draw());
+});
+
+test("share caps follow the reuse rules", () => {
+  assert.equal(challengeShareCap("easy", DEFAULT_CHALLENGE_REUSE), 1);
+  assert.equal(challengeShareCap("team", DEFAULT_CHALLENGE_REUSE), 1);
+  assert.equal(challengeShareCap("hard", reuse(3, 2)), 3);
+  assert.equal(challengeShareCap("team", reuse(3, 2)), 2);
+  assert.equal(challengeShareCap("medium", reuse(null)), Infinity);
+});
+
+test("a well-stocked bank has no issues", () => {
+  // 10 players × 2 per difficulty, 4 teams × 1 team challenge
+  assert.deepEqual(checkChallengeBank(available(20, 20, 25, 4), DEFAULT_CHALLENGE_QUOTA, DEFAULT_CHALLENGE_REUSE, 10, 4), []);
+});
+
+test("every shortage is reported with the missing amounts", () => {
+  const issues = checkChallengeBank(available(19, 20, 3, 2), DEFAULT_CHALLENGE_QUOTA, DEFAULT_CHALLENGE_REUSE, 10, 4);
+  assert.deepEqual(issues.map(issue => issue.shortage), [
+    { difficulty: "easy", required: 20, available: 19 },
+    { difficulty: "hard", required: 20, available: 3 },
+    { difficulty: "team", required: 4, available: 2 },
+  ]);
+  assert.equal(issues[0].code, "challenge_shortage");
+  assert.equal(issues[0].message, "Défis faciles : 20 requis, 19 actif(s)");
+});
+
+test("reuse lowers the requirement but each holder still needs distinct challenges", () => {
+  // 10 players × 2 with up to 4 players per challenge: 5 challenges
+  assert.deepEqual(checkChallengeBank(available(5, 5, 5, 1), DEFAULT_CHALLENGE_QUOTA, reuse(4, 4), 10, 4), []);
+  // Unlimited sharing still needs 2 distinct challenges per player
+  const [issue] = checkChallengeBank(available(1, 2, 2, 1), DEFAULT_CHALLENGE_QUOTA, reuse(null, null), 10, 4);
+  assert.deepEqual(issue.shortage, { difficulty: "easy", required: 2, available: 1 });
+});
+
+test("nobody to serve needs no challenges", () => {
+  assert.deepEqual(checkChallengeBank(available(0, 0, 0, 0), DEFAULT_CHALLENGE_QUOTA, DEFAULT_CHALLENGE_REUSE, 0, 0), []);
+  assert.deepEqual(
+    checkChallengeBank(available(0, 0, 0, 0), { easy: 0, medium: 0, hard: 0, team: 0 }, DEFAULT_CHALLENGE_REUSE, 10, 4),
+    [],
+  );
+});
+
+test("invalid quotas and caps are reported before any shortage", () => {
+  const teamQuota = checkChallengeBank(available(0, 0, 0, 0), { ...DEFAULT_CHALLENGE_QUOTA, team: 2 }, DEFAULT_CHALLENGE_REUSE, 10, 4);
+  assert.deepEqual(teamQuota.map(issue => issue.code), ["invalid_quota"]);
+
+  const caps = checkChallengeBank(available(0, 0, 0, 0), DEFAULT_CHALLENGE_QUOTA, reuse(0, 1.5), 10, 4);
+  assert.deepEqual(caps.map(issue => issue.code), ["invalid_reuse_cap", "invalid_reuse_cap"]);
+});
@@ -0,0 +1,114 @@
+import type { SeededRandom } from "./prng";
+import type { DrawIssue } from "./draw-error";
+
+export type ChallengeDifficulty = "easy" | "medium" | "hard" | "team";
+
+// Challenges drawn per player (easy/medium/hard) and per team (team)
+export type ChallengeQuota = Record<ChallengeDifficulty, number>;
+
+export const DEFAULT_CHALLENGE_QUOTA: ChallengeQuota = { easy: 2, medium: 2, hard: 2, team: 1 };
+
+// By default every challenge goes to a single player (or team). With reuse
+// allowed, a challenge can be shared by several players, never twice by the
+// same one, up to the optional caps.
+export interface ChallengeReuseRules {
+  allowReuse: boolean;
+  maxPlayersPerChallenge: number | null;
+  maxTeamsPerChallenge: number | null;
+}
+
+export const DEFAULT_CHALLENGE_REUSE: ChallengeReuseRules = {
+  allowReuse: false,
+  maxPlayersPerChallenge: null,
+  maxTeamsPerChallenge: null,
+};
+
+const DIFFICULTY_LABELS: Record<ChallengeDifficulty, string> = {
+  easy: "faciles",
+  medium: "intermédiaires",
+  hard: "difficiles",
+  team: "d'équipe",
+};
+
+// How many holders (players or teams) may share one challenge of this difficulty
+export function challengeShareCap(difficulty: ChallengeDifficulty, reuse: ChallengeReuseRules): number {
+  if (!reuse.allowReuse) return 1;
+  const cap = difficulty === "team" ? reuse.maxTeamsPerChallenge : reuse.maxPlayersPerChallenge;
+  return cap ?? Infinity;
+}
+
+// Every shortage of the challenge bank for the given quota, reuse rules and
+// number of players and teams, reported with the missing amounts
+export function checkChallengeBank(
+  available: Record<ChallengeDifficulty, number>,
+  quota: ChallengeQuota,
+  reuse: ChallengeReuseRules,
+  participantCount: number,
+  teamCount: number,
+): DrawIssue[] {
+  const issues: DrawIssue[] = [];
+
+  if (quota.team > 1) {
+    issues.push({
+      code: "invalid_quota",
+      message: "Une équipe ne peut recevoir qu'un seul défi d'équipe",
+    });
+  }
+  for (const cap of [reuse.maxPlayersPerChallenge, reuse.maxTeamsPerChallenge]) {
+    if (reuse.allowReuse && cap !== null && (!Number.isInteger(cap) || cap < 1)) {
+      issues.push({
+        code: "invalid_reuse_cap",
+        message: `Plafond de partage invalide : ${cap}`,
+      });
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  for (const difficulty of Object.keys(DIFFICULTY_LABELS) as ChallengeDifficulty[]) {
+    const holders = difficulty === "team" ? teamCount : participantCount;
+    const perHolder = quota[difficulty];
+    if (holders === 0 || perHolder === 0) continue;
+
+    // Never twice to the same holder, and no challenge beyond its share cap
+    const cap = challengeShareCap(difficulty, reuse);
+    const required = Math.max(perHolder, Number.isFinite(cap) ? Math.ceil((holders * perHolder) / cap) : 0);
+    if (available[difficulty] < required) {
+      issues.push({
+        code: "challenge_shortage",
+        message: `Défis ${DIFFICULTY_LABELS[difficulty]} : ${required} requis, ${available[difficulty]} actif(s)`,
+        shortage: { difficulty, required, available: available[difficulty] },
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Give `perHolder` distinct challenges of `pool` to each of `holderCount`
+// holders. Each pick goes to one of the least used challenges still under the
+// cap, so usage stays balanced and the draw only fails when the bank is short,
+// which checkChallengeBank reports beforehand.
+export function selectChallenges<T extends { id: string }>(
+  random: SeededRandom,
+  pool: T[],
+  holderCount: number,
+  perHolder: number,
+  cap: number,
+): T[][] {
+  const uses = new Map(pool.map(c => [c.id, 0]));
+  const selections: T[][] = [];
+
+  for (let holder = 0; holder < holderCount; holder++) {
+    const chosen: T[] = [];
+    for (let i = 0; i < perHolder; i++) {
+      const candidates = pool.filter(c => uses.get(c.id)! < cap && !chosen.includes(c));
+      const fewest = Math.min(...candidates.map(c => uses.get(c.id)!));
+      const challenge = random.pick(candidates.filter(c => uses.get(c.id) === fewest));
+      uses.set(challenge.id, uses.get(challenge.id)! + 1);
+      chosen.push(challenge);
+    }
+    selections.push(chosen);
+  }
+
+  return selections;
+}
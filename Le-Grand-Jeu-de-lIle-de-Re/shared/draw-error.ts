@@ -0,0 +1,17 @@
+// Reasons a draw cannot be performed with the current participants, rules and
+// challenge bank. They are reported all at once so admins can fix everything
+// before trying again.
+export interface DrawIssue {
+  code: string;
+  message: string;
+  userIds?: string[];
+  // Set on "challenge_shortage": how many active challenges are missing
+  shortage?: { difficulty: string; required: number; available: number };
+}
+
+export class DrawError extends Error {
+  constructor(public issues: DrawIssue[]) {
+    super(issues.map(issue => issue.message).join(" ; "));
+    this.name = "DrawError";
+  }
+}
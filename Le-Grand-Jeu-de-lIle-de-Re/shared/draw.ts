@@ -0,0 +1,356 @@
+// Pure, deterministic assignment draw.
+//
+// Given the revealed seed and the exact participants, challenges and missions
+// that were used, anyone (server, audit page, a player's own script) can recompute the
+// teams, missions, challenges and targets and compare them with what was stored.
+// Nothing in this module may touch the database, the clock or Math.random.
+
+import { SeededRandom } from "./prng";
+import { sha256, toHex, utf8Bytes } from "./sha256";
+import { formTeams, DEFAULT_TEAM_SIZE, type PairConstraint, type TeamSizeRule } from "./team-formation";
+import { allocateTargets, DEFAULT_TARGET_RULES, type TargetRules } from "./target-allocation";
+import {
+  checkChallengeBank,
+  challengeShareCap,
+  selectChallenges,
+  DEFAULT_CHALLENGE_QUOTA,
+  DEFAULT_CHALLENGE_REUSE,
+  type ChallengeDifficulty,
+  type ChallengeQuota,
+  type ChallengeReuseRules,
+} from "./challenge-selection";
+import { DrawError } from "./draw-error";
+import { allocateMissions, checkMissionCapacity } from "./identification-missions";
+
+export type DrawDifficulty = ChallengeDifficulty;
+
+export interface DrawParticipant {
+  id: string;
+}
+
+export interface DrawChallenge {
+  id: string;
+  difficulty: DrawDifficulty;
+  needsTarget: boolean;
+}
+
+// An active identification mission, with the wording the teams will receive
+export interface DrawMission {
+  id: string;
+  title: string;
+  description: string;
+  capacity: number | null;
+}
+
+// Rules the draw must honour; they are part of the published draw input
+export interface DrawRules {
+  teamSize: TeamSizeRule;
+  pairConstraints: PairConstraint[];
+  targetRules: TargetRules;
+  challengeQuota: ChallengeQuota;
+  challengeReuse: ChallengeReuseRules;
+}
+
+export interface DrawInput extends DrawRules {
+  participants: DrawParticipant[];
+  challenges: DrawChallenge[];
+  // Absent from draws made before missions were managed in the database,
+  // which picked one of LEGACY_IDENTIFICATION_MISSIONS for each team
+  missions?: DrawMission[];
+}
+
+export interface DrawnTeam {
+  name: string;
+  memberIds: string[];
+  identificationMissionId: string | null;
+  identificationMissionTitle: string;
+  identificationMissionDescription: string;
+  teamChallengeId: string | null;
+}
+
+export interface DrawnAssignment {
+  userId: string;
+  challengeId: string;
+  targetUserId: string | null;
+}
+
+export interface DrawResult {
+  teams: DrawnTeam[];
+  assignments: DrawnAssignment[];
+}
+
+// Everything a player needs to re-derive the draw once the seed is revealed
+export interface RevealedDraw {
+  seed: string;
+  seedHash: string;
+  generatedAt: string;
+  drawnAt: string | null;
+  revealedAt: string;
+  input: DrawInput;
+  result: DrawResult;
+}
+
+export interface DrawStats {
+  participantCount: number;
+  teamCount: number;
+  // team size -> number of teams of that size
+  teamSizes: Record<number, number>;
+  challengesPerParticipant: { min: number; max: number };
+  // per difficulty: distinct challenges used and the most players (or teams) sharing one
+  challengeUsage: Record<DrawDifficulty, { distinct: number; maxShared: number }>;
+  timesTargeted: { min: number; max: number };
+}
+
+// Draw computed from the pending commitment without writing anything
+export interface DrawPreview {
+  seedHash: string;
+  inputFingerprint: string;
+  stats: DrawStats;
+  teams: {
+    name: string;
+    members: { id: string; displayName: string }[];
+    identificationMissionTitle: string;
+    teamChallengeTitle: string | null;
+  }[];
+  players: {
+    userId: string;
+    displayName: string;
+    teamName: string | null;
+    timesTargeted: number;
+    challenges: {
+      challengeId: string;
+      title: string;
+      difficulty: DrawDifficulty;
+      targetDisplayName: string | null;
+    }[];
+  }[];
+}
+
+export interface DrawComparison {
+  matches: boolean;
+  missingTeams: DrawnTeam[];
+  unexpectedTeams: DrawnTeam[];
+  missingAssignments: DrawnAssignment[];
+  unexpectedAssignments: DrawnAssignment[];
+}
+
+// The missions of older draws, kept word for word so they can still be recomputed
+const LEGACY_IDENTIFICATION_MISSIONS = [
+  {
+    title: "Retrouvez-vous au marché de Saint-Martin",
+    description: "Rendez-vous ensemble au marché de Saint-Martin-de-Ré entre 9h et 11h. Prenez une photo de groupe devant l'entrée principale.",
+  },
+  {
+    title: "Rassemblement au Phare des Baleines",
+    description: "Retrouvez-vous tous au pied du Phare des Baleines. Prenez une photo de groupe avec le phare en arrière-plan.",
+  },
+  {
+    title: "Réunion à la Plage de la Conche",
+    description: "Rendez-vous sur la plage de la Conche des Baleines. Prenez une photo de groupe sur le sable.",
+  },
+];
+
+const byId = <T extends { id: string }>(a: T, b: T) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Database row order is not stable, so the draw always works on inputs sorted by id
+export function normalizeDrawInput(
+  participants: DrawParticipant[],
+  challenges: DrawChallenge[],
+  rules: Partial<DrawRules> = {},
+  missions?: DrawMission[],
+): DrawInput {
+  const pairKey = (c: PairConstraint) => `${c.kind}|${c.userId}|${c.otherUserId}`;
+  return {
+    participants: participants.map(p => ({ id: p.id })).sort(byId),
+    challenges: challenges
+      .map(c => ({ id: c.id, difficulty: c.difficulty, needsTarget: c.needsTarget }))
+      .sort(byId),
+    teamSize: { ...(rules.teamSize ?? DEFAULT_TEAM_SIZE) },
+    pairConstraints: (rules.pairConstraints ?? [])
+      .map(c => {
+        const [userId, otherUserId] = [c.userId, c.otherUserId].sort();
+        return { userId, otherUserId, kind: c.kind };
+      })
+      .sort((a, b) => (pairKey(a) < pairKey(b) ? -1 : pairKey(a) > pairKey(b) ? 1 : 0)),
+    targetRules: { ...DEFAULT_TARGET_RULES, ...rules.targetRules },
+    challengeQuota: { ...DEFAULT_CHALLENGE_QUOTA, ...rules.challengeQuota },
+    challengeReuse: { ...DEFAULT_CHALLENGE_REUSE, ...rules.challengeReuse },
+    ...(missions && {
+      missions: missions
+        .map(m => ({ id: m.id, title: m.title, description: m.description, capacity: m.capacity ?? null }))
+        .sort(byId),
+    }),
+  };
+}
+
+// Identifies the exact inputs of a draw, so a preview can only be committed
+// if nobody was added or removed and no challenge changed in between
+export function fingerprintDrawInput(input: DrawInput): string {
+  return toHex(sha256(utf8Bytes(JSON.stringify(input))));
+}
+
+export function drawAssignments(
+  seed: string,
+  participants: DrawParticipant[],
+  challenges: DrawChallenge[],
+  rules: Partial<DrawRules> = {},
+  missions?: DrawMission[],
+): DrawResult {
+  const input = normalizeDrawInput(participants, challenges, rules, missions);
+  const random = SeededRandom.fromSeed(seed);
+
+  const pool = (difficulty: DrawDifficulty) => input.challenges.filter(c => c.difficulty === difficulty);
+
+  // Form teams within the size bounds, honouring the pair constraints
+  const teamRandom = random.fork("teams");
+  const formedTeams = formTeams(
+    teamRandom,
+    input.participants.map(p => p.id),
+    input.teamSize,
+    input.pairConstraints,
+  );
+
+  // The bank and the missions must cover every player and team before anything is drawn
+  const { challengeQuota: quota, challengeReuse: reuse } = input;
+  const issues = checkChallengeBank(
+    {
+      easy: pool("easy").length,
+      medium: pool("medium").length,
+      hard: pool("hard").length,
+      team: pool("team").length,
+    },
+    quota,
+    reuse,
+    input.participants.length,
+    formedTeams.length,
+  );
+  if (input.missions) issues.push(...checkMissionCapacity(input.missions, formedTeams.length));
+  if (issues.length > 0) throw new DrawError(issues);
+
+  const teamMissions: { id: string | null; title: string; description: string }[] = input.missions
+    ? allocateMissions(teamRandom, input.missions, formedTeams.length)
+    : formedTeams.map(() => ({ id: null, ...teamRandom.pick(LEGACY_IDENTIFICATION_MISSIONS) }));
+  const teamChallenges = selectChallenges(
+    teamRandom,
+    pool("team"),
+    formedTeams.length,
+    quota.team,
+    challengeShareCap("team", reuse),
+  );
+  const teams: DrawnTeam[] = formedTeams.map((memberIds, index) => ({
+    name: `Équipe #${index + 1}`,
+    memberIds,
+    identificationMissionId: teamMissions[index].id,
+    identificationMissionTitle: teamMissions[index].title,
+    identificationMissionDescription: teamMissions[index].description,
+    teamChallengeId: teamChallenges[index][0]?.id ?? null,
+  }));
+
+  // Individual challenges per the quota; nobody ever gets the same challenge twice
+  const challengeRandom = random.fork("challenges");
+  const perPlayer: DrawChallenge[][][] = (["easy", "medium", "hard"] as const).map(difficulty =>
+    selectChallenges(
+      challengeRandom,
+      pool(difficulty),
+      input.participants.length,
+      quota[difficulty],
+      challengeShareCap(difficulty, reuse),
+    ),
+  );
+  const assignments: DrawnAssignment[] = input.participants.flatMap((user, index) =>
+    perPlayer.flatMap(selections => selections[index]).map(challenge => ({
+      userId: user.id,
+      challengeId: challenge.id,
+      targetUserId: null as string | null,
+    })),
+  );
+
+  // Targets are allocated once every challenge is known, to balance them across players
+  const needsTarget = new Set(input.challenges.filter(c => c.needsTarget).map(c => c.id));
+  const slots = assignments.filter(a => needsTarget.has(a.challengeId));
+  const teamOf = new Map(teams.flatMap((team, index) => team.memberIds.map(id => [id, index] as const)));
+  const targets = allocateTargets(
+    random.fork("targets"),
+    slots,
+    input.participants.map(p => p.id),
+    teamOf,
+    input.targetRules,
+  );
+  slots.forEach((slot, index) => { slot.targetUserId = targets[index]; });
+
+  return { teams, assignments };
+}
+
+const range = (values: number[]) =>
+  values.length === 0 ? { min: 0, max: 0 } : { min: Math.min(...values), max: Math.max(...values) };
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  return counts;
+}
+
+// Fairness figures shown to admins before committing a draw
+export function computeDrawStats(input: DrawInput, result: DrawResult): DrawStats {
+  const teamSizes: Record<number, number> = {};
+  for (const team of result.teams) {
+    teamSizes[team.memberIds.length] = (teamSizes[team.memberIds.length] ?? 0) + 1;
+  }
+
+  const perParticipant = countBy(result.assignments, a => a.userId);
+  const targeted = countBy(result.assignments.filter(a => a.targetUserId), a => a.targetUserId!);
+  const difficultyOf = new Map(input.challenges.map(c => [c.id, c.difficulty]));
+
+  const usage = (difficulty: DrawDifficulty) => {
+    const counts = difficulty === "team"
+      ? countBy(result.teams.filter(t => t.teamChallengeId), t => t.teamChallengeId!)
+      : countBy(result.assignments.filter(a => difficultyOf.get(a.challengeId) === difficulty), a => a.challengeId);
+    return { distinct: counts.size, maxShared: range(Array.from(counts.values())).max };
+  };
+
+  return {
+    participantCount: input.participants.length,
+    teamCount: result.teams.length,
+    teamSizes,
+    challengesPerParticipant: range(input.participants.map(p => perParticipant.get(p.id) ?? 0)),
+    challengeUsage: {
+      easy: usage("easy"),
+      medium: usage("medium"),
+      hard: usage("hard"),
+      team: usage("team"),
+    },
+    timesTargeted: range(input.participants.map(p => targeted.get(p.id) ?? 0)),
+  };
+}
+
+const teamKey = (t: DrawnTeam) =>
+  [t.name, [...t.memberIds].sort().join(","), t.identificationMissionId ?? "", t.identificationMissionTitle, t.teamChallengeId ?? ""].join("|");
+const assignmentKey = (a: DrawnAssignment) => [a.userId, a.challengeId, a.targetUserId ?? ""].join("|");
+
+// Multiset difference: items of `a` not matched by an item of `b`
+function difference<T>(a: T[], b: T[], key: (item: T) => string): T[] {
+  const counts = countBy(b, key);
+
+  return a.filter(item => {
+    const count = counts.get(key(item)) ?? 0;
+    if (count === 0) return true;
+    counts.set(key(item), count - 1);
+    return false;
+  });
+}
+
+// Diff a recomputed draw against the stored one
+export function compareDraws(expected: DrawResult, actual: DrawResult): DrawComparison {
+  const missingTeams = difference(expected.teams, actual.teams, teamKey);
+  const unexpectedTeams = difference(actual.teams, expected.teams, teamKey);
+  const missingAssignments = difference(expected.assignments, actual.assignments, assignmentKey);
+  const unexpectedAssignments = difference(actual.assignments, expected.assignments, assignmentKey);
+
+  return {
+    matches: [missingTeams, unexpectedTeams, missingAssignments, unexpectedAssignments].every(d => d.length === 0),
+    missingTeams,
+    unexpectedTeams,
+    missingAssignments,
+    unexpectedAssignments,
+  };
+}
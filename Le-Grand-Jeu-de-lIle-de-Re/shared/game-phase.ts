@@ -0,0 +1,70 @@
+// Lifecycle of an edition: which phase may follow which, what players and
+// admins may do in each phase, and which transitions the scheduler applies.
+
+import type { Game } from "./schema";
+
+export type GamePhase = Game["phase"];
+
+export const GAME_PHASES: GamePhase[] = ["setup", "draw_published", "running", "judging", "closed"];
+
+export const PHASE_LABELS: Record<GamePhase, string> = {
+  setup: "Préparation",
+  draw_published: "Tirage publié",
+  running: "En cours",
+  judging: "Délibération",
+  closed: "Terminé",
+};
+
+// Going back is only possible before the game starts (to redo the draw) and
+// from judging (to reopen submissions); a closed game stays closed.
+export const PHASE_TRANSITIONS: Record<GamePhase, GamePhase[]> = {
+  setup: ["draw_published"],
+  draw_published: ["setup", "running"],
+  running: ["judging"],
+  judging: ["running", "closed"],
+  closed: [],
+};
+
+export function canTransition(from: GamePhase, to: GamePhase): boolean {
+  return PHASE_TRANSITIONS[from].includes(to);
+}
+
+export type PhaseAction =
+  | "generate_assignments"
+  | "submit_proof"
+  | "update_assignment_status"
+  | "validate_proof"
+  | "reveal_seed";
+
+const PHASE_ACTIONS: Record<GamePhase, PhaseAction[]> = {
+  setup: ["generate_assignments"],
+  draw_published: ["generate_assignments"],
+  running: ["submit_proof", "update_assignment_status", "validate_proof"],
+  // Revealing the seed publishes every target and team, so only once play is over
+  judging: ["validate_proof", "reveal_seed"],
+  closed: ["reveal_seed"],
+};
+
+export function phaseAllows(phase: GamePhase, action: PhaseAction): boolean {
+  return PHASE_ACTIONS[phase].includes(action);
+}
+
+// Once running, the draw can only be redone with an explicit, logged override
+export function regenerationNeedsOverride(phase: GamePhase): boolean {
+  return phase === "running" || phase === "judging";
+}
+
+// Transition the scheduler should apply now, if any: the published draw starts
+// at startsAt and play ends at endsAt. Closing after judging stays manual.
+export function dueTransition(
+  game: Pick<Game, "phase" | "startsAt" | "endsAt">,
+  now: Date,
+): GamePhase | null {
+  if (game.phase === "draw_published" && game.startsAt && game.startsAt <= now) {
+    return "running";
+  }
+  if (game.phase === "running" && game.endsAt && game.endsAt <= now) {
+    return "judging";
+  }
+  return null;
+}
@@ -0,0 +1,64 @@
+// Helpers turning the game settings row into the numbers used by the draw,
+// scoring and the UI, so none of them keeps its own copy of the rules.
+
+import type { GameSettings } from "./schema";
+import type { DrawRules } from "./draw";
+import type { ChallengeDifficulty } from "./challenge-selection";
+
+export type GameRules = Omit<GameSettings, "id" | "gameId" | "updatedBy" | "updatedAt">;
+
+// Same values as the column defaults, used until settings are loaded
+export const DEFAULT_GAME_RULES: GameRules = {
+  easyQuota: 2,
+  mediumQuota: 2,
+  hardQuota: 2,
+  teamQuota: 1,
+  easyPoints: 1,
+  mediumPoints: 3,
+  hardPoints: 5,
+  teamPoints: 3,
+  minTeamSize: 2,
+  maxTeamSize: 3,
+  teamProofMinimum: 2,
+  teamProofPercent: 50,
+  forbidTeammateTargets: true,
+  avoidMutualTargets: true,
+};
+
+export function challengePoints(rules: GameRules, difficulty: ChallengeDifficulty): number {
+  return {
+    easy: rules.easyPoints,
+    medium: rules.mediumPoints,
+    hard: rules.hardPoints,
+    team: rules.teamPoints,
+  }[difficulty];
+}
+
+// Individual challenges plus the team challenge, i.e. the "7 défis" of a player
+export function challengesPerPlayer(rules: GameRules): number {
+  return rules.easyQuota + rules.mediumQuota + rules.hardQuota + rules.teamQuota;
+}
+
+// Identification proofs a team must submit before its mission can be validated
+export function requiredTeamProofs(
+  rules: Pick<GameRules, "teamProofMinimum" | "teamProofPercent">,
+  memberCount: number,
+): number {
+  return Math.max(rules.teamProofMinimum, Math.ceil((memberCount * rules.teamProofPercent) / 100));
+}
+
+export function drawRulesFrom(rules: GameRules): Omit<DrawRules, "pairConstraints" | "challengeReuse"> {
+  return {
+    teamSize: { min: rules.minTeamSize, max: rules.maxTeamSize },
+    targetRules: {
+      forbidTeammates: rules.forbidTeammateTargets,
+      avoidMutual: rules.avoidMutualTargets,
+    },
+    challengeQuota: {
+      easy: rules.easyQuota,
+      medium: rules.mediumQuota,
+      hard: rules.hardQuota,
+      team: rules.teamQuota,
+    },
+  };
+}
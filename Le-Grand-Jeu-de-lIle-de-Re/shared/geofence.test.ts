@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkLocation, distanceMeters, geofenceCenter, geofenceSchema, type Geofence } from "./geofence";
+
+// The Phare des Baleines, and a point 1 km due north of it
+const LIGHTHOUSE = { latitude: 46.2447, longitude: -1.5614 };
+const ONE_KM_NORTH = { latitude: 46.2447 + 1000 / 111_195, longitude: -1.5614 };
+
+const circle = (radiusMeters: number): Geofence => ({ kind: "circle", ...LIGHTHOUSE, radiusMeters });
+
+// Meters to degrees of latitude, near enough for the tests
+const north = (meters: number) => ({ latitude: LIGHTHOUSE.latitude + meters / 111_195, longitude: LIGHTHOUSE.longitude });
+
+test("great-circle distances", () => {
+  assert.equal(distanceMeters(LIGHTHOUSE, LIGHTHOUSE), 0);
+  assert.ok(Math.abs(distanceMeters(LIGHTHOUSE, ONE_KM_NORTH) - 1000) < 1);
+  // Paris to La Rochelle is about 400 km
+  const km = distanceMeters({ latitude: 48.8566, longitude: 2.3522 }, { latitude: 46.1603, longitude: -1.1511 }) / 1000;
+  assert.ok(km > 395 && km < 410, `${km} km`);
+});
+
+test("a circle holds the positions within its radius", () => {
+  assert.deepEqual(checkLocation(circle(200), LIGHTHOUSE), { inside: true, distanceMeters: 0 });
+  assert.deepEqual(checkLocation(circle(200), north(150)), { inside: true, distanceMeters: 0 });
+  assert.deepEqual(checkLocation(circle(200), ONE_KM_NORTH), { inside: false, distanceMeters: 800 });
+});
+
+test("the circle's edge counts as inside", () => {
+  const edge = north(200);
+  const radius = distanceMeters(LIGHTHOUSE, edge);
+  assert.equal(checkLocation({ kind: "circle", ...LIGHTHOUSE, radiusMeters: radius }, edge).inside, true);
+  assert.equal(checkLocation({ kind: "circle", ...LIGHTHOUSE, radiusMeters: radius - 0.5 }, edge).inside, false);
+});
+
+test("a position within its accuracy of the zone counts, up to 50 m", () => {
+  const outside = north(230);
+  assert.deepEqual(checkLocation(circle(200), { ...outside, accuracy: 40 }), { inside: true, distanceMeters: 30, accuracyMeters: 40 });
+  assert.equal(checkLocation(circle(200), { ...outside, accuracy: 20 }).inside, false);
+  // A 500 m accuracy does not make a position 60 m away count
+  assert.equal(checkLocation(circle(200), { ...north(260), accuracy: 500 }).inside, false);
+});
+
+// A rough square of about 1.1 km around the lighthouse
+const SQUARE: Geofence = {
+  kind: "polygon",
+  points: [
+    { latitude: 46.24, longitude: -1.568 },
+    { latitude: 46.24, longitude: -1.554 },
+    { latitude: 46.25, longitude: -1.554 },
+    { latitude: 46.25, longitude: -1.568 },
+  ],
+};
+
+test("a polygon holds the positions inside it and measures the others to its nearest edge", () => {
+  assert.deepEqual(checkLocation(SQUARE, LIGHTHOUSE), { inside: true, distanceMeters: 0 });
+  // 0.005° of latitude north of the top edge is about 556 m
+  const check = checkLocation(SQUARE, { latitude: 46.255, longitude: -1.561 });
+  assert.equal(check.inside, false);
+  assert.ok(Math.abs(check.distanceMeters - 556) <= 1, `${check.distanceMeters} m`);
+  // Past a corner the distance is to the corner itself
+  const corner = checkLocation(SQUARE, { latitude: 46.255, longitude: -1.548 });
+  assert.ok(Math.abs(corner.distanceMeters - distanceMeters({ latitude: 46.25, longitude: -1.554 }, { latitude: 46.255, longitude: -1.548 })) <= 2);
+});
+
+test("a point on a polygon's edge is inside", () => {
+  assert.equal(checkLocation(SQUARE, { latitude: 46.25, longitude: -1.56 }).inside, true);
+  assert.equal(checkLocation(SQUARE, { latitude: 46.245, longitude: -1.554 }).inside, true);
+});
+
+test("concave polygons exclude their notch", () => {
+  // A "U" open to the north: the notch between the arms is outside
+  const u: Geofence = {
+    kind: "polygon",
+    points: [
+      { latitude: 46.20, longitude: -1.40 },
+      { latitude: 46.20, longitude: -1.37 },
+      { latitude: 46.23, longitude: -1.37 },
+      { latitude: 46.23, longitude: -1.38 },
+      { latitude: 46.21, longitude: -1.38 },
+      { latitude: 46.21, longitude: -1.39 },
+      { latitude: 46.23, longitude: -1.39 },
+      { latitude: 46.23, longitude: -1.40 },
+    ],
+  };
+  assert.equal(checkLocation(u, { latitude: 46.22, longitude: -1.395 }).inside, true);
+  assert.equal(checkLocation(u, { latitude: 46.22, longitude: -1.375 }).inside, true);
+  assert.equal(checkLocation(u, { latitude: 46.205, longitude: -1.385 }).inside, true);
+  const notch = checkLocation(u, { latitude: 46.22, longitude: -1.385 });
+  assert.equal(notch.inside, false);
+  // Half of 0.01° of longitude at this latitude
+  assert.ok(Math.abs(notch.distanceMeters - 385) <= 2, `${notch.distanceMeters} m`);
+});
+
+// Around Taveuni, Fiji, where the 180th meridian crosses land
+const ANTIMERIDIAN: Geofence = {
+  kind: "polygon",
+  points: [
+    { latitude: -16.85, longitude: 179.9 },
+    { latitude: -16.85, longitude: -179.9 },
+    { latitude: -16.75, longitude: -179.9 },
+    { latitude: -16.75, longitude: 179.9 },
+  ],
+};
+
+test("polygons across the antimeridian", () => {
+  assert.equal(checkLocation(ANTIMERIDIAN, { latitude: -16.8, longitude: 179.95 }).inside, true);
+  assert.equal(checkLocation(ANTIMERIDIAN, { latitude: -16.8, longitude: -179.95 }).inside, true);
+  assert.equal(checkLocation(ANTIMERIDIAN, { latitude: -16.8, longitude: 180 }).inside, true);
+  const west = checkLocation(ANTIMERIDIAN, { latitude: -16.8, longitude: 179.8 });
+  assert.equal(west.inside, false);
+  // 0.1° of longitude at 16.8° S
+  assert.ok(Math.abs(west.distanceMeters - 10_643) <= 20, `${west.distanceMeters} m`);
+});
+
+test("circles across the antimeridian", () => {
+  const fence: Geofence = { kind: "circle", latitude: -16.8, longitude: 179.99, radiusMeters: 5000 };
+  assert.equal(checkLocation(fence, { latitude: -16.8, longitude: -179.98 }).inside, true);
+});
+
+test("the centre of a zone", () => {
+  assert.deepEqual(geofenceCenter(circle(100)), LIGHTHOUSE);
+  const center = geofenceCenter(SQUARE);
+  assert.ok(Math.abs(center.latitude - 46.245) < 1e-9 && Math.abs(center.longitude + 1.561) < 1e-9);
+  const across = geofenceCenter(ANTIMERIDIAN);
+  assert.ok(Math.abs(across.latitude + 16.8) < 1e-9);
+  assert.ok(Math.abs(Math.abs(across.longitude) - 180) < 1e-9, `${across.longitude}`);
+});
+
+test("zones are validated", () => {
+  assert.equal(geofenceSchema.safeParse(circle(100)).success, true);
+  assert.equal(geofenceSchema.safeParse(circle(0)).success, false);
+  assert.equal(geofenceSchema.safeParse({ ...circle(100), latitude: 91 }).success, false);
+  assert.equal(geofenceSchema.safeParse({ kind: "polygon", points: SQUARE.kind === "polygon" ? SQUARE.points.slice(0, 2) : [] }).success, false);
+});
@@ -0,0 +1,120 @@
+// Zones a location challenge or an identification mission must be done in:
+// a point with a radius, or a polygon for places like a beach. Proofs of type
+// "geolocation" are checked against them by the server when submitted.
+
+import { z } from "zod";
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const geofenceSchema = z.discriminatedUnion("kind", [
+  geoPointSchema.extend({
+    kind: z.literal("circle"),
+    radiusMeters: z.number().positive().max(50_000),
+  }),
+  z.object({
+    kind: z.literal("polygon"),
+    points: z.array(geoPointSchema).min(3, "Un polygone a au moins trois sommets"),
+  }),
+]);
+
+export type Geofence = z.infer<typeof geofenceSchema>;
+
+// Result stored on a geolocation proof for the reviewer
+export interface LocationCheck {
+  inside: boolean;
+  // 0 inside the zone, otherwise how far from its edge
+  distanceMeters: number;
+  accuracyMeters?: number;
+}
+
+// A phone's fix is only this precise; a position within its accuracy (up to
+// this much) of the zone counts as inside
+export const MAX_ACCURACY_ALLOWANCE_METERS = 50;
+
+const EARTH_RADIUS_METERS = 6_371_000;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Eastward difference in [-180, 180], so zones across the antimeridian stay in
+// one piece; exact when there is nothing to wrap, so edges stay on the edge
+const longitudeDelta = (from: number, to: number) =>
+  Math.abs(to - from) <= 180 ? to - from : ((to - from + 540) % 360) - 180;
+
+// Great-circle distance in meters
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const dLatitude = toRadians(b.latitude - a.latitude);
+  const dLongitude = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLatitude / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Polygons are small enough to be measured on a plane centred on the position
+function polygonDistance(points: GeoPoint[], position: GeoPoint): number {
+  const scale = Math.cos(toRadians(position.latitude));
+  const project = (point: GeoPoint) => ({
+    x: toRadians(longitudeDelta(position.longitude, point.longitude)) * scale * EARTH_RADIUS_METERS,
+    y: toRadians(point.latitude - position.latitude) * EARTH_RADIUS_METERS,
+  });
+  const vertices = points.map(project);
+
+  // Ray casting from the position (the origin) towards +x
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.y > 0) !== (b.y > 0) && a.x + ((0 - a.y) * (b.x - a.x)) / (b.y - a.y) > 0) {
+      inside = !inside;
+    }
+  }
+  if (inside) return 0;
+
+  // Otherwise the nearest edge
+  let nearest = Infinity;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[j];
+    const b = vertices[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = dx * dx + dy * dy;
+    const t = length === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / length));
+    nearest = Math.min(nearest, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return nearest;
+}
+
+export function checkLocation(fence: Geofence, position: GeoPoint & { accuracy?: number }): LocationCheck {
+  const distance = fence.kind === "circle"
+    ? Math.max(0, distanceMeters(fence, position) - fence.radiusMeters)
+    : polygonDistance(fence.points, position);
+  const allowance = Math.min(position.accuracy ?? 0, MAX_ACCURACY_ALLOWANCE_METERS);
+
+  return {
+    inside: distance <= allowance,
+    distanceMeters: Math.round(distance),
+    ...(position.accuracy !== undefined ? { accuracyMeters: Math.round(position.accuracy) } : {}),
+  };
+}
+
+// Centre of the zone, to show it on a map
+export function geofenceCenter(fence: Geofence): GeoPoint {
+  if (fence.kind === "circle") return { latitude: fence.latitude, longitude: fence.longitude };
+  const origin = fence.points[0].longitude;
+  const latitude = fence.points.reduce((sum, point) => sum + point.latitude, 0) / fence.points.length;
+  const offset = fence.points.reduce((sum, point) => sum + longitudeDelta(origin, point.longitude), 0) / fence.points.length;
+  return { latitude, longitude: longitudeDelta(0, origin + offset) };
+}
+
+// Position a player declared with a geolocation proof, when it is usable
+export const declaredPositionSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+});
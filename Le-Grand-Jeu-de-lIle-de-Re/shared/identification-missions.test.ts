@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SeededRandom } from "./prng";
+import { DrawError } from "./draw-error";
+import { allocateMissions, checkMissionCapacity, formatMissionWindow } from "./identification-missions";
+
+const mission = (id: string, capacity: number | null) => ({ id, capacity });
+
+// Teams each mission received
+function spread(places: { id: string }[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const place of places) counts[place.id] = (counts[place.id] ?? 0) + 1;
+  return counts;
+}
+
+function eachSeed(run: (random: SeededRandom) => void) {
+  for (let i = 0; i < 50; i++) run(SeededRandom.fromSeed(`missions-${i}`));
+}
+
+test("one mission per team, spread evenly without capacities", () => {
+  const missions = [mission("a", null), mission("b", null), mission("c", null)];
+  eachSeed(random => {
+    const places = allocateMissions(random, missions, 8);
+    assert.equal(places.length, 8);
+    const counts = Object.values(spread(places));
+    assert.ok(Math.max(...counts) - Math.min(...counts) <= 1, `counts ${counts.join(", ")}`);
+  });
+});
+
+test("capacities are never exceeded and the rest goes to the other missions", () => {
+  const missions = [mission("small", 1), mission("medium", 2), mission("open", null)];
+  eachSeed(random => {
+    const counts = spread(allocateMissions(random, missions, 7));
+    assert.deepEqual(counts, { small: 1, medium: 2, open: 4 });
+  });
+});
+
+test("exactly enough places fills every mission", () => {
+  const missions = [mission("a", 2), mission("b", 3)];
+  eachSeed(random => {
+    assert.deepEqual(spread(allocateMissions(random, missions, 5)), { a: 2, b: 3 });
+  });
+});
+
+test("with fewer teams than missions, no mission gets two", () => {
+  const missions = ["a", "b", "c", "d", "e"].map(id => mission(id, null));
+  const used = new Set<string>();
+  eachSeed(random => {
+    const places = allocateMissions(random, missions, 3);
+    assert.equal(new Set(places.map(place => place.id)).size, 3);
+    for (const place of places) used.add(place.id);
+  });
+  // Which missions are used is left to the draw
+  assert.equal(used.size, 5);
+});
+
+test("the same seed gives the same missions", () => {
+  const missions = [mission("a", 2), mission("b", null), mission("c", 1)];
+  const draw = () => allocateMissions(SeededRandom.fromSeed("repeat"), missions, 6).map(place => place.id);
+  assert.deepEqual(draw(), draw());
+});
+
+test("too few places for the teams is reported with the numbers", () => {
+  const missions = [mission("a", 2), mission("b", 1)];
+  assert.deepEqual(checkMissionCapacity(missions, 4), [{
+    code: "mission_capacity",
+    message: "Missions d'identification : 3 place(s) pour 4 équipes",
+  }]);
+  assert.throws(
+    () => allocateMissions(SeededRandom.fromSeed("full"), missions, 4),
+    (error: unknown) => error instanceof DrawError && error.issues[0].code === "mission_capacity",
+  );
+  // One mission without a limit takes everyone
+  assert.deepEqual(checkMissionCapacity([...missions, mission("c", null)], 40), []);
+});
+
+test("missing missions and invalid capacities are reported", () => {
+  assert.deepEqual(checkMissionCapacity([], 2).map(issue => issue.code), ["no_mission"]);
+  assert.deepEqual(checkMissionCapacity([mission("a", 0)], 1).map(issue => issue.code), ["invalid_mission_capacity"]);
+  assert.deepEqual(checkMissionCapacity([mission("a", 1.5)], 1).map(issue => issue.code), ["invalid_mission_capacity"]);
+  // No teams need no missions
+  assert.deepEqual(checkMissionCapacity([], 0), []);
+  assert.deepEqual(allocateMissions(SeededRandom.fromSeed("none"), [], 0), []);
+});
+
+test("mission windows are shown in the island's time", () => {
+  assert.equal(formatMissionWindow("2026-07-14T07:00:00Z", "2026-07-14T09:00:00Z"), "14/07 09:00 – 11:00");
+  assert.equal(formatMissionWindow("2026-07-14T20:00:00Z", "2026-07-15T08:00:00Z"), "14/07 22:00 – 15/07 10:00");
+  assert.equal(formatMissionWindow("2026-07-14T07:00:00Z", null), "À partir du 14/07 09:00");
+  assert.equal(formatMissionWindow(null, "2026-07-14T09:00:00Z"), "Jusqu'au 14/07 11:00");
+  assert.equal(formatMissionWindow(null, null), null);
+});
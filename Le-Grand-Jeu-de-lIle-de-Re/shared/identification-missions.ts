@@ -0,0 +1,111 @@
+import type { SeededRandom } from "./prng";
+import { DrawError, type DrawIssue } from "./draw-error";
+import type { Geofence } from "./geofence";
+import { GAME_TIME_ZONE } from "./proof-checks";
+
+// Most teams one mission can receive; null for no limit
+export interface MissionCapacity {
+  capacity: number | null;
+}
+
+// Rendez-vous a new edition starts with; admins edit them like the challenges
+export const DEFAULT_IDENTIFICATION_MISSIONS: { title: string; description: string; location: string; geofence: Geofence }[] = [
+  {
+    title: "Retrouvez-vous au marché de Saint-Martin",
+    description: "Rendez-vous ensemble au marché de Saint-Martin-de-Ré entre 9h et 11h. Prenez une photo de groupe devant l'entrée principale.",
+    location: "Marché de Saint-Martin-de-Ré",
+    geofence: { kind: "circle", latitude: 46.2036, longitude: -1.3662, radiusMeters: 150 },
+  },
+  {
+    title: "Rassemblement au Phare des Baleines",
+    description: "Retrouvez-vous tous au pied du Phare des Baleines. Prenez une photo de groupe avec le phare en arrière-plan.",
+    location: "Phare des Baleines",
+    geofence: { kind: "circle", latitude: 46.2446, longitude: -1.5617, radiusMeters: 200 },
+  },
+  {
+    title: "Réunion à la Plage de la Conche",
+    description: "Rendez-vous sur la plage de la Conche des Baleines. Prenez une photo de groupe sur le sable.",
+    location: "Plage de la Conche des Baleines",
+    // The beach runs along the north-west shore, from the lighthouse to Les Portes
+    geofence: {
+      kind: "polygon",
+      points: [
+        { latitude: 46.2432, longitude: -1.5571 },
+        { latitude: 46.2401, longitude: -1.5402 },
+        { latitude: 46.2352, longitude: -1.5238 },
+        { latitude: 46.2326, longitude: -1.5251 },
+        { latitude: 46.2372, longitude: -1.5415 },
+        { latitude: 46.2405, longitude: -1.5583 },
+      ],
+    },
+  },
+];
+
+// Every reason the teams cannot all be sent to one of the missions
+export function checkMissionCapacity(missions: MissionCapacity[], teamCount: number): DrawIssue[] {
+  if (teamCount === 0) return [];
+  if (missions.length === 0) {
+    return [{ code: "no_mission", message: "Aucune mission d'identification active" }];
+  }
+
+  const invalid = missions.filter(m => m.capacity !== null && (!Number.isInteger(m.capacity) || m.capacity < 1));
+  if (invalid.length > 0) {
+    return [{ code: "invalid_mission_capacity", message: `Capacité de mission invalide : ${invalid[0].capacity}` }];
+  }
+
+  if (missions.every(m => m.capacity !== null)) {
+    const places = missions.reduce((total, m) => total + m.capacity!, 0);
+    if (places < teamCount) {
+      return [{
+        code: "mission_capacity",
+        message: `Missions d'identification : ${places} place(s) pour ${teamCount} équipes`,
+      }];
+    }
+  }
+  return [];
+}
+
+// Spreads the teams as evenly as the capacities allow: each round gives one
+// more team to every mission that still has room, in a random order when
+// fewer teams are left than missions. The places are then shuffled, so the
+// result lists the mission of each team in turn.
+export function allocateMissions<T extends MissionCapacity>(random: SeededRandom, missions: T[], teamCount: number): T[] {
+  const issues = checkMissionCapacity(missions, teamCount);
+  if (issues.length > 0) throw new DrawError(issues);
+
+  const counts = missions.map(() => 0);
+  let remaining = teamCount;
+  while (remaining > 0) {
+    const open = missions
+      .map((_, index) => index)
+      .filter(index => missions[index].capacity === null || counts[index] < missions[index].capacity!);
+    for (const index of random.sample(open, remaining)) {
+      counts[index]++;
+      remaining--;
+    }
+  }
+
+  const places = missions.flatMap((mission, index) => Array.from({ length: counts[index] }, () => mission));
+  return random.shuffle(places);
+}
+
+const formatTime = (date: Date, withDay: boolean) =>
+  new Date(date).toLocaleString("fr-FR", {
+    timeZone: GAME_TIME_ZONE,
+    ...(withDay ? { day: "2-digit", month: "2-digit" } : {}),
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// "14/07 09:00 – 11:00", or null when the teams may come at any time
+export function formatMissionWindow(startsAt: Date | string | null, endsAt: Date | string | null): string | null {
+  const start = startsAt ? new Date(startsAt) : null;
+  const end = endsAt ? new Date(endsAt) : null;
+  if (start && end) {
+    const sameDay = formatTime(start, true).slice(0, 5) === formatTime(end, true).slice(0, 5);
+    return `${formatTime(start, true)} – ${formatTime(end, !sameDay)}`;
+  }
+  if (start) return `À partir du ${formatTime(start, true)}`;
+  if (end) return `Jusqu'au ${formatTime(end, true)}`;
+  return null;
+}
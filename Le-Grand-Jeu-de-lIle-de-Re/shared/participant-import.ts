@@ -0,0 +1,179 @@
+// Bulk enrolment of participants from a CSV file. Each line becomes a new
+// account (with a generated password), or enrols an existing account when its
+// username is already taken; team constraints name other participants by
+// username. Pure, so the preview and the import classify lines identically.
+
+import { z } from "zod";
+import { insertUserSchema, type User } from "./schema";
+
+export const PARTICIPANT_CSV_COLUMNS = ["displayName", "username", "email", "phone", "together", "apart"] as const;
+
+export const participantImportSchema = z.object({
+  content: z.string().min(1),
+});
+
+export const credentialsResetSchema = z.object({
+  userIds: z.array(z.string()).min(1),
+});
+
+// Handed out once, on a printed login card
+export interface LoginCredential {
+  userId: string;
+  displayName: string;
+  username: string;
+  password: string;
+}
+
+// Usernames separated by spaces, commas or "|"
+const usernameList = z.preprocess(
+  (value) => (typeof value === "string" ? value.split(/[\s,|]+/).filter(Boolean) : value),
+  z.array(z.string().trim().toLowerCase()),
+);
+
+const USERNAME_PATTERN = /^[a-z0-9._-]+$/;
+
+export const importedParticipantSchema = insertUserSchema
+  .pick({ displayName: true, username: true, email: true, phone: true })
+  .extend({
+    displayName: z.string().trim().min(1, "Nom manquant"),
+    username: z.string().trim().toLowerCase()
+      .regex(USERNAME_PATTERN, "Lettres sans accent, chiffres, « . », « _ » ou « - » uniquement")
+      .optional(),
+    email: z.string().trim().email("Adresse email invalide").optional(),
+    phone: z.string().trim().regex(/^\+?[0-9 ().-]{6,20}$/, "Numéro de téléphone invalide").optional(),
+    together: usernameList.optional().default([]),
+    apart: usernameList.optional().default([]),
+  });
+
+export type ImportedParticipant = z.infer<typeof importedParticipantSchema>;
+
+export interface ParticipantImportRecord {
+  row: number;
+  data: unknown;
+}
+
+// new: account created; enroll: existing account joins the edition
+export type ParticipantImportStatus = "new" | "enroll" | "duplicate" | "invalid";
+
+export interface ParticipantImportRow {
+  row: number;
+  status: ParticipantImportStatus;
+  participant?: {
+    displayName: string;
+    username: string;
+    email?: string;
+    phone?: string;
+  };
+  existingId?: string;
+  messages: string[];
+}
+
+export interface PlannedTeamConstraint {
+  username: string;
+  otherUsername: string;
+  kind: "together" | "apart";
+}
+
+export interface ParticipantImportPlan {
+  rows: ParticipantImportRow[];
+  constraints: PlannedTeamConstraint[];
+  counts: Record<ParticipantImportStatus, number>;
+}
+
+type ExistingUser = Pick<User, "id" | "username" | "isAdmin">;
+
+// "Élise Martin-Durand" -> "elise.martin-durand", made unique with a number
+export function suggestUsername(displayName: string, taken: Set<string>): string {
+  const base = displayName
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, ".")
+    .replace(/^[.-]+|[.-]+$/g, "") || "joueur";
+  let username = base;
+  for (let n = 2; taken.has(username); n++) username = `${base}${n}`;
+  return username;
+}
+
+export function planParticipantImport(
+  records: ParticipantImportRecord[],
+  existingUsers: ExistingUser[],
+  enrolledIds: Set<string>,
+): ParticipantImportPlan {
+  const byUsername = new Map(existingUsers.map(user => [user.username.toLowerCase(), user]));
+  const taken = new Set(byUsername.keys());
+  const fileUsernames = new Map<string, number>();
+  const wanted: { row: ParticipantImportRow; participant: ImportedParticipant }[] = [];
+
+  const rows = records.map(({ row, data }): ParticipantImportRow => {
+    const parsed = importedParticipantSchema.safeParse(data);
+    if (!parsed.success) {
+      return {
+        row,
+        status: "invalid",
+        messages: parsed.error.errors.map(e => (e.path.length > 0 ? `${e.path.join(".")} : ${e.message}` : e.message)),
+      };
+    }
+
+    const { displayName, email, phone } = parsed.data;
+    const username = parsed.data.username ?? suggestUsername(displayName, taken);
+    const participant = { displayName, username, email, phone };
+
+    const earlierRow = fileUsernames.get(username);
+    if (earlierRow !== undefined) {
+      return { row, status: "duplicate", participant, messages: [`Même identifiant qu'à la ligne ${earlierRow}`] };
+    }
+    const existing = byUsername.get(username);
+    if (existing?.isAdmin) {
+      return { row, status: "invalid", participant, messages: ["Cet identifiant appartient à un organisateur"] };
+    }
+    fileUsernames.set(username, row);
+    taken.add(username);
+
+    let result: ParticipantImportRow;
+    if (!existing) {
+      result = { row, status: "new", participant, messages: [] };
+    } else if (enrolledIds.has(existing.id)) {
+      result = { row, status: "duplicate", participant, existingId: existing.id, messages: ["Déjà inscrit à cette édition"] };
+    } else {
+      result = {
+        row,
+        status: "enroll",
+        participant,
+        existingId: existing.id,
+        messages: ["Compte existant : inscrit sans nouveau mot de passe"],
+      };
+    }
+    wanted.push({ row: result, participant: parsed.data });
+    return result;
+  });
+
+  // Constraints may name anyone taking part once the import is done
+  const participating = new Set([
+    ...Array.from(fileUsernames.keys()),
+    ...existingUsers.filter(user => enrolledIds.has(user.id)).map(user => user.username.toLowerCase()),
+  ]);
+  const constraints: PlannedTeamConstraint[] = [];
+  const seenPairs = new Set<string>();
+  for (const { row, participant } of wanted) {
+    const username = row.participant!.username;
+    for (const kind of ["together", "apart"] as const) {
+      for (const otherUsername of participant[kind]) {
+        if (otherUsername === username) continue;
+        if (!participating.has(otherUsername)) {
+          row.messages.push(`Contrainte ignorée : « ${otherUsername} » ne participe pas`);
+          continue;
+        }
+        const pairKey = `${kind}|${[username, otherUsername].sort().join("|")}`;
+        if (seenPairs.has(pairKey)) continue;
+        seenPairs.add(pairKey);
+        constraints.push({ username, otherUsername, kind });
+      }
+    }
+  }
+
+  const counts: Record<ParticipantImportStatus, number> = { new: 0, enroll: 0, duplicate: 0, invalid: 0 };
+  for (const row of rows) counts[row.status]++;
+
+  return { rows, constraints, counts };
+}
@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SeededRandom } from "./prng";
+
+// Chi-square statistic of observed counts against equal expected counts
+function chiSquare(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const expected = total / counts.length;
+  return counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+}
+
+// Upper 0.1% critical values of the chi-square distribution by degrees of freedom;
+// the seeds are fixed, so a failure means a real bias, not bad luck
+const CHI_SQUARE_999: Record<number, number> = { 1: 10.83, 2: 13.82, 5: 20.52, 6: 22.46, 7: 24.32, 9: 27.88, 23: 49.73 };
+
+function assertUniform(counts: number[]) {
+  const critical = CHI_SQUARE_999[counts.length - 1];
+  assert.ok(critical, `no critical value for ${counts.length - 1} degrees of freedom`);
+  const statistic = chiSquare(counts);
+  assert.ok(statistic < critical, `chi-square ${statistic.toFixed(2)} ≥ ${critical} for counts ${counts.join(", ")}`);
+}
+
+function intFrequencies(seed: string, n: number, draws: number): number[] {
+  const random = SeededRandom.fromSeed(seed);
+  const counts = new Array<number>(n).fill(0);
+  for (let i = 0; i < draws; i++) counts[random.nextInt(n)]++;
+  return counts;
+}
+
+test("the same seed and label give the same stream", () => {
+  const a = SeededRandom.fromSeed("seed").fork("teams");
+  const b = SeededRandom.fromSeed("seed").fork("teams");
+  const c = SeededRandom.fromSeed("seed").fork("targets");
+  const values = (random: SeededRandom) => Array.from({ length: 20 }, () => random.nextUint32());
+  assert.deepEqual(values(a), values(b));
+  assert.notDeepEqual(values(SeededRandom.fromSeed("seed").fork("teams")), values(c));
+});
+
+test("nextInt is uniform for powers of two", () => {
+  assertUniform(intFrequencies("uniform-8", 8, 40_000));
+  assertUniform(intFrequencies("uniform-2", 2, 20_000));
+});
+
+test("nextInt is uniform for sizes that do not divide 2^32", () => {
+  assertUniform(intFrequencies("uniform-7", 7, 35_000));
+  assertUniform(intFrequencies("uniform-10", 10, 50_000));
+  assertUniform(intFrequencies("uniform-6", 6, 30_000));
+});
+
+test("nextInt has no modulo bias for large sizes", () => {
+  // With n = 3·2^30, a plain `uint32 % n` would return [0, 2^30) half the time
+  // instead of a third of the time
+  const n = 3 * 2 ** 30;
+  const random = SeededRandom.fromSeed("modulo-bias");
+  const counts = [0, 0, 0];
+  for (let i = 0; i < 30_000; i++) counts[Math.floor(random.nextInt(n) / 2 ** 30)]++;
+  assertUniform(counts);
+});
+
+test("nextInt rejects invalid sizes", () => {
+  const random = SeededRandom.fromSeed("invalid");
+  for (const n of [0, -1, 1.5, NaN, 2 ** 32 + 1]) {
+    assert.throws(() => random.nextInt(n), RangeError);
+  }
+  assert.equal(random.nextInt(1), 0);
+});
+
+test("nextFloat is uniform over [0, 1)", () => {
+  const random = SeededRandom.fromSeed("float");
+  const counts = new Array<number>(10).fill(0);
+  for (let i = 0; i < 50_000; i++) {
+    const value = random.nextFloat();
+    assert.ok(value >= 0 && value < 1);
+    counts[Math.floor(value * 10)]++;
+  }
+  assertUniform(counts);
+});
+
+test("shuffle gives every permutation of four items equally often", () => {
+  const random = SeededRandom.fromSeed("shuffle");
+  const counts = new Map<string, number>();
+  for (let i = 0; i < 48_000; i++) {
+    const key = random.shuffle(["a", "b", "c", "d"]).join("");
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  assert.equal(counts.size, 24);
+  assertUniform([...counts.values()]);
+});
+
+test("shuffle puts each item at each position equally often", () => {
+  const random = SeededRandom.fromSeed("shuffle-positions");
+  const items = [0, 1, 2, 3, 4, 5];
+  const positions = items.map(() => new Array<number>(items.length).fill(0));
+  for (let i = 0; i < 12_000; i++) {
+    random.shuffle(items).forEach((item, position) => positions[item][position]++);
+  }
+  positions.forEach(assertUniform);
+});
+
+test("shuffle and sample leave the input untouched", () => {
+  const random = SeededRandom.fromSeed("copy");
+  const items = [1, 2, 3, 4, 5];
+  random.shuffle(items);
+  random.sample(items, 3);
+  assert.deepEqual(items, [1, 2, 3, 4, 5]);
+});
+
+test("sample picks distinct items, each equally often", () => {
+  const random = SeededRandom.fromSeed("sample");
+  const counts = new Array<number>(10).fill(0);
+  for (let i = 0; i < 10_000; i++) {
+    const picked = random.sample([0, 1, 2, 3, 4, 5, 6, 7, 8, 9], 3);
+    assert.equal(new Set(picked).size, 3);
+    picked.forEach(item => counts[item]++);
+  }
+  assertUniform(counts);
+  assert.equal(random.sample([1, 2], 5).length, 2);
+});
@@ -0,0 +1,97 @@
+import { hmacSha256, utf8Bytes } from "./sha256";
+
+const UINT32_RANGE = 0x100000000;
+
+// Deterministic CSPRNG: HMAC-SHA256 in counter mode.
+//
+// Block i of a stream is HMAC-SHA256(key = seed, message = label || 0x00 || i),
+// with i as a 32-bit big-endian counter. The output never repeats within the
+// 2^32 blocks a stream can produce, and streams with different labels are
+// independent, so each stage of the draw can use its own stream without
+// shifting the values seen by the others.
+export class SeededRandom {
+  private block = new Uint8Array(0);
+  private offset = 0;
+  private counter = 0;
+
+  private constructor(
+    private readonly key: Uint8Array,
+    private readonly label: string,
+  ) {}
+
+  static fromSeed(seed: string, label = ""): SeededRandom {
+    return new SeededRandom(utf8Bytes(seed), label);
+  }
+
+  // Independent sub-stream, e.g. random.fork("teams")
+  fork(label: string): SeededRandom {
+    return new SeededRandom(this.key, this.label ? `${this.label}/${label}` : label);
+  }
+
+  private refill() {
+    if (this.counter >= UINT32_RANGE) {
+      throw new RangeError("SeededRandom stream exhausted");
+    }
+    const labelBytes = utf8Bytes(this.label);
+    const message = new Uint8Array(labelBytes.length + 5);
+    message.set(labelBytes);
+    new DataView(message.buffer).setUint32(labelBytes.length + 1, this.counter);
+
+    this.block = hmacSha256(this.key, message);
+    this.offset = 0;
+    this.counter++;
+  }
+
+  nextUint32(): number {
+    if (this.offset + 4 > this.block.length) this.refill();
+    const value = new DataView(this.block.buffer).getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  // Uniform float in [0, 1) with 53 bits of precision
+  nextFloat(): number {
+    const high = this.nextUint32() >>> 5;
+    const low = this.nextUint32() >>> 6;
+    return (high * 0x4000000 + low) / 0x20000000000000;
+  }
+
+  // Uniform integer in [0, n) without modulo bias (rejection sampling)
+  nextInt(n: number): number {
+    if (!Number.isInteger(n) || n <= 0 || n > UINT32_RANGE) {
+      throw new RangeError(`nextInt expects an integer in [1, 2^32], got ${n}`);
+    }
+    const limit = UINT32_RANGE - (UINT32_RANGE % n);
+    let value = this.nextUint32();
+    while (value >= limit) value = this.nextUint32();
+    return value % n;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new RangeError("Cannot pick from an empty list");
+    }
+    return items[this.nextInt(items.length)];
+  }
+
+  // Fisher–Yates shuffle of a copy
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  // k distinct items chosen uniformly, in random order (partial Fisher–Yates)
+  sample<T>(items: readonly T[], k: number): T[] {
+    const result = [...items];
+    const count = Math.min(k, result.length);
+    for (let i = 0; i < count; i++) {
+      const j = i + this.nextInt(result.length - i);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result.slice(0, count);
+  }
+}
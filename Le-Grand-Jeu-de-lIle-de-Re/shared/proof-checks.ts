@@ -0,0 +1,201 @@
+// Cross-checks of a photo proof: the EXIF capture time and position, read by
+// the server from the uploaded file, against the game window, the submission
+// time and the position the browser declared. Nothing is rejected
+// automatically; the review queue shows the flags to the admin.
+
+import type { ExifTags } from "./proof-media";
+import { distanceMeters } from "./geofence";
+
+// When and where the photo was taken according to its EXIF tags
+export interface ProofCapture {
+  takenAt?: string;
+  // No offset in the EXIF: the local time was read in GAME_TIME_ZONE
+  takenAtEstimated?: boolean;
+  latitude?: number;
+  longitude?: number;
+  camera?: string;
+}
+
+export type ProofFlagCode =
+  | "no_capture_time"
+  | "taken_before_game"
+  | "taken_after_game"
+  | "taken_before_submission"
+  | "taken_after_submission"
+  | "location_mismatch";
+
+export interface ProofFlag {
+  code: ProofFlagCode;
+  // info: worth a look; warning: likely not taken during the game where declared
+  severity: "info" | "warning";
+  message: string;
+  distanceMeters?: number;
+}
+
+// Cameras without an offset tag write the local time of the island
+export const GAME_TIME_ZONE = "Europe/Paris";
+
+// Camera and server clocks drift a little
+const CLOCK_TOLERANCE_MS = 10 * 60 * 1000;
+// Without a schedule, a photo older than this is "old"
+const MAX_PHOTO_AGE_MS = 24 * 60 * 60 * 1000;
+// Browser positions indoors or on a phone just woken up are often this far off
+export const LOCATION_TOLERANCE_METERS = 1000;
+
+// Offset of a time zone at a given instant, e.g. +2h for Paris in summer
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const local = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return local - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// "2026:07:14 15:30:00" with "+02:00", or in `timeZone` without an offset
+function parseExifDate(value: unknown, offset: unknown, timeZone: string): { date: Date; estimated: boolean } | undefined {
+  const match = typeof value === "string" && value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (!Number.isFinite(asUtc) || year < 1990) return undefined;
+
+  const offsetMatch = typeof offset === "string" && offset.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (offsetMatch) {
+    const sign = offsetMatch[1] === "-" ? -1 : 1;
+    const offsetMs = sign * (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3])) * 60_000;
+    return { date: new Date(asUtc - offsetMs), estimated: false };
+  }
+  return { date: new Date(asUtc - zoneOffsetMs(new Date(asUtc), timeZone)), estimated: true };
+}
+
+// GPS date and time are always UTC
+function parseGpsDate(date: unknown, time: unknown): Date | undefined {
+  const match = typeof date === "string" && date.match(/^(\d{4}):(\d{2}):(\d{2})$/);
+  if (!match || !Array.isArray(time) || time.length !== 3) return undefined;
+  const [year, month, day] = match.slice(1).map(Number);
+  const [hours, minutes, seconds] = time;
+  const utc = Date.UTC(year, month - 1, day, hours, minutes, Math.floor(seconds));
+  return Number.isFinite(utc) ? new Date(utc) : undefined;
+}
+
+// Degrees, minutes, seconds and a hemisphere letter to signed decimal degrees
+function parseGpsCoordinate(value: unknown, ref: unknown, max: number): number | undefined {
+  if (!Array.isArray(value) || value.length !== 3) return undefined;
+  const [degrees, minutes, seconds] = value;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  if (!Number.isFinite(decimal) || decimal > max) return undefined;
+  return ref === "S" || ref === "W" ? -decimal : decimal;
+}
+
+export function captureFromExif(exif: ExifTags | null, timeZone = GAME_TIME_ZONE): ProofCapture | null {
+  if (!exif) return null;
+  const capture: ProofCapture = {};
+
+  // The camera's clock first; the GPS fix carries an exact UTC time otherwise
+  const original = parseExifDate(exif.DateTimeOriginal ?? exif.DateTimeDigitized, exif.OffsetTimeOriginal ?? exif.OffsetTime, timeZone);
+  const gpsTime = parseGpsDate(exif.GPSDateStamp, exif.GPSTimeStamp);
+  if (original && !(original.estimated && gpsTime)) {
+    capture.takenAt = original.date.toISOString();
+    if (original.estimated) capture.takenAtEstimated = true;
+  } else if (gpsTime) {
+    capture.takenAt = gpsTime.toISOString();
+  }
+
+  const latitude = parseGpsCoordinate(exif.GPSLatitude, exif.GPSLatitudeRef, 90);
+  const longitude = parseGpsCoordinate(exif.GPSLongitude, exif.GPSLongitudeRef, 180);
+  // Some phones write 0,0 when they had no fix
+  if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+    capture.latitude = latitude;
+    capture.longitude = longitude;
+  }
+
+  const camera = [exif.Make, exif.Model].filter(part => typeof part === "string").join(" ").trim();
+  if (camera) capture.camera = camera;
+
+  return Object.keys(capture).length > 0 ? capture : null;
+}
+
+const formatDate = (date: Date) => date.toLocaleString("fr-FR", { timeZone: GAME_TIME_ZONE });
+
+export interface ProofCheckInput {
+  type: string;
+  capture: ProofCapture | null;
+  // Metadata sent by the browser (latitude and longitude when shared)
+  declared: unknown;
+  submittedAt: Date;
+  startsAt: Date | null;
+  endsAt: Date | null;
+}
+
+export function checkProof(input: ProofCheckInput): ProofFlag[] {
+  if (input.type !== "photo") return [];
+  const flags: ProofFlag[] = [];
+  const { capture, submittedAt, startsAt, endsAt } = input;
+
+  if (!capture?.takenAt) {
+    flags.push({
+      code: "no_capture_time",
+      severity: "info",
+      message: "Pas de date de prise de vue : capture d'écran, photo retouchée ou envoyée par une messagerie ?",
+    });
+  } else {
+    const takenAt = new Date(capture.takenAt);
+    const estimated = capture.takenAtEstimated ? " (heure locale supposée)" : "";
+    if (startsAt && takenAt.getTime() < startsAt.getTime() - CLOCK_TOLERANCE_MS) {
+      flags.push({
+        code: "taken_before_game",
+        severity: "warning",
+        message: `Photo prise le ${formatDate(takenAt)}${estimated}, avant le début du jeu`,
+      });
+    } else if (!startsAt && takenAt.getTime() < submittedAt.getTime() - MAX_PHOTO_AGE_MS) {
+      flags.push({
+        code: "taken_before_submission",
+        severity: "warning",
+        message: `Photo prise le ${formatDate(takenAt)}${estimated}, plus d'un jour avant son envoi`,
+      });
+    }
+    if (endsAt && takenAt.getTime() > endsAt.getTime() + CLOCK_TOLERANCE_MS) {
+      flags.push({
+        code: "taken_after_game",
+        severity: "warning",
+        message: `Photo prise le ${formatDate(takenAt)}${estimated}, après la fin du jeu`,
+      });
+    }
+    if (takenAt.getTime() > submittedAt.getTime() + CLOCK_TOLERANCE_MS) {
+      flags.push({
+        code: "taken_after_submission",
+        severity: "info",
+        message: "Date de prise de vue postérieure à l'envoi : l'horloge de l'appareil est fausse",
+      });
+    }
+  }
+
+  const declared = input.declared as { latitude?: unknown; longitude?: unknown } | null;
+  if (
+    capture?.latitude !== undefined && capture.longitude !== undefined
+    && typeof declared?.latitude === "number" && typeof declared.longitude === "number"
+  ) {
+    const distance = Math.round(distanceMeters(
+      { latitude: capture.latitude, longitude: capture.longitude },
+      { latitude: declared.latitude, longitude: declared.longitude },
+    ));
+    if (distance > LOCATION_TOLERANCE_METERS) {
+      flags.push({
+        code: "location_mismatch",
+        severity: "warning",
+        message: `Photo prise à ${(distance / 1000).toFixed(1)} km de la position envoyée`,
+        distanceMeters: distance,
+      });
+    }
+  }
+
+  return flags;
+}
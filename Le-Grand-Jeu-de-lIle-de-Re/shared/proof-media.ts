@@ -0,0 +1,28 @@
+// What the background processing (server/media-processing.ts) derives from an
+// uploaded proof: small renditions for the review screen, the duration of
+// videos and recordings, and the EXIF tags of photos. Renditions are written
+// to the media store next to the original, without any EXIF.
+
+export const MEDIA_RENDITIONS = ["thumbnail", "preview", "waveform"] as const;
+
+// thumbnail: 320px JPEG; preview: 1280px JPEG of a photo or a video's poster
+// frame; waveform: PNG of a recording
+export type MediaRenditionName = typeof MEDIA_RENDITIONS[number];
+
+export interface MediaRendition {
+  key: string;
+  contentType: string;
+}
+
+// Raw EXIF values by tag name: text, numbers, or lists of them (rationals as decimals)
+export type ExifTags = Record<string, string | number | number[]>;
+
+export interface ProofMedia {
+  kind: "image" | "video" | "audio";
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  renditions: Partial<Record<MediaRenditionName, MediaRendition>>;
+  // Read from the original before it was re-encoded; null when it had none
+  exif: ExifTags | null;
+}
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { approvalEffects, type ApprovalContext } from "./proof-rules";
+
+// At least 2 members, and at least half of the team
+const rules = { teamProofMinimum: 2, teamProofPercent: 50 };
+
+const team = (memberCount: number, approvedMembers: number, missionValidated = false): ApprovalContext["team"] =>
+  ({ id: "t1", memberCount, approvedMembers, missionValidated });
+
+test("an approved proof validates the assignment it documents", () => {
+  for (const status of ["not_started", "in_progress", "completed"]) {
+    assert.deepEqual(approvalEffects({ assignment: { id: "a1", status } }, rules), [
+      { kind: "validate_assignment", assignmentId: "a1", fromStatus: status },
+    ]);
+  }
+});
+
+test("an assignment already validated is left alone", () => {
+  assert.deepEqual(approvalEffects({ assignment: { id: "a1", status: "validated" } }, rules), []);
+});
+
+test("the team mission waits for the required number of members", () => {
+  // 3 members: max(2, ceil(1.5)) = 2 required
+  assert.deepEqual(approvalEffects({ team: team(3, 1) }, rules), []);
+  assert.deepEqual(approvalEffects({ team: team(3, 2) }, rules), [
+    { kind: "validate_team_mission", teamId: "t1", approvedMembers: 2, required: 2 },
+  ]);
+  // 6 members: half is 3, above the minimum
+  assert.deepEqual(approvalEffects({ team: team(6, 2) }, rules), []);
+  assert.deepEqual(approvalEffects({ team: team(6, 4) }, rules), [
+    { kind: "validate_team_mission", teamId: "t1", approvedMembers: 4, required: 3 },
+  ]);
+});
+
+test("a team mission is validated only once", () => {
+  assert.deepEqual(approvalEffects({ team: team(3, 3, true) }, rules), []);
+});
+
+test("one approved proof validates the team challenge", () => {
+  assert.deepEqual(approvalEffects({ teamChallenge: { teamId: "t1", validated: false } }, rules), [
+    { kind: "validate_team_challenge", teamId: "t1" },
+  ]);
+  assert.deepEqual(approvalEffects({ teamChallenge: { teamId: "t1", validated: true } }, rules), []);
+});
+
+test("a proof with no assignment, team or team challenge changes nothing", () => {
+  assert.deepEqual(approvalEffects({}, rules), []);
+});
@@ -0,0 +1,61 @@
+// What an approved proof changes: the assignment or team challenge it
+// documents becomes validated, and a team's identification mission is
+// validated once enough members have an approved proof. Pure, so storage
+// applies exactly these effects inside the review transaction and logs each
+// of them.
+
+import { requiredTeamProofs, type GameRules } from "./game-rules";
+
+export interface ApprovalContext {
+  assignment?: {
+    id: string;
+    status: string;
+  };
+  team?: {
+    id: string;
+    missionValidated: boolean;
+    memberCount: number;
+    // Members with at least one approved team proof, the new one included
+    approvedMembers: number;
+  };
+  // The team challenge is done together, so one approved proof validates it
+  teamChallenge?: {
+    teamId: string;
+    validated: boolean;
+  };
+}
+
+export type ApprovalEffect =
+  | { kind: "validate_assignment"; assignmentId: string; fromStatus: string }
+  | { kind: "validate_team_mission"; teamId: string; approvedMembers: number; required: number }
+  | { kind: "validate_team_challenge"; teamId: string };
+
+export function approvalEffects(
+  context: ApprovalContext,
+  rules: Pick<GameRules, "teamProofMinimum" | "teamProofPercent">,
+): ApprovalEffect[] {
+  const effects: ApprovalEffect[] = [];
+
+  const { assignment, team, teamChallenge } = context;
+  if (assignment && assignment.status !== "validated") {
+    effects.push({ kind: "validate_assignment", assignmentId: assignment.id, fromStatus: assignment.status });
+  }
+
+  if (teamChallenge && !teamChallenge.validated) {
+    effects.push({ kind: "validate_team_challenge", teamId: teamChallenge.teamId });
+  }
+
+  if (team && !team.missionValidated) {
+    const required = requiredTeamProofs(rules, team.memberCount);
+    if (team.approvedMembers >= required) {
+      effects.push({
+        kind: "validate_team_mission",
+        teamId: team.id,
+        approvedMembers: team.approvedMembers,
+        required,
+      });
+    }
+  }
+
+  return effects;
+}
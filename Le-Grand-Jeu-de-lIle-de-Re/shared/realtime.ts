@@ -0,0 +1,23 @@
+// Events pushed over the WebSocket channel so open pages refresh the data
+// that changed instead of waiting for a reload.
+
+import type { ProofReview } from "./schema";
+
+export const REALTIME_PATH = "/ws";
+
+export type RealtimeEvent =
+  | { type: "draw_generated"; gameId: string }
+  | { type: "phase_changed"; gameId: string }
+  // Admins only
+  | { type: "proof_submitted"; gameId: string; proofId: string }
+  // Admins only: thumbnails and previews of an upload are ready
+  | { type: "proof_processed"; gameId: string; proofId: string }
+  // The submitting player and the admins
+  | { type: "proof_reviewed"; gameId: string; proofId: string; userId: string; decision: ProofReview["decision"] }
+  // The team's identification mission was validated
+  | { type: "team_revealed"; gameId: string; teamId: string }
+  // The team's challenge was validated
+  | { type: "team_challenge_validated"; gameId: string; teamId: string }
+  | { type: "leaderboard_changed"; gameId: string }
+  // The assignment's player and the admins
+  | { type: "assignment_updated"; gameId: string; userId: string };
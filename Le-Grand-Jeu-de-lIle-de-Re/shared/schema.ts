@@ -1,13 +1,22 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, pgEnum, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { DrawInput } from "./draw";
+import type { ProofMedia } from "./proof-media";
+import type { ProofCapture } from "./proof-checks";
+import { geofenceSchema, type Geofence, type LocationCheck } from "./geofence";
 
 // Enums
 export const challengeDifficultyEnum = pgEnum("challenge_difficulty", ["easy", "medium", "hard", "team"]);
 export const challengeStatusEnum = pgEnum("challenge_status", ["not_started", "in_progress", "completed", "validated"]);
 export const proofTypeEnum = pgEnum("proof_type", ["photo", "video", "audio", "text", "geolocation"]);
-export const auditActionEnum = pgEnum("audit_action", ["generate_assignments", "validate_team_mission", "regenerate_assignments", "verify_seed"]);
+export const gamePhaseEnum = pgEnum("game_phase", ["setup", "draw_published", "running", "judging", "closed"]);
+export const proofStatusEnum = pgEnum("proof_status", ["pending", "approved", "rejected"]);
+export const mediaStatusEnum = pgEnum("media_status", ["pending", "processing", "ready", "failed"]);
+export const notificationKindEnum = pgEnum("notification_kind", ["proof_approved", "proof_rejected"]);
+export const teamConstraintKindEnum = pgEnum("team_constraint_kind", ["together", "apart"]);
+export const auditActionEnum = pgEnum("audit_action", ["generate_assignments", "validate_team_mission", "regenerate_assignments", "verify_seed", "commit_seed", "reveal_seed", "update_settings", "create_game", "activate_game", "archive_game", "change_phase", "schedule_game", "review_proof", "validate_assignment", "change_assignment_status", "import_participants", "reset_credentials", "supersede_seed", "validate_team_challenge"]);
 
 // Users table
 export const users = pgTable("users", {
@@ -15,30 +24,108 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   displayName: text("display_name").notNull(),
+  // Contact details, for the organisers
+  email: text("email"),
+  phone: text("phone"),
   isAdmin: boolean("is_admin").default(false).notNull(),
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
 });
 
+// Games table (one row per edition of the Grand Jeu; players see the active one)
+export const games = pgTable("games", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").default(false).notNull(),
+  // Lifecycle (see shared/game-phase.ts); startsAt and endsAt drive the scheduler
+  phase: gamePhaseEnum("phase").default("setup").notNull(),
+  phaseChangedAt: timestamp("phase_changed_at").default(sql`now()`).notNull(),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+// Game participants table (which users take part in which edition)
+export const gameParticipants = pgTable("game_participants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  joinedAt: timestamp("joined_at").default(sql`now()`).notNull(),
+}, (table) => [
+  unique().on(table.gameId, table.userId),
+]);
+
 // Challenges table
 export const challenges = pgTable("challenges", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull(),
   title: text("title").notNull(),
   description: text("description").notNull(),
   difficulty: challengeDifficultyEnum("difficulty").notNull(),
   points: integer("points").notNull(),
   needsTarget: boolean("needs_target").default(false).notNull(),
+  // Where the challenge must be done, checked for geolocation proofs
+  geofence: jsonb("geofence").$type<Geofence>(),
+  // Archived challenges stay attached to past draws but are no longer drawn
+  isActive: boolean("is_active").default(true).notNull(),
+  // Current wording; every edit of the title or description adds a version
+  version: integer("version").default(1).notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+});
+
+// Challenge versions table (wording history, so an assignment keeps showing
+// the wording that was in force when it was drawn)
+export const challengeVersions = pgTable("challenge_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  challengeId: varchar("challenge_id").references(() => challenges.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  // Null for the wording copied from another edition
+  editedBy: varchar("edited_by").references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+}, (table) => [
+  unique().on(table.challengeId, table.version),
+]);
+
+// Identification missions table: the rendez-vous a team must reach together
+// before its members are revealed. The draw spreads teams over the active ones
+export const identificationMissions = pgTable("identification_missions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  // Place shown to the players, e.g. "Phare des Baleines"
+  location: text("location"),
+  // Checked for geolocation proofs of the mission
+  geofence: jsonb("geofence").$type<Geofence>(),
+  // When the teams are expected there; null when any time will do
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  // Most teams sent there by a draw; null for no limit
+  capacity: integer("capacity"),
+  // Archived missions stay attached to past draws but are no longer drawn
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
 });
 
 // Teams table
 export const teams = pgTable("teams", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull(),
   name: text("name").notNull(),
+  // Null for draws made before missions were managed in the database
+  identificationMissionId: varchar("identification_mission_id").references(() => identificationMissions.id),
+  // Wording in force at draw time
   identificationMissionTitle: text("identification_mission_title").notNull(),
   identificationMissionDescription: text("identification_mission_description").notNull(),
   identificationMissionValidated: boolean("identification_mission_validated").default(false).notNull(),
   teamChallengeId: varchar("team_challenge_id").references(() => challenges.id),
+  // Set when a proof of the team challenge is approved; every member then scores teamPoints
+  teamChallengeValidatedAt: timestamp("team_challenge_validated_at"),
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
 });
 
@@ -50,11 +137,25 @@ export const teamMembers = pgTable("team_members", {
   joinedAt: timestamp("joined_at").default(sql`now()`).notNull(),
 });
 
+// Team constraints table (pairs that must or must not share a team)
+export const teamConstraints = pgTable("team_constraints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  otherUserId: varchar("other_user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  kind: teamConstraintKindEnum("kind").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
 // Assignments table
 export const assignments = pgTable("assignments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull(),
   userId: varchar("user_id").references(() => users.id).notNull(),
   challengeId: varchar("challenge_id").references(() => challenges.id).notNull(),
+  // Version of the challenge wording at draw time
+  challengeVersion: integer("challenge_version").default(1).notNull(),
   targetUserId: varchar("target_user_id").references(() => users.id),
   status: challengeStatusEnum("status").default("not_started").notNull(),
   assignedAt: timestamp("assigned_at").default(sql`now()`).notNull(),
@@ -62,39 +163,104 @@ export const assignments = pgTable("assignments", {
   validatedAt: timestamp("validated_at"),
 });
 
-// Assignment seeds table (for cryptographic verification)
+// Assignment seeds table (commit–reveal: the hash is published when the seed is
+// generated, the draw runs later, and the seed itself is revealed after the game)
 export const assignmentSeeds = pgTable("assignment_seeds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull(),
   seed: text("seed").notNull(),
   seedHash: text("seed_hash").notNull(),
-  participantCount: integer("participant_count").notNull(),
+  participantCount: integer("participant_count").default(0).notNull(),
   generatedBy: varchar("generated_by").references(() => users.id).notNull(),
   generatedAt: timestamp("generated_at").default(sql`now()`).notNull(),
+  drawnAt: timestamp("drawn_at"),
+  // Set when a draw used a later commitment; the seed is then published in the audit log
+  supersededAt: timestamp("superseded_at"),
+  revealedAt: timestamp("revealed_at"),
+  drawInput: jsonb("draw_input").$type<DrawInput>(),
   isActive: boolean("is_active").default(true).notNull(),
 });
 
 // Proofs table
 export const proofs = pgTable("proofs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull(),
   userId: varchar("user_id").references(() => users.id).notNull(),
   assignmentId: varchar("assignment_id").references(() => assignments.id),
   teamId: varchar("team_id").references(() => teams.id),
+  // Team proofs: of the team challenge rather than of the identification mission
+  teamChallenge: boolean("team_challenge").default(false).notNull(),
   type: proofTypeEnum("type").notNull(),
   fileName: text("file_name"),
+  // Key of the uploaded file in the media store (server/media.ts)
   filePath: text("file_path"),
+  mimeType: text("mime_type"),
+  // Background processing of the upload (null without a file), see shared/proof-media.ts
+  mediaStatus: mediaStatusEnum("media_status"),
+  media: jsonb("media").$type<ProofMedia>(),
+  mediaError: text("media_error"),
   description: text("description"),
   metadata: jsonb("metadata"), // For geolocation, timestamp, etc.
-  isValidated: boolean("is_validated").default(false).notNull(),
-  validatedBy: varchar("validated_by").references(() => users.id),
-  validatedAt: timestamp("validated_at"),
+  // Capture time and position read by the server from the photo's EXIF
+  capture: jsonb("capture").$type<ProofCapture>(),
+  // Geolocation proofs: the declared position against the challenge's or mission's zone
+  locationCheck: jsonb("location_check").$type<LocationCheck>(),
+  // Moderation: pending until an admin approves or rejects it, with an optional comment
+  status: proofStatusEnum("status").default("pending").notNull(),
+  reviewComment: text("review_comment"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  // Set when a regeneration removed the assignment or team the proof was for:
+  // the proof is kept for the record but no longer reviewed
+  archivedAt: timestamp("archived_at"),
   submittedAt: timestamp("submitted_at").default(sql`now()`).notNull(),
 });
 
+// Notifications table (messages to a player, e.g. the outcome of a proof review)
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  kind: notificationKindEnum("kind").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  proofId: varchar("proof_id").references(() => proofs.id, { onDelete: "set null" }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+// Game settings table (a single row holding the rules of the game)
+export const gameSettings = pgTable("game_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id).notNull().unique(),
+  // Challenges drawn per player, and per team for "team"
+  easyQuota: integer("easy_quota").default(2).notNull(),
+  mediumQuota: integer("medium_quota").default(2).notNull(),
+  hardQuota: integer("hard_quota").default(2).notNull(),
+  teamQuota: integer("team_quota").default(1).notNull(),
+  // Points per challenge; team challenges score per member
+  easyPoints: integer("easy_points").default(1).notNull(),
+  mediumPoints: integer("medium_points").default(3).notNull(),
+  hardPoints: integer("hard_points").default(5).notNull(),
+  teamPoints: integer("team_points").default(3).notNull(),
+  minTeamSize: integer("min_team_size").default(2).notNull(),
+  maxTeamSize: integer("max_team_size").default(3).notNull(),
+  // Team identification proofs required: max(minimum, ceil(members × percent / 100))
+  teamProofMinimum: integer("team_proof_minimum").default(2).notNull(),
+  teamProofPercent: integer("team_proof_percent").default(50).notNull(),
+  forbidTeammateTargets: boolean("forbid_teammate_targets").default(true).notNull(),
+  avoidMutualTargets: boolean("avoid_mutual_targets").default(true).notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+});
+
 // Audit log table
 export const auditLog = pgTable("audit_log", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").references(() => games.id),
   action: auditActionEnum("action").notNull(),
-  adminId: varchar("admin_id").references(() => users.id).notNull(),
+  // Null for automatic actions (scheduled phase transitions)
+  adminId: varchar("admin_id").references(() => users.id),
   details: text("details").notNull(),
   seedHash: text("seed_hash"),
   metadata: jsonb("metadata"),
@@ -102,21 +268,62 @@ export const auditLog = pgTable("audit_log", {
 });
 
 // Relations
+export const gamesRelations = relations(games, ({ many }) => ({
+  participants: many(gameParticipants),
+  challenges: many(challenges),
+  identificationMissions: many(identificationMissions),
+  teams: many(teams),
+  assignments: many(assignments),
+  seeds: many(assignmentSeeds),
+}));
+
+export const gameParticipantsRelations = relations(gameParticipants, ({ one }) => ({
+  game: one(games, {
+    fields: [gameParticipants.gameId],
+    references: [games.id],
+  }),
+  user: one(users, {
+    fields: [gameParticipants.userId],
+    references: [users.id],
+  }),
+}));
+
 export const usersRelations = relations(users, ({ many }) => ({
   assignments: many(assignments),
   teamMemberships: many(teamMembers),
   proofsSubmitted: many(proofs),
   auditActions: many(auditLog),
+  gameParticipations: many(gameParticipants),
 }));
 
 export const challengesRelations = relations(challenges, ({ many }) => ({
   assignments: many(assignments),
   teamsUsingThis: many(teams),
+  versions: many(challengeVersions),
+}));
+
+export const challengeVersionsRelations = relations(challengeVersions, ({ one }) => ({
+  challenge: one(challenges, {
+    fields: [challengeVersions.challengeId],
+    references: [challenges.id],
+  }),
+  editor: one(users, {
+    fields: [challengeVersions.editedBy],
+    references: [users.id],
+  }),
+}));
+
+export const identificationMissionsRelations = relations(identificationMissions, ({ many }) => ({
+  teams: many(teams),
 }));
 
 export const teamsRelations = relations(teams, ({ many, one }) => ({
   members: many(teamMembers),
   proofs: many(proofs),
+  identificationMission: one(identificationMissions, {
+    fields: [teams.identificationMissionId],
+    references: [identificationMissions.id],
+  }),
   teamChallenge: one(challenges, {
     fields: [teams.teamChallengeId],
     references: [challenges.id],
@@ -163,28 +370,112 @@ export const proofsRelations = relations(proofs, ({ one }) => ({
     fields: [proofs.teamId],
     references: [teams.id],
   }),
-  validator: one(users, {
-    fields: [proofs.validatedBy],
+  reviewer: one(users, {
+    fields: [proofs.reviewedBy],
     references: [users.id],
   }),
 }));
 
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  proof: one(proofs, {
+    fields: [notifications.proofId],
+    references: [proofs.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertChallengeSchema = createInsertSchema(challenges).omit({
+export const insertGameSchema = createInsertSchema(games).pick({
+  name: true,
+  description: true,
+});
+
+// Start and end of play; the scheduler moves the game to running, then judging
+export const gameScheduleSchema = z.object({
+  startsAt: z.coerce.date().nullable(),
+  endsAt: z.coerce.date().nullable(),
+}).refine(schedule => !schedule.startsAt || !schedule.endsAt || schedule.startsAt < schedule.endsAt, {
+  message: "La fin doit être postérieure au début",
+  path: ["endsAt"],
+});
+
+export const insertChallengeSchema = createInsertSchema(challenges, {
+  geofence: geofenceSchema.nullable().optional(),
+}).omit({
   id: true,
+  gameId: true,
+  version: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+// Points follow the game settings and archiving has its own endpoints
+export const updateChallengeSchema = createInsertSchema(challenges, {
+  title: (schema) => schema.trim().min(1),
+  description: (schema) => schema.trim().min(1),
+  geofence: geofenceSchema.nullable(),
+})
+  .pick({
+    title: true,
+    description: true,
+    difficulty: true,
+    needsTarget: true,
+    geofence: true,
+  })
+  .partial();
+
+// A window must end after it starts
+const missionWindowIsOrdered = (mission: { startsAt?: Date | null; endsAt?: Date | null }) =>
+  !mission.startsAt || !mission.endsAt || mission.startsAt < mission.endsAt;
+
+export const insertIdentificationMissionSchema = createInsertSchema(identificationMissions, {
+  title: (schema) => schema.trim().min(1),
+  description: (schema) => schema.trim().min(1),
+  location: (schema) => schema.trim(),
+  geofence: geofenceSchema.nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  capacity: z.number().int().min(1).nullable().optional(),
+})
+  .omit({
+    id: true,
+    gameId: true,
+    createdAt: true,
+    updatedAt: true,
+  });
+
+export const createIdentificationMissionSchema = insertIdentificationMissionSchema.refine(missionWindowIsOrdered, {
+  message: "La fin du créneau doit être postérieure à son début",
+  path: ["endsAt"],
 });
 
+// Same fields, all optional; the window is checked against the stored one by the storage
+export const updateIdentificationMissionSchema = insertIdentificationMissionSchema.partial();
+
 export const insertTeamSchema = createInsertSchema(teams).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertTeamConstraintSchema = createInsertSchema(teamConstraints)
+  .omit({
+    id: true,
+    gameId: true,
+    createdAt: true,
+  })
+  .refine(c => c.userId !== c.otherUserId, {
+    message: "Une contrainte doit porter sur deux participants différents",
+    path: ["otherUserId"],
+  });
+
 export const insertAssignmentSchema = createInsertSchema(assignments).omit({
   id: true,
   assignedAt: true,
@@ -194,27 +485,107 @@ export const insertAssignmentSchema = createInsertSchema(assignments).omit({
 
 export const insertProofSchema = createInsertSchema(proofs).omit({
   id: true,
+  gameId: true,
   submittedAt: true,
-  validatedAt: true,
+  reviewedAt: true,
+  // Only set by a regeneration of the draw
+  archivedAt: true,
+  // Read from the upload and checked by the server, never sent by the player
+  capture: true,
+  locationCheck: true,
+  // Written by the media processing once the proof exists
+  media: true,
+});
+
+// An admin's decision on a pending proof; a rejection must say why
+export const proofReviewSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  comment: z.string().trim().max(1000).optional(),
+}).refine(review => review.decision === "approved" || !!review.comment, {
+  message: "Indiquez la raison du refus",
+  path: ["comment"],
 });
 
+// A logged-in user replacing their password, e.g. the one printed on their login card
+// An account created by an admin; without a password (or with an empty one)
+// a temporary one is generated
+const optionalContact = z.string().trim().nullish().transform(value => value || null);
+
+export const createUserSchema = z.object({
+  username: z.string({ required_error: "Tous les champs sont requis" }).trim().min(1, "Tous les champs sont requis"),
+  displayName: z.string({ required_error: "Tous les champs sont requis" }).trim().min(1, "Tous les champs sont requis"),
+  password: z.preprocess(
+    value => (value === "" || value === null ? undefined : value),
+    z.string().min(8, "Le mot de passe doit contenir au moins 8 caractères").max(200).optional(),
+  ),
+  email: optionalContact,
+  phone: optionalContact,
+  isAdmin: z.boolean().default(false),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Indiquez votre mot de passe actuel"),
+  newPassword: z.string().min(8, "Le nouveau mot de passe doit contenir au moins 8 caractères").max(200),
+}).refine(change => change.newPassword !== change.currentPassword, {
+  message: "Le nouveau mot de passe doit être différent de l'actuel",
+  path: ["newPassword"],
+});
+
+const nonNegative = (schema: z.ZodNumber) => schema.int().min(0);
+
+export const updateGameSettingsSchema = createInsertSchema(gameSettings, {
+  easyQuota: nonNegative,
+  mediumQuota: nonNegative,
+  hardQuota: nonNegative,
+  teamQuota: (schema) => schema.int().min(0).max(1),
+  easyPoints: nonNegative,
+  mediumPoints: nonNegative,
+  hardPoints: nonNegative,
+  teamPoints: nonNegative,
+  minTeamSize: (schema) => schema.int().min(1),
+  maxTeamSize: (schema) => schema.int().min(1),
+  teamProofMinimum: nonNegative,
+  teamProofPercent: (schema) => schema.int().min(0).max(100),
+})
+  .omit({
+    id: true,
+    gameId: true,
+    updatedBy: true,
+    updatedAt: true,
+  })
+  .partial();
+
 export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
   id: true,
   timestamp: true,
 });
 
 // Types
+export type Game = typeof games.$inferSelect;
+export type InsertGame = z.infer<typeof insertGameSchema>;
+export type GameSchedule = z.infer<typeof gameScheduleSchema>;
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "password">;
 
 export type Challenge = typeof challenges.$inferSelect;
 export type InsertChallenge = z.infer<typeof insertChallengeSchema>;
+export type UpdateChallenge = z.infer<typeof updateChallengeSchema>;
+export type ChallengeVersion = typeof challengeVersions.$inferSelect;
+
+export type IdentificationMission = typeof identificationMissions.$inferSelect;
+export type InsertIdentificationMission = z.infer<typeof insertIdentificationMissionSchema>;
+export type UpdateIdentificationMission = z.infer<typeof updateIdentificationMissionSchema>;
 
 export type Team = typeof teams.$inferSelect;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
 
 export type TeamMember = typeof teamMembers.$inferSelect;
 
+export type TeamConstraint = typeof teamConstraints.$inferSelect;
+export type InsertTeamConstraint = z.infer<typeof insertTeamConstraintSchema>;
+
 export type Assignment = typeof assignments.$inferSelect;
 export type InsertAssignment = z.infer<typeof insertAssignmentSchema>;
 
@@ -222,6 +593,14 @@ export type AssignmentSeed = typeof assignmentSeeds.$inferSelect;
 
 export type Proof = typeof proofs.$inferSelect;
 export type InsertProof = z.infer<typeof insertProofSchema>;
+export type ProofReview = z.infer<typeof proofReviewSchema>;
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+
+export type GameSettings = typeof gameSettings.$inferSelect;
+export type UpdateGameSettings = z.infer<typeof updateGameSettingsSchema>;
 
 export type AuditLogEntry = typeof auditLog.$inferSelect;
 export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeLeaderboard, type ScoringAssignment, type ScoringPlayer, type ScoringTeam } from "./scoring";
+
+const rules = { teamPoints: 50 };
+const player = (userId: string): ScoringPlayer => ({ userId, displayName: userId.toUpperCase() });
+const at = (hour: number) => new Date(Date.UTC(2026, 6, 14, hour));
+const validated = (userId: string, points: number, hour: number): ScoringAssignment =>
+  ({ userId, points, status: "validated", validatedAt: at(hour) });
+const team = (teamId: string, memberIds: string[], challengeValidatedAt: Date | null = null): ScoringTeam =>
+  ({ teamId, name: teamId, memberIds, missionValidated: true, challengeValidatedAt });
+
+const ranks = (entries: { rank: number; userId?: string; teamId?: string }[]) =>
+  entries.map(entry => [entry.userId ?? entry.teamId, entry.rank]);
+
+test("only validated assignments score", () => {
+  const { individual } = computeLeaderboard([player("a")], [
+    validated("a", 10, 9),
+    { userId: "a", points: 30, status: "completed", validatedAt: null },
+    { userId: "a", points: 20, status: "in_progress", validatedAt: null },
+  ], [], rules);
+  assert.equal(individual[0].challengePoints, 10);
+  assert.equal(individual[0].validatedChallenges, 1);
+  assert.equal(individual[0].lastValidatedAt, at(9).toISOString());
+});
+
+test("ties on points go to more validated challenges, then to who got there first", () => {
+  const { individual } = computeLeaderboard([player("a"), player("b"), player("c")], [
+    // a: 30 in one challenge
+    validated("a", 30, 9),
+    // b: 30 in two, finished at 11
+    validated("b", 10, 8),
+    validated("b", 20, 11),
+    // c: 30 in two, finished at 10
+    validated("c", 15, 9),
+    validated("c", 15, 10),
+  ], [], rules);
+  assert.deepEqual(ranks(individual), [["c", 1], ["b", 2], ["a", 3]]);
+});
+
+test("players still equal share a rank and the next rank is skipped", () => {
+  const { individual } = computeLeaderboard(["d", "b", "a", "c"].map(player), [
+    validated("d", 40, 9),
+    validated("a", 20, 10),
+    validated("b", 20, 10),
+    validated("c", 5, 9),
+  ], [], rules);
+  // Tied players are listed by name
+  assert.deepEqual(ranks(individual), [["d", 1], ["a", 2], ["b", 2], ["c", 4]]);
+});
+
+test("players who validated nothing rank last, together", () => {
+  const { individual } = computeLeaderboard(["z", "y", "x"].map(player), [validated("z", 0, 9)], [], rules);
+  // z scored no points but did validate, so it is ahead
+  assert.deepEqual(ranks(individual), [["z", 1], ["x", 2], ["y", 2]]);
+  assert.equal(individual[1].lastValidatedAt, null);
+});
+
+test("the team challenge adds team points to each member in the overall ranking only", () => {
+  const { individual, overall } = computeLeaderboard([player("a"), player("b"), player("c")], [
+    validated("a", 10, 9),
+    validated("c", 40, 9),
+  ], [team("t1", ["a", "b"], at(12)), team("t2", ["c"])], rules);
+
+  assert.deepEqual(ranks(individual), [["c", 1], ["a", 2], ["b", 3]]);
+  const a = overall.find(score => score.userId === "a")!;
+  assert.deepEqual([a.challengePoints, a.teamPoints, a.totalPoints, a.teamName], [10, 50, 60, "t1"]);
+  // b's team points do not count as a validated challenge or move its time
+  const b = overall.find(score => score.userId === "b")!;
+  assert.deepEqual([b.totalPoints, b.validatedChallenges, b.lastValidatedAt], [50, 0, null]);
+  assert.deepEqual(ranks(overall), [["a", 1], ["b", 2], ["c", 3]]);
+});
+
+test("teams are ranked on their average, so size gives no edge", () => {
+  const { teams } = computeLeaderboard(["a", "b", "c", "d", "e"].map(player), [
+    validated("a", 30, 9),
+    validated("b", 30, 9),
+    validated("c", 10, 9),
+    validated("d", 40, 10),
+    validated("e", 35, 11),
+  ], [team("big", ["a", "b", "c"]), team("small", ["d", "e"])], rules);
+
+  const [first, second] = teams;
+  assert.deepEqual([first.teamId, first.points, first.averagePoints, first.memberCount], ["small", 75, 37.5, 2]);
+  assert.deepEqual([second.teamId, second.points, second.averagePoints, second.rank], ["big", 70, 23.33, 2]);
+  assert.equal(first.lastValidatedAt, at(11).toISOString());
+  assert.equal(first.validatedChallenges, 2);
+});
+
+test("team scores include the team challenge and report its status", () => {
+  const { teams } = computeLeaderboard([player("a"), player("b")], [], [
+    team("done", ["a"], at(10)),
+    team("pending", ["b"]),
+  ], rules);
+  assert.deepEqual(teams.map(t => [t.teamId, t.points, t.challengeValidated, t.rank]), [
+    ["done", 50, true, 1],
+    ["pending", 0, false, 2],
+  ]);
+});
+
+test("an empty team averages zero", () => {
+  const { teams } = computeLeaderboard([], [], [team("empty", [])], rules);
+  assert.deepEqual([teams[0].memberCount, teams[0].averagePoints], [0, 0]);
+});
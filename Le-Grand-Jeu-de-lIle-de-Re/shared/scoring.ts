@@ -0,0 +1,150 @@
+// Scores and rankings of an edition, computed from validated assignments and
+// validated team challenges. Pure, so the server is the only place points are
+// added up and the UI only displays them.
+
+import type { GameRules } from "./game-rules";
+
+export interface ScoringPlayer {
+  userId: string;
+  displayName: string;
+}
+
+export interface ScoringAssignment {
+  userId: string;
+  points: number;
+  status: string;
+  validatedAt: Date | null;
+}
+
+export interface ScoringTeam {
+  teamId: string;
+  name: string;
+  memberIds: string[];
+  missionValidated: boolean;
+  // When the team challenge was validated; null while it is not
+  challengeValidatedAt: Date | null;
+}
+
+export interface PlayerScore {
+  rank: number;
+  userId: string;
+  displayName: string;
+  teamId: string | null;
+  teamName: string | null;
+  // Validated individual challenges
+  challengePoints: number;
+  // teamPoints when the player's team challenge is validated
+  teamPoints: number;
+  totalPoints: number;
+  validatedChallenges: number;
+  lastValidatedAt: string | null;
+}
+
+export interface TeamScore {
+  rank: number;
+  teamId: string;
+  name: string;
+  memberCount: number;
+  missionValidated: boolean;
+  challengeValidated: boolean;
+  // Sum of the members' total points
+  points: number;
+  // Teams are ranked on this, so a team of 3 has no edge over a team of 2
+  averagePoints: number;
+  validatedChallenges: number;
+  lastValidatedAt: string | null;
+}
+
+export interface Leaderboard {
+  // Individual challenges only
+  individual: PlayerScore[];
+  teams: TeamScore[];
+  // Individual challenges plus team challenge points
+  overall: PlayerScore[];
+}
+
+interface Rankable {
+  validatedChallenges: number;
+  lastValidatedAt: string | null;
+}
+
+// Tie-breaks after points: more validated challenges first, then whoever
+// reached the score first (earliest last validation). Entries still equal
+// share a rank ("1, 2, 2, 4") and are listed by name.
+function rank<T extends Rankable>(entries: T[], points: (entry: T) => number, name: (entry: T) => string): (T & { rank: number })[] {
+  const compareScore = (a: T, b: T) =>
+    points(b) - points(a) ||
+    b.validatedChallenges - a.validatedChallenges ||
+    compareReachedAt(a.lastValidatedAt, b.lastValidatedAt);
+
+  const sorted = [...entries].sort((a, b) => compareScore(a, b) || name(a).localeCompare(name(b), "fr"));
+  let currentRank = 0;
+  return sorted.map((entry, index) => {
+    if (index === 0 || compareScore(sorted[index - 1], entry) !== 0) {
+      currentRank = index + 1;
+    }
+    return { ...entry, rank: currentRank };
+  });
+}
+
+// Nobody validated yet ranks after anyone who did
+function compareReachedAt(a: string | null, b: string | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a < b ? -1 : 1;
+}
+
+export function computeLeaderboard(
+  players: ScoringPlayer[],
+  assignments: ScoringAssignment[],
+  teams: ScoringTeam[],
+  rules: Pick<GameRules, "teamPoints">,
+): Leaderboard {
+  const teamOf = new Map(teams.flatMap(team => team.memberIds.map(id => [id, team] as const)));
+
+  const scores = players.map(player => {
+    const validated = assignments.filter(a => a.userId === player.userId && a.status === "validated");
+    const team = teamOf.get(player.userId);
+    const challengePoints = validated.reduce((sum, a) => sum + a.points, 0);
+    // The team challenge scores per member
+    const teamPoints = team?.challengeValidatedAt ? rules.teamPoints : 0;
+    const validatedTimes = validated.flatMap(a => (a.validatedAt ? [a.validatedAt.toISOString()] : [])).sort();
+
+    return {
+      userId: player.userId,
+      displayName: player.displayName,
+      teamId: team?.teamId ?? null,
+      teamName: team?.name ?? null,
+      challengePoints,
+      teamPoints,
+      totalPoints: challengePoints + teamPoints,
+      validatedChallenges: validated.length,
+      lastValidatedAt: validatedTimes.at(-1) ?? null,
+    };
+  });
+
+  const teamScores = teams.map(team => {
+    const members = scores.filter(s => team.memberIds.includes(s.userId));
+    const points = members.reduce((sum, m) => sum + m.totalPoints, 0);
+    const lastValidated = members.map(m => m.lastValidatedAt).filter((t): t is string => t !== null).sort();
+
+    return {
+      teamId: team.teamId,
+      name: team.name,
+      memberCount: members.length,
+      missionValidated: team.missionValidated,
+      challengeValidated: team.challengeValidatedAt !== null,
+      points,
+      averagePoints: members.length > 0 ? Math.round((points / members.length) * 100) / 100 : 0,
+      validatedChallenges: members.reduce((sum, m) => sum + m.validatedChallenges, 0),
+      lastValidatedAt: lastValidated.at(-1) ?? null,
+    };
+  });
+
+  return {
+    individual: rank(scores, s => s.challengePoints, s => s.displayName),
+    teams: rank(teamScores, t => t.averagePoints, t => t.name),
+    overall: rank(scores, s => s.totalPoints, s => s.displayName),
+  };
+}
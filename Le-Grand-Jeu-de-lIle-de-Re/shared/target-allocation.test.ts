@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SeededRandom } from "./prng";
+import { DrawError } from "./draw-error";
+import { allocateTargets, countMutualTargets, DEFAULT_TARGET_RULES, type TargetSlot } from "./target-allocation";
+
+const players = (n: number) => Array.from({ length: n }, (_, i) => `p${i + 1}`);
+// Each player needs `perPlayer` targets
+const slotsFor = (ids: string[], perPlayer: number): TargetSlot[] =>
+  ids.flatMap(userId => Array.from({ length: perPlayer }, () => ({ userId })));
+// Teams of `size` in participant order
+const teamsOf = (ids: string[], size: number) => new Map(ids.map((id, index) => [id, Math.floor(index / size)]));
+
+function timesTargeted(ids: string[], targets: string[]): number[] {
+  return ids.map(id => targets.filter(target => target === id).length);
+}
+
+function eachSeed(run: (random: SeededRandom) => void) {
+  for (let i = 0; i < 50; i++) run(SeededRandom.fromSeed(`targets-${i}`));
+}
+
+test("one target per slot, in slot order, never oneself nor a teammate", () => {
+  const ids = players(9);
+  const teamOf = teamsOf(ids, 3);
+  const slots = slotsFor(ids, 2);
+  eachSeed(random => {
+    const targets = allocateTargets(random, slots, ids, teamOf, DEFAULT_TARGET_RULES);
+    assert.equal(targets.length, slots.length);
+    slots.forEach((slot, index) => {
+      assert.notEqual(targets[index], slot.userId);
+      assert.notEqual(teamOf.get(targets[index]), teamOf.get(slot.userId));
+    });
+  });
+});
+
+test("teammates may be targeted when the rule allows it", () => {
+  const ids = players(2);
+  const teamOf = teamsOf(ids, 2);
+  const targets = allocateTargets(SeededRandom.fromSeed("teammates"), slotsFor(ids, 1), ids, teamOf, {
+    forbidTeammates: false,
+    avoidMutual: false,
+  });
+  assert.deepEqual(targets, ["p2", "p1"]);
+});
+
+test("times targeted stay within one of each other", () => {
+  const ids = players(10);
+  const teamOf = teamsOf(ids, 2);
+  eachSeed(random => {
+    // 10 players with 3 slots each: every player is targeted exactly 3 times
+    const even = timesTargeted(ids, allocateTargets(random, slotsFor(ids, 3), ids, teamOf, DEFAULT_TARGET_RULES));
+    assert.deepEqual(even, new Array(10).fill(3));
+
+    // 7 slots over 10 players: 0 or 1 each
+    const slots = slotsFor(ids.slice(0, 7), 1);
+    const counts = timesTargeted(ids, allocateTargets(random, slots, ids, teamOf, DEFAULT_TARGET_RULES));
+    assert.ok(Math.max(...counts) - Math.min(...counts) <= 1, `counts ${counts.join(", ")}`);
+  });
+});
+
+test("a player does not get the same target twice while others are available", () => {
+  const ids = players(8);
+  const teamOf = teamsOf(ids, 2);
+  eachSeed(random => {
+    const slots = slotsFor(ids, 3);
+    const targets = allocateTargets(random, slots, ids, teamOf, DEFAULT_TARGET_RULES);
+    for (const id of ids) {
+      const own = targets.filter((_, index) => slots[index].userId === id);
+      assert.equal(new Set(own).size, own.length, `${id} targets ${own.join(", ")}`);
+    }
+  });
+});
+
+test("mutual pairs are avoided when another allocation exists", () => {
+  const ids = players(6);
+  const teamOf = teamsOf(ids, 2);
+  eachSeed(random => {
+    const slots = slotsFor(ids, 1);
+    assert.equal(countMutualTargets(slots, allocateTargets(random, slots, ids, teamOf, DEFAULT_TARGET_RULES)), 0);
+  });
+});
+
+test("mutual pairs are kept when they cannot be avoided", () => {
+  // Two teams of one: each player can only target the other
+  const ids = players(2);
+  const slots = slotsFor(ids, 1);
+  const targets = allocateTargets(SeededRandom.fromSeed("forced"), slots, ids, teamsOf(ids, 1), DEFAULT_TARGET_RULES);
+  assert.deepEqual(targets, ["p2", "p1"]);
+  assert.equal(countMutualTargets(slots, targets), 2);
+});
+
+test("countMutualTargets counts both ends of each pair", () => {
+  const slots = slotsFor(["a", "b", "c"], 1);
+  assert.equal(countMutualTargets(slots, ["b", "a", "a"]), 2);
+  assert.equal(countMutualTargets(slots, ["b", "c", "a"]), 0);
+});
+
+test("a player whose only others are teammates gets a DrawError", () => {
+  const ids = players(3);
+  // Everyone in the same team
+  const teamOf = new Map(ids.map(id => [id, 0]));
+  assert.throws(
+    () => allocateTargets(SeededRandom.fromSeed("alone"), slotsFor(ids, 1), ids, teamOf, DEFAULT_TARGET_RULES),
+    (error: unknown) => error instanceof DrawError && error.issues[0].code === "no_target_available",
+  );
+});
+
+test("the same seed gives the same targets", () => {
+  const ids = players(12);
+  const draw = () => allocateTargets(SeededRandom.fromSeed("repeat"), slotsFor(ids, 2), ids, teamsOf(ids, 3), DEFAULT_TARGET_RULES);
+  assert.deepEqual(draw(), draw());
+});
@@ -0,0 +1,122 @@
+import type { SeededRandom } from "./prng";
+import { DrawError } from "./draw-error";
+
+export interface TargetRules {
+  // A player never has to act on someone from their own team
+  forbidTeammates: boolean;
+  // Avoid A targeting B while B targets A, when another choice exists
+  avoidMutual: boolean;
+}
+
+export const DEFAULT_TARGET_RULES: TargetRules = { forbidTeammates: true, avoidMutual: true };
+
+// One challenge of one player that needs a target
+export interface TargetSlot {
+  userId: string;
+}
+
+// How many allocations are tried when looking for a balanced one without
+// mutual or repeated targets
+const ALLOCATION_ATTEMPTS = 50;
+
+// One greedy pass: slots are handled in a random order and each one goes to
+// the least targeted eligible participant, which keeps counts close but not
+// always within one (see allocationCost). Among those, players who do not
+// already target the slot owner, then players the owner does not already
+// target, are preferred. Self- and (optionally) teammate-targeting are never
+// allowed.
+function allocateOnce(
+  random: SeededRandom,
+  slots: TargetSlot[],
+  participantIds: string[],
+  teamOf: Map<string, number>,
+  rules: TargetRules,
+): string[] {
+  const timesTargeted = new Map(participantIds.map(id => [id, 0]));
+  const targetsOf = new Map<string, Set<string>>(participantIds.map(id => [id, new Set<string>()]));
+  const targets: string[] = new Array(slots.length);
+
+  const order = random.shuffle(slots.map((_, index) => index));
+  for (const index of order) {
+    const userId = slots[index].userId;
+    const alreadyTargeted = targetsOf.get(userId)!;
+
+    let candidates = participantIds.filter(id =>
+      id !== userId && !(rules.forbidTeammates && teamOf.has(id) && teamOf.get(id) === teamOf.get(userId)),
+    );
+    if (candidates.length === 0) {
+      throw new DrawError([{
+        code: "no_target_available",
+        message: "Aucune cible possible pour un défi : tous les autres participants sont dans la même équipe",
+        userIds: [userId],
+      }]);
+    }
+
+    const prefer = (keep: (id: string) => boolean) => {
+      const preferred = candidates.filter(keep);
+      if (preferred.length > 0) candidates = preferred;
+    };
+    const fewest = Math.min(...candidates.map(id => timesTargeted.get(id)!));
+    prefer(id => timesTargeted.get(id) === fewest);
+    if (rules.avoidMutual) prefer(id => !targetsOf.get(id)!.has(userId));
+    prefer(id => !alreadyTargeted.has(id));
+
+    const target = random.pick(candidates);
+    targets[index] = target;
+    timesTargeted.set(target, timesTargeted.get(target)! + 1);
+    alreadyTargeted.add(target);
+  }
+
+  return targets;
+}
+
+// Number of slots whose target also targets the slot owner
+export function countMutualTargets(slots: TargetSlot[], targets: string[]): number {
+  const pairs = new Set(slots.map((slot, index) => `${slot.userId}|${targets[index]}`));
+  return slots.filter((slot, index) => pairs.has(`${targets[index]}|${slot.userId}`)).length;
+}
+
+// How far an allocation is from the ideal, compared in order: times targeted
+// spread over more than one, then mutual pairs (when avoided), then players
+// targeting the same person twice. All zero is the ideal.
+function allocationCost(
+  slots: TargetSlot[],
+  targets: string[],
+  participantIds: string[],
+  rules: TargetRules,
+): number[] {
+  const counts = participantIds.map(id => targets.filter(target => target === id).length);
+  const imbalance = Math.max(0, Math.max(...counts) - Math.min(...counts) - 1);
+  const mutual = rules.avoidMutual ? countMutualTargets(slots, targets) : 0;
+  const pairs = slots.map((slot, index) => `${slot.userId}|${targets[index]}`);
+  const repeats = pairs.length - new Set(pairs).size;
+  return [imbalance, mutual, repeats];
+}
+
+const isBetter = (cost: number[], best: number[]) => {
+  const index = cost.findIndex((value, i) => value !== best[i]);
+  return index >= 0 && cost[index] < best[index];
+};
+
+// Choose a target for every slot, in slot order. A greedy pass can paint
+// itself into a corner, so several allocations are tried and the first ideal
+// one (or else the closest to it) is kept.
+export function allocateTargets(
+  random: SeededRandom,
+  slots: TargetSlot[],
+  participantIds: string[],
+  teamOf: Map<string, number>,
+  rules: TargetRules,
+): string[] {
+  let best = allocateOnce(random, slots, participantIds, teamOf, rules);
+  let bestCost = allocationCost(slots, best, participantIds, rules);
+  for (let attempt = 1; attempt < ALLOCATION_ATTEMPTS && bestCost.some(value => value > 0); attempt++) {
+    const targets = allocateOnce(random, slots, participantIds, teamOf, rules);
+    const cost = allocationCost(slots, targets, participantIds, rules);
+    if (isBetter(cost, bestCost)) {
+      best = targets;
+      bestCost = cost;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SeededRandom } from "./prng";
+import { DrawError } from "./draw-error";
+import { checkTeamFormation, formTeams, type PairConstraint } from "./team-formation";
+
+const players = (n: number) => Array.from({ length: n }, (_, i) => `p${i + 1}`);
+const together = (userId: string, otherUserId: string): PairConstraint => ({ userId, otherUserId, kind: "together" });
+const apart = (userId: string, otherUserId: string): PairConstraint => ({ userId, otherUserId, kind: "apart" });
+const teamOf = (teams: string[][], id: string) => teams.findIndex(team => team.includes(id));
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code).sort();
+
+// Same draw over many seeds, so a rule that only holds by luck shows up
+function eachSeed(run: (random: SeededRandom) => void) {
+  for (let i = 0; i < 50; i++) run(SeededRandom.fromSeed(`teams-${i}`));
+}
+
+test("every participant is placed exactly once, within the size bounds", () => {
+  eachSeed(random => {
+    const ids = players(11);
+    const teams = formTeams(random, ids, { min: 2, max: 3 }, []);
+    assert.deepEqual(teams.flat().sort(), [...ids].sort());
+    for (const team of teams) assert.ok(team.length >= 2 && team.length <= 3, `team of ${team.length}`);
+  });
+});
+
+test("sizes are balanced and nobody is left alone", () => {
+  eachSeed(random => {
+    // 7 players in teams of 1 to 4: two teams of 4 and 3, never 4 + 2 + 1
+    const teams = formTeams(random, players(7), { min: 1, max: 4 }, []);
+    assert.deepEqual(teams.map(team => team.length).sort(), [3, 4]);
+
+    const sizes = formTeams(random, players(10), { min: 2, max: 3 }, []).map(team => team.length);
+    assert.ok(Math.max(...sizes) - Math.min(...sizes) <= 1, `unbalanced sizes ${sizes.join(", ")}`);
+    assert.ok(!sizes.includes(1));
+  });
+});
+
+test("together constraints chain into one group", () => {
+  eachSeed(random => {
+    // p1–p2 and p2–p3 put p1 and p3 together too
+    const teams = formTeams(random, players(9), { min: 2, max: 3 }, [together("p1", "p2"), together("p3", "p2")]);
+    assert.equal(teamOf(teams, "p1"), teamOf(teams, "p2"));
+    assert.equal(teamOf(teams, "p1"), teamOf(teams, "p3"));
+  });
+});
+
+test("apart constraints are never broken", () => {
+  const constraints = [apart("p1", "p2"), apart("p1", "p3"), apart("p2", "p3"), apart("p4", "p5")];
+  eachSeed(random => {
+    const teams = formTeams(random, players(6), { min: 2, max: 3 }, constraints);
+    for (const { userId, otherUserId } of constraints) {
+      assert.notEqual(teamOf(teams, userId), teamOf(teams, otherUserId));
+    }
+  });
+});
+
+test("together and apart constraints combine", () => {
+  eachSeed(random => {
+    const teams = formTeams(random, players(8), { min: 2, max: 4 }, [
+      together("p1", "p2"),
+      together("p3", "p4"),
+      apart("p1", "p3"),
+    ]);
+    assert.equal(teamOf(teams, "p1"), teamOf(teams, "p2"));
+    assert.equal(teamOf(teams, "p3"), teamOf(teams, "p4"));
+    assert.notEqual(teamOf(teams, "p1"), teamOf(teams, "p3"));
+  });
+});
+
+test("constraints on absent or identical participants are ignored", () => {
+  const issues = checkTeamFormation(players(4), { min: 2, max: 2 }, [
+    together("p1", "ghost"),
+    apart("p1", "p1"),
+    together("p1", "p2"),
+  ]);
+  assert.deepEqual(issues, []);
+});
+
+test("the same seed gives the same teams", () => {
+  const draw = () => formTeams(SeededRandom.fromSeed("repeat"), players(12), { min: 2, max: 3 }, [apart("p1", "p2")]);
+  assert.deepEqual(draw(), draw());
+});
+
+test("an invalid size rule is the only issue reported", () => {
+  assert.deepEqual(codes(checkTeamFormation(players(6), { min: 3, max: 2 }, [])), ["invalid_team_size"]);
+  assert.deepEqual(codes(checkTeamFormation(players(6), { min: 0, max: 2 }, [])), ["invalid_team_size"]);
+  assert.deepEqual(codes(checkTeamFormation(players(6), { min: 1.5, max: 2 }, [])), ["invalid_team_size"]);
+});
+
+test("impossible constraints are all reported with the people involved", () => {
+  const issues = checkTeamFormation(players(5), { min: 3, max: 3 }, [
+    together("p1", "p2"),
+    together("p2", "p3"),
+    together("p3", "p4"),
+    apart("p1", "p4"),
+  ]);
+  assert.deepEqual(codes(issues), ["contradictory_constraints", "group_too_large", "team_size_unreachable"]);
+  assert.deepEqual(issues.find(issue => issue.code === "group_too_large")?.userIds?.sort(), ["p1", "p2", "p3", "p4"]);
+  assert.deepEqual(issues.find(issue => issue.code === "contradictory_constraints")?.userIds, ["p1", "p4"]);
+});
+
+test("formTeams throws a DrawError with the issues", () => {
+  const random = SeededRandom.fromSeed("impossible");
+  assert.throws(
+    () => formTeams(random, players(5), { min: 3, max: 3 }, []),
+    (error: unknown) => error instanceof DrawError && codes(error.issues).join() === "team_size_unreachable",
+  );
+});
+
+test("an arrangement the constraints rule out is reported as such", () => {
+  // Three players only make one team of three, which p1 and p2 cannot share
+  const random = SeededRandom.fromSeed("no-arrangement");
+  assert.throws(
+    () => formTeams(random, players(3), { min: 3, max: 3 }, [apart("p1", "p2")]),
+    (error: unknown) => error instanceof DrawError && error.issues[0].code === "no_arrangement",
+  );
+});
+
+test("no participants form no teams", () => {
+  assert.deepEqual(formTeams(SeededRandom.fromSeed("empty"), [], { min: 2, max: 3 }, []), []);
+});
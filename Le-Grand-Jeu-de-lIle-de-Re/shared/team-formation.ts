@@ -0,0 +1,160 @@
+import type { SeededRandom } from "./prng";
+import { DrawError, type DrawIssue } from "./draw-error";
+
+export interface TeamSizeRule {
+  min: number;
+  max: number;
+}
+
+export type PairConstraintKind = "together" | "apart";
+
+// "together": couples, siblings... must share a team.
+// "apart": colleagues, rivals... must never share a team.
+export interface PairConstraint {
+  userId: string;
+  otherUserId: string;
+  kind: PairConstraintKind;
+}
+
+export const DEFAULT_TEAM_SIZE: TeamSizeRule = { min: 2, max: 3 };
+
+// How many shuffled placements are tried per team count before giving up
+const PLACEMENT_ATTEMPTS = 20;
+
+// Groups of participants bound by "together" constraints (union-find)
+function buildGroups(participantIds: string[], constraints: PairConstraint[]): string[][] {
+  const parent = new Map(participantIds.map(id => [id, id]));
+  const find = (id: string): string => {
+    const p = parent.get(id)!;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const c of constraints) {
+    if (c.kind === "together") parent.set(find(c.userId), find(c.otherUserId));
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const id of participantIds) {
+    const root = find(id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  }
+  return Array.from(groups.values());
+}
+
+// Constraints that mention someone who is not taking part are ignored
+function relevantConstraints(participantIds: string[], constraints: PairConstraint[]) {
+  const present = new Set(participantIds);
+  return constraints.filter(c => present.has(c.userId) && present.has(c.otherUserId) && c.userId !== c.otherUserId);
+}
+
+function teamCountRange(n: number, size: TeamSizeRule) {
+  return { min: Math.ceil(n / size.max), max: Math.floor(n / size.min) };
+}
+
+// Everything that makes team formation impossible, without drawing anything
+export function checkTeamFormation(
+  participantIds: string[],
+  size: TeamSizeRule,
+  constraints: PairConstraint[],
+): DrawIssue[] {
+  const issues: DrawIssue[] = [];
+
+  if (!Number.isInteger(size.min) || !Number.isInteger(size.max) || size.min < 1 || size.min > size.max) {
+    return [{
+      code: "invalid_team_size",
+      message: `Taille d'équipe invalide : entre ${size.min} et ${size.max} membres`,
+    }];
+  }
+
+  const n = participantIds.length;
+  const counts = teamCountRange(n, size);
+  if (n > 0 && counts.min > counts.max) {
+    issues.push({
+      code: "team_size_unreachable",
+      message: `Impossible de répartir ${n} participant(s) en équipes de ${size.min} à ${size.max} membres`,
+    });
+  }
+
+  const relevant = relevantConstraints(participantIds, constraints);
+  const groups = buildGroups(participantIds, relevant);
+  const groupOf = new Map(groups.flatMap(g => g.map(id => [id, g] as const)));
+
+  for (const group of groups) {
+    if (group.length > size.max) {
+      issues.push({
+        code: "group_too_large",
+        message: `${group.length} participants doivent être ensemble mais une équipe compte au plus ${size.max} membres`,
+        userIds: group,
+      });
+    }
+  }
+
+  for (const c of relevant) {
+    if (c.kind === "apart" && groupOf.get(c.userId) === groupOf.get(c.otherUserId)) {
+      issues.push({
+        code: "contradictory_constraints",
+        message: "Deux participants doivent être à la fois ensemble et séparés",
+        userIds: [c.userId, c.otherUserId],
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Split participants into teams within the size bounds, honouring every pair
+// constraint. Sizes are kept as balanced as the constraints allow. Throws a
+// DrawError listing the problems when no valid arrangement exists.
+export function formTeams(
+  random: SeededRandom,
+  participantIds: string[],
+  size: TeamSizeRule,
+  constraints: PairConstraint[],
+): string[][] {
+  const issues = checkTeamFormation(participantIds, size, constraints);
+  if (issues.length > 0) throw new DrawError(issues);
+  if (participantIds.length === 0) return [];
+
+  const relevant = relevantConstraints(participantIds, constraints);
+  const apart = new Set(
+    relevant.filter(c => c.kind === "apart").flatMap(c => [`${c.userId}|${c.otherUserId}`, `${c.otherUserId}|${c.userId}`]),
+  );
+  const conflicts = (team: string[], group: string[]) =>
+    team.some(member => group.some(id => apart.has(`${member}|${id}`)));
+
+  const groups = buildGroups(participantIds, relevant);
+  const counts = teamCountRange(participantIds.length, size);
+
+  // Fewest teams first (largest teams), then allow more teams if needed
+  for (let teamCount = counts.min; teamCount <= counts.max; teamCount++) {
+    for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+      // Shuffle then stable-sort so same-size groups are taken in random order
+      const ordered = random.shuffle(groups).sort((a, b) => b.length - a.length);
+      const teams: string[][] = Array.from({ length: teamCount }, () => []);
+
+      let placed = true;
+      for (const group of ordered) {
+        const candidates = teams.filter(t => t.length + group.length <= size.max && !conflicts(t, group));
+        if (candidates.length === 0) {
+          placed = false;
+          break;
+        }
+        // Smallest team first keeps sizes balanced
+        const smallest = Math.min(...candidates.map(t => t.length));
+        random.pick(candidates.filter(t => t.length === smallest)).push(...group);
+      }
+
+      if (placed && teams.every(t => t.length >= size.min)) {
+        return random.shuffle(teams);
+      }
+    }
+  }
+
+  throw new DrawError([{
+    code: "no_arrangement",
+    message: "Aucune répartition en équipes ne respecte toutes les contraintes",
+  }]);
+}